@@ -0,0 +1,121 @@
+import { randomUUID } from "node:crypto";
+import { describe, expect, it, vi } from "vitest";
+import { auth } from "@/app/auth";
+import { saveAgentAction } from "@/lib/db/queries";
+import { createTestAuth, createTestUser } from "@/test/harness/users";
+import { GET } from "./route";
+
+vi.mock("@/app/auth", () => ({ auth: vi.fn() }));
+
+const list = async (query: string, userId?: string) => {
+  vi.mocked(auth).mockResolvedValue(createTestAuth(userId));
+  return GET(new Request(`http://localhost/api/agent-actions?${query}`));
+};
+
+/**
+ * Logs actions for a user a minute apart, the last one newest
+ */
+const logActions = async (
+  userId: string,
+  actions: Array<{ action: string; status: "SUCCESS" | "FAILED" }>
+) => {
+  const chatId = randomUUID();
+  const start = Date.now() - actions.length * 60_000;
+  for (const [index, { action, status }] of actions.entries()) {
+    const createdAt = new Date(start + index * 60_000);
+    await saveAgentAction({
+      chatId,
+      messageId: randomUUID(),
+      userId,
+      action,
+      args: {},
+      status,
+      result: null,
+      error: status === "FAILED" ? "Error: reverted" : null,
+      createdAt,
+      completedAt: createdAt,
+    });
+  }
+  return chatId;
+};
+
+describe("GET /api/agent-actions", () => {
+  it("requires a signed in user", async () => {
+    const response = await list("");
+
+    expect(response.status).toBe(401);
+  });
+
+  it("only lists the signed in user's actions, newest first", async () => {
+    const [userId, otherUser] = await Promise.all([
+      createTestUser(),
+      createTestUser(),
+    ]);
+    const chatId = await logActions(userId, [
+      { action: "get_balance", status: "SUCCESS" },
+      { action: "native_transfer", status: "FAILED" },
+      { action: "native_transfer", status: "SUCCESS" },
+    ]);
+    await logActions(otherUser, [
+      { action: "native_transfer", status: "SUCCESS" },
+    ]);
+
+    const response = await list("", userId);
+    expect(response.status).toBe(200);
+    const { actions, nextCursor } = await response.json();
+    expect(
+      actions.map(({ action, status }: { action: string; status: string }) => [
+        action,
+        status,
+      ])
+    ).toEqual([
+      ["native_transfer", "SUCCESS"],
+      ["native_transfer", "FAILED"],
+      ["get_balance", "SUCCESS"],
+    ]);
+    expect(nextCursor).toBeNull();
+
+    const failed = await (
+      await list(`chatId=${chatId}&status=FAILED`, userId)
+    ).json();
+    expect(failed.actions).toEqual([
+      expect.objectContaining({ userId, error: "Error: reverted" }),
+    ]);
+    expect(
+      (await (await list(`chatId=${chatId}`, otherUser)).json()).actions
+    ).toEqual([]);
+  });
+
+  it("pages through the actions with the cursor", async () => {
+    const userId = await createTestUser();
+    await logActions(
+      userId,
+      ["a", "b", "c", "d", "e"].map((action) => ({
+        action,
+        status: "SUCCESS",
+      }))
+    );
+
+    const pages: Array<Array<string>> = [];
+    let query = "limit=2";
+    for (;;) {
+      const { actions, nextCursor } = await (await list(query, userId)).json();
+      pages.push(actions.map(({ action }: { action: string }) => action));
+      if (!nextCursor) {
+        break;
+      }
+      query = `limit=2&before=${encodeURIComponent(nextCursor)}`;
+    }
+
+    expect(pages).toEqual([["e", "d"], ["c", "b"], ["a"]]);
+  });
+
+  it("rejects an invalid query", async () => {
+    const userId = await createTestUser();
+
+    const response = await list("limit=500&status=PENDING", userId);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("limit");
+  });
+});
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/app/auth";
+import { getAgentActionsByUserId } from "@/lib/db/queries";
+
+const QuerySchema = z.object({
+  chatId: z.string().uuid().optional(),
+  action: z.string().optional(),
+  status: z.enum(["SUCCESS", "FAILED"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  before: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = QuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!query.success) {
+    const errorMessage = query.error.errors
+      .map((error) => `${error.path.join(".")}: ${error.message}`)
+      .join(", ");
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+
+  try {
+    const actions = await getAgentActionsByUserId({
+      userId: session.user.id,
+      ...query.data,
+    });
+
+    const nextCursor =
+      actions.length === query.data.limit
+        ? actions[actions.length - 1].createdAt.toISOString()
+        : null;
+
+    return NextResponse.json({ actions, nextCursor });
+  } catch (error) {
+    console.error("Failed to get agent actions:", error);
+    return NextResponse.json(
+      { error: "Failed to get agent actions" },
+      { status: 500 }
+    );
+  }
+}
@@ -26,6 +26,17 @@ import { createDocument } from "@/lib/ai/tools/create-document";
 import { updateDocument } from "@/lib/ai/tools/update-document";
 import { requestSuggestions } from "@/lib/ai/tools/request-suggestions";
 import { agentKitToTools } from "@/lib/web3/agentkit/framework-extensions/ai-sdk";
+import { auditMiddleware } from "@/lib/web3/agentkit/framework-extensions/audit";
+import { confirmationMiddleware } from "@/lib/web3/agentkit/framework-extensions/confirmations";
+import {
+  type ChatNetwork,
+  networkMiddleware,
+} from "@/lib/web3/agentkit/framework-extensions/network";
+import {
+  DEFAULT_NETWORK_ID,
+  SUPPORTED_NETWORK_IDS,
+} from "@/lib/web3/agentkit/wallet-providers/network";
+import { executionMiddleware } from "@/lib/web3/agentkit/middleware";
 import { z } from "zod";
 import {
   saveUserInformation,
@@ -38,6 +49,8 @@ import {
   getAvailableStarterKitsTool,
   claimAvailableStarterKitTool,
 } from "@/lib/ai/tools/starter-kit";
+import { switchNetworkTool } from "@/lib/ai/tools/network";
+import { getRequestIp } from "@/lib/starter-kit/eligibility";
 
 export const maxDuration = 60;
 
@@ -54,6 +67,7 @@ export async function POST(request: Request) {
   );
 
   let userProfile = "User is not signed in";
+  const network: ChatNetwork = { networkId: DEFAULT_NETWORK_ID };
   const session = await auth();
   const userMessage = getMostRecentUserMessage(messages);
 
@@ -76,21 +90,44 @@ export async function POST(request: Request) {
         message: userMessage,
       });
       await saveChat({ id, userId: session.user.id, title });
+    } else if (
+      chat.networkId &&
+      SUPPORTED_NETWORK_IDS.includes(chat.networkId)
+    ) {
+      network.networkId = chat.networkId;
     }
     await saveMessages({
       messages: [{ ...userMessage, createdAt: new Date(), chatId: id }],
     });
   }
 
-  const agentKit = await setupAgentKit();
+  const { agentKit, walletProvider } = await setupAgentKit({
+    networkId: network.networkId,
+  });
 
-  const tools = agentKitToTools(agentKit);
+  const tools = agentKitToTools(agentKit, {
+    middleware: [
+      auditMiddleware({
+        session,
+        chatId: id,
+        messageId: userMessage.id,
+        walletProvider,
+      }),
+      networkMiddleware({ network, walletProvider }),
+      confirmationMiddleware({ session, chatId: id, walletProvider }),
+      ...executionMiddleware({ session, chatId: id, walletProvider }),
+    ],
+  });
 
   return createDataStreamResponse({
     execute: (dataStream) => {
       const result = streamText({
         model: myProvider.languageModel(selectedChatModel),
-        system: generateSystemPrompt({ selectedChatModel }) + userProfile,
+        system:
+          generateSystemPrompt({
+            selectedChatModel,
+            networkId: network.networkId,
+          }) + userProfile,
         messages,
         maxSteps: 10,
         // experimental_activeTools:
@@ -128,7 +165,11 @@ export async function POST(request: Request) {
           saveUserInformation: saveUserInformation({ session }),
           getUserInformation: getUserInformation({ session }),
           getAvailableStarterKits: getAvailableStarterKitsTool(),
-          claimAvailableStarterKit: claimAvailableStarterKitTool(),
+          claimAvailableStarterKit: claimAvailableStarterKitTool({
+            session,
+            ip: getRequestIp(request.headers),
+          }),
+          switch_network: switchNetworkTool({ session, chatId: id, network }),
         },
         onFinish: async ({ response, reasoning, text }) => {
           // currently the content of the last message is truncated, so passing in the text as a partial fix
@@ -0,0 +1,123 @@
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { auth } from "@/app/auth";
+import { fetchCharge } from "@/lib/commerce/charges";
+import { getChargeById, getStarterKitByChargeId } from "@/lib/db/queries";
+import type {
+  CoinbaseChargeResponse,
+  CoinbaseWebhookPayload,
+} from "@/lib/types/coinbase";
+import { createTestAuth, createTestUser } from "@/test/harness/users";
+import { POST } from "./route";
+
+vi.mock("@/app/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/commerce/charges", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/commerce/charges")>()),
+  fetchCharge: vi.fn(),
+}));
+
+const PRODUCT_ID = "8e3f2a1b-7c6d-4e5f-a0b1-c2d3e4f5a6b7";
+
+/**
+ * Loads the charge of a recorded webhook event, as the Commerce API returns it
+ */
+const loadCharge = (
+  name: "charge-created" | "charge-confirmed",
+  chargeId: string
+): CoinbaseChargeResponse => {
+  const { event } = JSON.parse(
+    readFileSync(
+      path.join(process.cwd(), "lib/commerce/fixtures", `${name}.json`),
+      "utf8"
+    )
+  ) as CoinbaseWebhookPayload;
+  return { ...event.data, id: chargeId };
+};
+
+const verify = (charge: CoinbaseChargeResponse, userId?: string) => {
+  vi.mocked(auth).mockResolvedValueOnce(createTestAuth(userId));
+  vi.mocked(fetchCharge).mockResolvedValue(charge);
+  return POST(
+    new NextRequest(
+      `http://localhost/api/commerce/verify/${PRODUCT_ID}/${charge.id}`,
+      { method: "POST" }
+    ),
+    {
+      params: Promise.resolve({ productId: PRODUCT_ID, chargeId: charge.id }),
+    }
+  );
+};
+
+describe("POST /api/commerce/verify/[productId]/[chargeId]", () => {
+  beforeEach(() => {
+    vi.stubEnv("COINBASE_COMMERCE_API_KEY", "test-key");
+    vi.stubEnv("NEXT_PUBLIC_COINBASE_COMMERCE_PRODUCT_STARTER_KIT", PRODUCT_ID);
+  });
+
+  it("binds a new charge to the signed in buyer, not to the paying wallet", async () => {
+    const buyer = await createTestUser();
+    const chargeId = randomUUID();
+
+    const created = await verify(loadCharge("charge-created", chargeId), buyer);
+    expect(created.status).toBe(200);
+    expect(await created.json()).toMatchObject({ status: "NEW" });
+    expect(await getChargeById(chargeId)).toEqual([
+      expect.objectContaining({ userId: buyer }),
+    ]);
+
+    const confirmed = await verify(
+      loadCharge("charge-confirmed", chargeId),
+      buyer
+    );
+    expect(await confirmed.json()).toMatchObject({
+      status: "COMPLETED",
+      kitStatus: "ACTIVE",
+    });
+    expect(await getStarterKitByChargeId(chargeId)).toMatchObject({
+      creatorId: buyer,
+      claimerId: buyer,
+    });
+  });
+
+  it("hides a charge from users other than its buyer", async () => {
+    const [buyer, otherUser] = await Promise.all([
+      createTestUser(),
+      createTestUser(),
+    ]);
+    const charge = loadCharge("charge-created", randomUUID());
+    await verify(charge, buyer);
+
+    const response = await verify(charge, otherUser);
+
+    expect(response.status).toBe(404);
+    expect(await getChargeById(charge.id)).toEqual([
+      expect.objectContaining({ userId: buyer }),
+    ]);
+  });
+
+  it("records a charge reported twice at once for one buyer", async () => {
+    const [buyer, otherUser] = await Promise.all([
+      createTestUser(),
+      createTestUser(),
+    ]);
+    const charge = loadCharge("charge-created", randomUUID());
+
+    const responses = await Promise.all([
+      verify(charge, buyer),
+      verify(charge, otherUser),
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([
+      200, 404,
+    ]);
+  });
+
+  it("requires a signed in user", async () => {
+    const response = await verify(loadCharge("charge-created", randomUUID()));
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -1,17 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { auth } from "@/app/auth";
-import {
-  createCharge,
-  getChargeById,
-  createStarterKit,
-} from "@/lib/db/queries";
-import type { CoinbaseChargeResponse } from "@/lib/types/coinbase";
+import { fetchCharge, syncCharge } from "@/lib/commerce/charges";
 
 export const POST = async (
   request: NextRequest,
   { params }: { params: Promise<{ chargeId: string; productId: string }> }
 ) => {
-  const { chargeId, productId } = await params;
+  const { chargeId } = await params;
   const session = await auth();
 
   if (!session?.user?.id) {
@@ -26,62 +21,23 @@ export const POST = async (
   }
 
   try {
-    // Fetch charge details from Coinbase
-    const response = await fetch(
-      `https://api.commerce.coinbase.com/charges/${chargeId}`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "X-CC-Api-Key": process.env.COINBASE_COMMERCE_API_KEY,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error("Failed to verify charge with Coinbase Commerce");
-    }
-
-    const { data } = (await response.json()) as {
-      data: CoinbaseChargeResponse;
-    };
-
-    const amount = data.pricing?.settlement?.amount || "10";
-    const currency = data.pricing?.settlement?.currency || "USDC";
-
-    // const latestStatus = data?.timeline?.[data.timeline.length - 1]?.status;
-    // const successEvent = data?.web3_data?.success_events?.[0];
-
-    // Check if charge exists in our database
-    const existingCharge = await getChargeById(chargeId);
-
-    if (!existingCharge || existingCharge.length === 0) {
-      // Create new charge if it doesn't exist
-      await createCharge({
-        id: chargeId,
-        userId: session.user.id,
-        amount,
-        currency,
-        product: "STARTERKIT",
-      });
-
-      const value = Number.parseInt(amount, 10);
-      const isGift =
-        productId ===
-        process.env.NEXT_PUBLIC_COINBASE_COMMERCE_PRODUCT_STARTER_KIT_GIFT;
+    // The product comes from the charge itself, not the URL, and the kit is
+    // only created once the charge is paid
+    const charge = await fetchCharge(chargeId);
+    const { status, kitStatus, ownerId } = await syncCharge({
+      charge,
+      buyerId: session.user.id,
+    });
 
-      await createStarterKit({
-        id: chargeId,
-        value,
-        userId: session.user.id,
-        chargeId,
-        claimerId: isGift ? undefined : session.user.id,
-      });
+    // Only the buyer the charge was first recorded for sees it
+    if (ownerId && ownerId.toLowerCase() !== session.user.id.toLowerCase()) {
+      return NextResponse.json({ error: "Charge not found" }, { status: 404 });
     }
 
     return NextResponse.json({
       success: true,
+      status,
+      kitStatus,
       message: "Charge verified successfully",
     });
   } catch (error) {
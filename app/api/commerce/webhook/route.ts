@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import {
+  handleChargeEvent,
+  verifyWebhookSignature,
+} from "@/lib/commerce/webhook";
+import type { CoinbaseWebhookPayload } from "@/lib/types/coinbase";
+
+/**
+ * Receives Coinbase Commerce charge events, so charges are recorded and kits
+ * created even when the buyer closes the checkout before it reports back.
+ * The payloads in lib/commerce/fixtures can be replayed against it locally,
+ * signed with the same secret.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.COINBASE_COMMERCE_WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: "Commerce webhook secret not configured" },
+      { status: 500 }
+    );
+  }
+
+  // The signature covers the exact bytes sent, so read the body as text
+  const body = await request.text();
+  if (
+    !verifyWebhookSignature(
+      body,
+      request.headers.get("X-CC-Webhook-Signature"),
+      secret
+    )
+  ) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let payload: CoinbaseWebhookPayload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  if (!payload.event?.id || !payload.event.data?.id) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  try {
+    const result = await handleChargeEvent(payload.event);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    // Commerce retries deliveries that do not succeed
+    console.error("Error handling commerce webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to handle event" },
+      { status: 500 }
+    );
+  }
+}
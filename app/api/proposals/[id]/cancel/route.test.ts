@@ -0,0 +1,59 @@
+import { randomUUID } from "node:crypto";
+import { describe, expect, it, vi } from "vitest";
+import { auth } from "@/app/auth";
+import {
+  createActionProposal,
+  getActionProposalById,
+  saveChat,
+} from "@/lib/db/queries";
+import { createTestAuth, createTestUser } from "@/test/harness/users";
+import { POST } from "./route";
+
+vi.mock("@/app/auth", () => ({ auth: vi.fn() }));
+
+const cancel = (id: string, userId?: string) => {
+  vi.mocked(auth).mockResolvedValue(createTestAuth(userId));
+  return POST(
+    new Request(`http://localhost/api/proposals/${id}/cancel`, {
+      method: "POST",
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+};
+
+const propose = async () => {
+  const userId = await createTestUser();
+  const chatId = randomUUID();
+  await saveChat({ id: chatId, userId, title: "Drip" });
+  const { id } = await createActionProposal({
+    chatId,
+    userId,
+    action: "native_transfer",
+    args: { to: userId, value: "0.001" },
+    preview: {},
+    expiresAt: new Date(Date.now() + 60_000),
+  });
+  return { userId, id };
+};
+
+describe("POST /api/proposals/[id]/cancel", () => {
+  it("cancels a pending proposal of the signed in user once", async () => {
+    const { userId, id } = await propose();
+
+    const response = await cancel(id, userId);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "CANCELLED" });
+
+    expect((await cancel(id, userId)).status).toBe(409);
+  });
+
+  it("does not cancel the proposals of another user", async () => {
+    const { id } = await propose();
+
+    expect((await cancel(id)).status).toBe(401);
+    expect((await cancel(id, await createTestUser())).status).toBe(409);
+    expect(await getActionProposalById(id)).toMatchObject({
+      status: "PENDING",
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/app/auth";
+import { cancelActionProposal } from "@/lib/db/queries";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const proposal = await cancelActionProposal({
+      id: (await params).id,
+      userId: session.user.id,
+    });
+
+    if (!proposal) {
+      return NextResponse.json(
+        { error: "Proposal not found or already handled" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ status: proposal.status });
+  } catch (error) {
+    console.error("Failed to cancel proposal:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel proposal" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { randomUUID } from "node:crypto";
+import { AgentKit, walletActionProvider } from "@coinbase/agentkit";
+import { parseEther } from "viem";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { auth } from "@/app/auth";
+import {
+  createActionProposal,
+  getActionProposalById,
+  saveChat,
+} from "@/lib/db/queries";
+import { setupAgentKit } from "@/lib/web3/agentkit/setup";
+import { PrivyWalletProvider } from "@/lib/web3/agentkit/wallet-providers/privyWalletProvider";
+import { type LocalChain, startLocalChain } from "@/test/harness/chain";
+import {
+  createTestAuth,
+  createTestStarterKit,
+  createTestUser,
+} from "@/test/harness/users";
+import { POST } from "./route";
+
+vi.mock("@/app/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/web3/agentkit/setup", () => ({ setupAgentKit: vi.fn() }));
+
+const signIn = (userId?: string) =>
+  vi.mocked(auth).mockResolvedValue(createTestAuth(userId));
+
+const confirm = (id: string, body: unknown) =>
+  POST(
+    new Request(`http://localhost/api/proposals/${id}/confirm`, {
+      method: "POST",
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+
+/**
+ * Proposes a drip of 0.001 ETH to a user with a starter kit, in a new chat.
+ */
+const proposeDrip = async ({ expiresIn = 60_000 } = {}) => {
+  const userId = await createTestUser();
+  await createTestStarterKit(await createTestUser(), userId);
+  const chatId = randomUUID();
+  await saveChat({ id: chatId, userId, title: "Drip" });
+  const proposal = await createActionProposal({
+    chatId,
+    userId,
+    action: "native_transfer",
+    args: { to: userId, value: "0.001" },
+    preview: {},
+    networkId: "base-sepolia",
+    expiresAt: new Date(Date.now() + expiresIn),
+  });
+  return { userId, chatId, id: proposal.id };
+};
+
+describe("POST /api/proposals/[id]/confirm", () => {
+  let chain: LocalChain;
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+    vi.stubEnv("AGENT_RPC_URL_BASE_SEPOLIA", chain.url);
+    vi.mocked(setupAgentKit).mockImplementation(async () => {
+      const walletProvider = PrivyWalletProvider.configureWithAccount({
+        account: chain.accounts[0],
+        rpcUrl: chain.url,
+      });
+      const agentKit = await AgentKit.from({
+        walletProvider,
+        actionProviders: [walletActionProvider()],
+      });
+      return { agentKit, walletProvider };
+    });
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await chain?.stop();
+  });
+
+  it("executes a proposal once", async () => {
+    const { userId, chatId, id } = await proposeDrip();
+    signIn(userId);
+    const balance = await chain.publicClient.getBalance({ address: userId });
+
+    const response = await confirm(id, { chatId });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: "EXECUTED" });
+    expect(await chain.publicClient.getBalance({ address: userId })).toBe(
+      balance + parseEther("0.001")
+    );
+    expect(await getActionProposalById(id)).toMatchObject({
+      status: "EXECUTED",
+    });
+
+    const replay = await confirm(id, { chatId });
+    expect(replay.status).toBe(409);
+    expect(await chain.publicClient.getBalance({ address: userId })).toBe(
+      balance + parseEther("0.001")
+    );
+  });
+
+  it("only confirms proposals of the signed in user in their chat", async () => {
+    const { userId, chatId, id } = await proposeDrip();
+
+    signIn();
+    expect((await confirm(id, { chatId })).status).toBe(401);
+
+    signIn(await createTestUser());
+    expect((await confirm(id, { chatId })).status).toBe(404);
+
+    signIn(userId);
+    expect((await confirm(id, { chatId: randomUUID() })).status).toBe(404);
+    expect((await confirm(id, "{")).status).toBe(400);
+    expect(await getActionProposalById(id)).toMatchObject({
+      status: "PENDING",
+    });
+  });
+
+  it("refuses an expired proposal", async () => {
+    const { userId, chatId, id } = await proposeDrip({ expiresIn: -1000 });
+    signIn(userId);
+
+    const response = await confirm(id, { chatId });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      error: "Proposal has expired or was already handled",
+    });
+    expect(await getActionProposalById(id)).toMatchObject({
+      status: "PENDING",
+    });
+  });
+});
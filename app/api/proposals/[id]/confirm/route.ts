@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/app/auth";
+import {
+  getActionProposalById,
+  settleActionProposal,
+  startActionProposal,
+} from "@/lib/db/queries";
+import { setupAgentKit } from "@/lib/web3/agentkit/setup";
+import {
+  applyActionMiddleware,
+  declaredActionName,
+} from "@/lib/web3/agentkit/framework-extensions/ai-sdk";
+import { auditMiddleware } from "@/lib/web3/agentkit/framework-extensions/audit";
+import {
+  isActionFailure,
+  toJsonResult,
+} from "@/lib/web3/agentkit/framework-extensions/results";
+import { executionMiddleware } from "@/lib/web3/agentkit/middleware";
+
+export const maxDuration = 60;
+
+const confirmSchema = z.object({
+  chatId: z.string(),
+});
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const body = confirmSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!body.success) {
+      return NextResponse.json(
+        { error: "chatId is required" },
+        { status: 400 }
+      );
+    }
+    const { chatId } = body.data;
+
+    const existing = await getActionProposalById(id);
+    if (
+      !existing ||
+      existing.userId !== session.user.id ||
+      existing.chatId !== chatId
+    ) {
+      return NextResponse.json(
+        { error: "Proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    // Atomically claims the proposal, so a replayed confirmation is refused
+    const proposal = await startActionProposal({
+      id,
+      userId: session.user.id,
+    });
+    if (!proposal) {
+      return NextResponse.json(
+        { error: "Proposal has expired or was already handled" },
+        { status: 409 }
+      );
+    }
+
+    // Runs on the network the action was proposed on, even if the chat has
+    // switched network since
+    const { agentKit, walletProvider } = await setupAgentKit({
+      networkId: proposal.networkId ?? undefined,
+    });
+    const action = agentKit
+      .getActions()
+      .find((candidate) => declaredActionName(candidate) === proposal.action);
+
+    if (!action) {
+      await settleActionProposal({
+        id,
+        status: "FAILED",
+        result: `Action ${proposal.action} is not available`,
+      });
+      return NextResponse.json(
+        { error: `Action ${proposal.action} is not available` },
+        { status: 400 }
+      );
+    }
+
+    const invoke = applyActionMiddleware(action, [
+      auditMiddleware({ session, chatId: proposal.chatId, walletProvider }),
+      ...executionMiddleware({
+        session,
+        chatId: proposal.chatId,
+        walletProvider,
+      }),
+    ]);
+
+    let result: unknown;
+    try {
+      result = toJsonResult(
+        await invoke(proposal.args as Record<string, unknown>, proposal.id)
+      );
+    } catch (error) {
+      result = `Error executing ${proposal.action}: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+    }
+
+    const status = isActionFailure(result) ? "FAILED" : "EXECUTED";
+    await settleActionProposal({ id, status, result });
+
+    return NextResponse.json({ status, result });
+  } catch (error) {
+    console.error("Failed to confirm proposal:", error);
+    return NextResponse.json(
+      { error: "Failed to confirm proposal" },
+      { status: 500 }
+    );
+  }
+}
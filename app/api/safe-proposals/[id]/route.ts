@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/app/auth";
+import { getSafeProposalById } from "@/lib/db/queries";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const proposal = await getSafeProposalById((await params).id);
+    if (!proposal) {
+      return NextResponse.json(
+        { error: "Safe proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(proposal);
+  } catch (error) {
+    console.error("Failed to get safe proposal:", error);
+    return NextResponse.json(
+      { error: "Failed to get safe proposal" },
+      { status: 500 }
+    );
+  }
+}
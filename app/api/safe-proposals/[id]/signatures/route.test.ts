@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { auth } from "@/app/auth";
+import { getSafeProposalById } from "@/lib/db/queries";
+import { SafeActionProvider } from "@/lib/web3/agentkit/action-providers/safe";
+import { databaseSafeProposalStore } from "@/lib/web3/agentkit/action-providers/safe/proposals";
+import { safeProposalTypedData } from "@/lib/web3/agentkit/action-providers/safe/typedData";
+import { type LocalChain, startLocalChain } from "@/test/harness/chain";
+import { deploySafe } from "@/test/harness/safe";
+import { createTestAuth } from "@/test/harness/users";
+import { POST } from "./route";
+
+vi.mock("@/app/auth", () => ({ auth: vi.fn() }));
+
+const sign = (id: string, body: unknown) =>
+  POST(
+    new Request(`http://localhost/api/safe-proposals/${id}/signatures`, {
+      method: "POST",
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+
+describe("POST /api/safe-proposals/[id]/signatures", () => {
+  let chain: LocalChain;
+  let proposalId: string;
+
+  // Signs the proposal as one of the chain's accounts, signed in
+  const signAs = async (index: number) => {
+    const account = chain.accounts[index];
+    vi.mocked(auth).mockResolvedValue(createTestAuth(account.address));
+    const proposal = await getSafeProposalById(proposalId);
+    return account.signTypedData(
+      safeProposalTypedData(proposal as NonNullable<typeof proposal>)
+    );
+  };
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+    vi.stubEnv("AGENT_RPC_URL_BASE_SEPOLIA", chain.url);
+    const safeAddress = await deploySafe(chain, {
+      owners: [chain.accounts[0].address, chain.accounts[1].address],
+      threshold: 2,
+    });
+    const proposal = await new SafeActionProvider({
+      proposalStore: databaseSafeProposalStore,
+    }).proposeTransaction(chain.walletProvider(), {
+      safeAddress,
+      kind: "eth",
+      to: chain.accounts[2].address,
+      amount: "0.1",
+    });
+    if (!proposal.proposalId) {
+      throw new Error(proposal.error);
+    }
+    proposalId = proposal.proposalId;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await chain?.stop();
+  });
+
+  it("adds the signature of an owner once", async () => {
+    const signature = await signAs(1);
+
+    const response = await sign(proposalId, { signature });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ signatures: 1, threshold: 2 });
+
+    expect((await sign(proposalId, { signature })).status).toBe(409);
+  });
+
+  it("refuses signatures from other wallets and non-owners", async () => {
+    const signature = await signAs(0);
+    vi.mocked(auth).mockResolvedValue(
+      createTestAuth(chain.accounts[1].address)
+    );
+    expect((await sign(proposalId, { signature })).status).toBe(403);
+
+    const response = await sign(proposalId, { signature: await signAs(2) });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: "Only owners of the safe can sign",
+    });
+  });
+
+  it("rejects a malformed body", async () => {
+    await signAs(0);
+
+    expect((await sign(proposalId, "{")).status).toBe(400);
+    expect((await sign(proposalId, { signature: "nope" })).status).toBe(400);
+  });
+});
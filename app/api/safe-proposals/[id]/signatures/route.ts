@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import {
+  createPublicClient,
+  http,
+  isAddressEqual,
+  parseAbi,
+  recoverTypedDataAddress,
+  type Hex,
+} from "viem";
+import { z } from "zod";
+import { auth } from "@/app/auth";
+import {
+  addSafeProposalSignature,
+  getSafeProposalById,
+} from "@/lib/db/queries";
+import { safeProposalTypedData } from "@/lib/web3/agentkit/action-providers/safe/typedData";
+import {
+  CHAIN_ID_TO_NETWORK_ID,
+  NETWORK_ID_TO_VIEM_CHAIN,
+  getRpcUrl,
+} from "@/lib/web3/agentkit/wallet-providers/network";
+
+const SAFE_ABI = parseAbi([
+  "function getOwners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+]);
+
+const signatureSchema = z.object({
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/),
+});
+
+/**
+ * Adds a co-owner's signature to a safe proposal. The signature must come
+ * from the signed in user, and the user must be an owner of the safe.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = signatureSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!body.success) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  try {
+    const proposal = await getSafeProposalById((await params).id);
+    if (!proposal) {
+      return NextResponse.json(
+        { error: "Safe proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    const signer = await recoverTypedDataAddress({
+      ...safeProposalTypedData(proposal),
+      signature: body.data.signature as Hex,
+    });
+    if (!isAddressEqual(signer, session.user.id as Hex)) {
+      return NextResponse.json(
+        { error: "Signature was not made by the signed in wallet" },
+        { status: 403 }
+      );
+    }
+
+    const networkId = CHAIN_ID_TO_NETWORK_ID[proposal.chainId];
+    const client = createPublicClient({
+      chain: NETWORK_ID_TO_VIEM_CHAIN[networkId],
+      transport: http(getRpcUrl(networkId)),
+    });
+    const [owners, threshold] = await Promise.all([
+      client.readContract({
+        address: proposal.safeAddress as Hex,
+        abi: SAFE_ABI,
+        functionName: "getOwners",
+      }),
+      client.readContract({
+        address: proposal.safeAddress as Hex,
+        abi: SAFE_ABI,
+        functionName: "getThreshold",
+      }),
+    ]);
+
+    if (!owners.some((owner) => isAddressEqual(owner, signer))) {
+      return NextResponse.json(
+        { error: "Only owners of the safe can sign" },
+        { status: 403 }
+      );
+    }
+
+    const signed = await addSafeProposalSignature({
+      id: proposal.id,
+      signer,
+      data: body.data.signature,
+    });
+    if (!signed) {
+      return NextResponse.json(
+        { error: "Proposal is no longer pending or was already signed" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      signatures: signed.signatures.length,
+      threshold: Number(threshold),
+    });
+  } catch (error) {
+    console.error("Failed to sign safe proposal:", error);
+    return NextResponse.json(
+      { error: "Failed to sign safe proposal" },
+      { status: 500 }
+    );
+  }
+}
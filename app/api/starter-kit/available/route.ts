@@ -3,6 +3,13 @@ import {
   claimAvailableStarterKit,
 } from "@/lib/db/queries";
 import { NextResponse } from "next/server";
+import { auth } from "@/app/auth";
+import { CLAIM_CODE_ERRORS } from "@/lib/starter-kit/claim-codes";
+import {
+  createEligibilityPipeline,
+  getRequestIp,
+} from "@/lib/starter-kit/eligibility";
+import type { Address } from "viem";
 
 export async function GET() {
   try {
@@ -17,27 +24,39 @@ export async function GET() {
   }
 }
 
+/**
+ * Claims the oldest available kit for the signed in user
+ */
 export async function POST(request: Request) {
-  try {
-    const { userId } = await request.json();
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: "userId is required" },
-        { status: 400 }
-      );
+  try {
+    const decision = await createEligibilityPipeline().evaluate({
+      userId: session.user.id as Address,
+      ip: getRequestIp(request.headers),
+    });
+    if (!decision.eligible) {
+      return NextResponse.json(decision.denial, { status: 403 });
     }
 
-    const kit = await claimAvailableStarterKit(userId);
+    const result = await claimAvailableStarterKit(session.user.id);
 
-    if (!kit) {
-      return NextResponse.json(
-        { error: "No starter kits available" },
-        { status: 404 }
-      );
+    if ("error" in result) {
+      return result.error === "has_kit"
+        ? NextResponse.json(
+            { error: CLAIM_CODE_ERRORS.has_kit },
+            { status: 409 }
+          )
+        : NextResponse.json(
+            { error: "No starter kits available" },
+            { status: 404 }
+          );
     }
 
-    return NextResponse.json({ kit });
+    return NextResponse.json({ kit: result.kit });
   } catch (error) {
     console.error("Failed to claim starter kit:", error);
     return NextResponse.json(
@@ -1,6 +1,12 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/app/auth";
 import { claimStarterKit } from "@/lib/db/queries";
+import { CLAIM_CODE_ERRORS } from "@/lib/starter-kit/claim-codes";
+import {
+  createEligibilityPipeline,
+  getRequestIp,
+} from "@/lib/starter-kit/eligibility";
+import type { Address } from "viem";
 
 export async function POST(
   request: Request,
@@ -12,10 +18,26 @@ export async function POST(
   }
 
   try {
-    await claimStarterKit({
+    const decision = await createEligibilityPipeline().evaluate({
+      userId: session.user.id as Address,
+      ip: getRequestIp(request.headers),
+    });
+    if (!decision.eligible) {
+      return NextResponse.json(decision.denial, { status: 403 });
+    }
+
+    const result = await claimStarterKit({
       kitId: (await params).kitId,
       userId: session.user.id,
     });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: CLAIM_CODE_ERRORS[result.error] },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to claim starter kit:", error);
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/app/auth";
-import { getCreatedStarterKits } from "@/lib/db/queries";
+import {
+  getActiveKitClaimCodes,
+  getCreatedStarterKits,
+} from "@/lib/db/queries";
 
 export async function GET() {
   const session = await auth();
@@ -10,7 +13,23 @@ export async function GET() {
 
   try {
     const kits = await getCreatedStarterKits(session.user.id);
-    return NextResponse.json(kits);
+    const codes = await getActiveKitClaimCodes(kits.map((kit) => kit.id));
+
+    return NextResponse.json(
+      kits.map((kit) => {
+        const code = codes.find((candidate) => candidate.kitId === kit.id);
+        return {
+          ...kit,
+          claimLink: code
+            ? {
+                message: code.message,
+                recipientAddress: code.recipientAddress,
+                expiresAt: code.expiresAt,
+              }
+            : null,
+        };
+      })
+    );
   } catch (error) {
     console.error("Failed to list created starter kits:", error);
     return NextResponse.json(
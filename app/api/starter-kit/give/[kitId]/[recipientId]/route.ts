@@ -1,6 +1,11 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/app/auth";
-import { claimStarterKit, getCreatedStarterKits } from "@/lib/db/queries";
+import {
+  claimStarterKit,
+  getCreatedStarterKits,
+  revokeKitClaimCodes,
+} from "@/lib/db/queries";
+import { CLAIM_CODE_ERRORS } from "@/lib/starter-kit/claim-codes";
 
 export async function POST(
   request: Request,
@@ -25,10 +30,25 @@ export async function POST(
       );
     }
 
-    await claimStarterKit({
+    // Giving the kit directly replaces any claim link for it
+    await revokeKitClaimCodes({ kitId, creatorId: session.user.id });
+    const result = await claimStarterKit({
       kitId,
       userId: recipientId,
     });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        {
+          error:
+            result.error === "has_kit"
+              ? "Recipient already has a starter kit"
+              : CLAIM_CODE_ERRORS[result.error],
+        },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to give starter kit:", error);
@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/app/auth";
+import { issueKitClaimCode, revokeKitClaimCodes } from "@/lib/db/queries";
+import {
+  DEFAULT_CLAIM_CODE_TTL_DAYS,
+  MAX_CLAIM_CODE_TTL_DAYS,
+  generateClaimCode,
+  hashClaimCode,
+} from "@/lib/starter-kit/claim-codes";
+
+const claimLinkSchema = z.object({
+  message: z.string().trim().max(500).optional(),
+  recipientAddress: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address format")
+    .optional(),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_CLAIM_CODE_TTL_DAYS)
+    .default(DEFAULT_CLAIM_CODE_TTL_DAYS),
+});
+
+/**
+ * Issues a claim link for a kit the user bought, replacing any previous link
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ kitId: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { kitId } = await params;
+  const parsed = claimLinkSchema.safeParse(
+    await request.json().catch(() => ({}))
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const code = generateClaimCode();
+    const expiresAt = new Date(
+      Date.now() + parsed.data.expiresInDays * 24 * 60 * 60 * 1000
+    );
+    const issued = await issueKitClaimCode({
+      kitId,
+      creatorId: session.user.id,
+      codeHash: hashClaimCode(code),
+      message: parsed.data.message || undefined,
+      recipientAddress: parsed.data.recipientAddress,
+      expiresAt,
+    });
+
+    if (!issued) {
+      return NextResponse.json(
+        {
+          error: "Starter kit not found, not owned by user or already claimed",
+        },
+        { status: 404 }
+      );
+    }
+
+    // The code is only returned here, only its hash is stored
+    return NextResponse.json({
+      code,
+      url: `${new URL(request.url).origin}/claim/${code}`,
+      expiresAt,
+      message: issued.message,
+      recipientAddress: issued.recipientAddress,
+    });
+  } catch (error) {
+    console.error("Failed to create claim link:", error);
+    return NextResponse.json(
+      { error: "Failed to create claim link" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Revokes the kit's claim link, returning the kit to the buyer's unclaimed kits
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ kitId: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { kitId } = await params;
+
+  try {
+    const revoked = await revokeKitClaimCodes({
+      kitId,
+      creatorId: session.user.id,
+    });
+    return NextResponse.json({ success: true, revoked: revoked.length });
+  } catch (error) {
+    console.error("Failed to revoke claim link:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke claim link" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest";
+import { auth } from "@/app/auth";
+import {
+  getKitClaimCodeByHash,
+  issueKitClaimCode,
+  revokeKitClaimCodes,
+} from "@/lib/db/queries";
+import {
+  generateClaimCode,
+  hashClaimCode,
+} from "@/lib/starter-kit/claim-codes";
+import {
+  createTestAuth,
+  createTestStarterKit,
+  createTestUser,
+} from "@/test/harness/users";
+import { GET, POST } from "./route";
+
+vi.mock("@/app/auth", () => ({ auth: vi.fn() }));
+
+const redeem = (code: string, userId?: string) => {
+  vi.mocked(auth).mockResolvedValue(createTestAuth(userId));
+  return POST(
+    new Request(`http://localhost/api/starter-kit/redeem/${code}`, {
+      method: "POST",
+    }),
+    { params: Promise.resolve({ code }) }
+  );
+};
+
+const describeCode = (code: string) =>
+  GET(new Request(`http://localhost/api/starter-kit/redeem/${code}`), {
+    params: Promise.resolve({ code }),
+  });
+
+const getClaimer = async (code: string) =>
+  (await getKitClaimCodeByHash(hashClaimCode(code)))?.kit.claimerId;
+
+/**
+ * Buys a kit and issues a claim code for it
+ */
+const issueCode = async ({
+  recipientAddress,
+  expiresAt = new Date(Date.now() + 60 * 60 * 1000),
+}: { recipientAddress?: string; expiresAt?: Date } = {}) => {
+  const buyer = await createTestUser();
+  const kitId = await createTestStarterKit(buyer);
+  const code = generateClaimCode();
+  await issueKitClaimCode({
+    kitId,
+    creatorId: buyer,
+    codeHash: hashClaimCode(code),
+    message: "Welcome onchain",
+    recipientAddress,
+    expiresAt,
+  });
+  return { buyer, kitId, code };
+};
+
+describe("/api/starter-kit/redeem/[code]", () => {
+  it("claims the kit for the signed in user once", async () => {
+    const { kitId, code } = await issueCode();
+    const [recipient, otherUser] = await Promise.all([
+      createTestUser(),
+      createTestUser(),
+    ]);
+
+    expect(await (await describeCode(code)).json()).toMatchObject({
+      status: "available",
+      message: "Welcome onchain",
+    });
+
+    // Codes are typed in by hand, so case and dashes do not matter
+    const response = await redeem(
+      code.toLowerCase().replace(/-/g, ""),
+      recipient
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, kitId });
+    expect(await getClaimer(code)).toBe(recipient);
+
+    const again = await redeem(code, otherUser);
+    expect(again.status).toBe(409);
+    expect(await again.json()).toMatchObject({ status: "claimed" });
+    expect(await (await describeCode(code)).json()).toMatchObject({
+      status: "claimed",
+    });
+  });
+
+  it("refuses an expired code", async () => {
+    const { code } = await issueCode({
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    const response = await redeem(code, await createTestUser());
+
+    expect(response.status).toBe(410);
+    expect(await response.json()).toEqual({
+      status: "expired",
+      error: "This claim link has expired",
+    });
+    expect(await getClaimer(code)).toBeNull();
+  });
+
+  it("refuses a revoked code", async () => {
+    const { buyer, kitId, code } = await issueCode();
+    await revokeKitClaimCodes({ kitId, creatorId: buyer });
+
+    const response = await redeem(code, await createTestUser());
+
+    expect(response.status).toBe(410);
+    expect(await response.json()).toMatchObject({ status: "revoked" });
+  });
+
+  it("only lets the named recipient claim a code", async () => {
+    const recipient = await createTestUser();
+    const { code } = await issueCode({ recipientAddress: recipient });
+
+    const response = await redeem(code, await createTestUser());
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ status: "wrong_recipient" });
+
+    expect((await redeem(code, recipient)).status).toBe(200);
+  });
+
+  it("refuses a user who already has a kit", async () => {
+    const claimant = await createTestUser();
+    await createTestStarterKit(await createTestUser(), claimant);
+    const { code } = await issueCode();
+
+    const response = await redeem(code, claimant);
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      status: "has_kit",
+      error: "You already have a starter kit",
+    });
+    expect(await getClaimer(code)).toBeNull();
+    expect(await (await describeCode(code)).json()).toMatchObject({
+      status: "available",
+    });
+  });
+
+  it("requires a signed in user and an existing code", async () => {
+    const { code } = await issueCode();
+
+    expect((await redeem(code)).status).toBe(401);
+    expect(
+      (await redeem(generateClaimCode(), await createTestUser())).status
+    ).toBe(404);
+    expect((await describeCode(generateClaimCode())).status).toBe(404);
+  });
+});
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/app/auth";
+import { getKitClaimCodeByHash, redeemKitClaimCode } from "@/lib/db/queries";
+import {
+  CLAIM_CODE_ERRORS,
+  type ClaimCodeError,
+  getClaimCodeStatus,
+  hashClaimCode,
+} from "@/lib/starter-kit/claim-codes";
+
+const ERROR_STATUSES: Record<ClaimCodeError, number> = {
+  not_found: 404,
+  claimed: 409,
+  revoked: 410,
+  expired: 410,
+  wrong_recipient: 403,
+  unavailable: 409,
+  has_kit: 409,
+};
+
+/**
+ * Describes the gift a claim code is for, so the recipient can see it before
+ * signing in
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params;
+
+  try {
+    const result = await getKitClaimCodeByHash(hashClaimCode(code));
+    if (!result) {
+      return NextResponse.json(
+        { status: "not_found", error: CLAIM_CODE_ERRORS.not_found },
+        { status: 404 }
+      );
+    }
+
+    const status = getClaimCodeStatus(result.code);
+    return NextResponse.json({
+      status:
+        status === "available" &&
+        (result.kit.claimerId || result.kit.status !== "ACTIVE")
+          ? "unavailable"
+          : status,
+      message: result.code.message,
+      recipientAddress: result.code.recipientAddress,
+      creatorId: result.code.creatorId,
+      expiresAt: result.code.expiresAt,
+    });
+  } catch (error) {
+    console.error("Failed to get claim code:", error);
+    return NextResponse.json(
+      { error: "Failed to get claim code" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Claims the kit for the signed in user
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { code } = await params;
+
+  try {
+    const result = await redeemKitClaimCode({
+      codeHash: hashClaimCode(code),
+      userId: session.user.id,
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { status: result.error, error: CLAIM_CODE_ERRORS[result.error] },
+        { status: ERROR_STATUSES[result.error] }
+      );
+    }
+
+    return NextResponse.json({ success: true, kitId: result.kit.id });
+  } catch (error) {
+    console.error("Failed to claim starter kit:", error);
+    return NextResponse.json(
+      { error: "Failed to claim starter kit" },
+      { status: 500 }
+    );
+  }
+}
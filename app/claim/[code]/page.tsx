@@ -0,0 +1,10 @@
+import { ClaimKitPage } from "@/components/claim-kit-page";
+
+export default async function Page({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const resolvedParams = await params;
+  return <ClaimKitPage code={resolvedParams.code} />;
+}
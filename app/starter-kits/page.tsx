@@ -4,10 +4,12 @@ import { useStarterKit } from "@/hooks/use-starter-kit";
 import { useAuth } from "@/hooks/use-auth";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { SparklesIcon } from "@/components/icons";
+import { KitClaimLink } from "@/components/kit-claim-link";
 
 export default function StarterKitsPage() {
   const { isAuthenticated } = useAuth();
-  const { claimedKits, createdKits, isLoading } = useStarterKit();
+  const { claimedKits, createdKits, mutateCreated, isLoading } =
+    useStarterKit();
 
   if (!isAuthenticated) {
     return (
@@ -81,19 +83,25 @@ export default function StarterKitsPage() {
             ) : (
               <ul className="space-y-4">
                 {createdKits.map((kit) => (
-                  <li
-                    key={kit.id}
-                    className="flex items-center justify-between"
-                  >
-                    <div>
-                      <p className="font-medium">ID: {kit.id}</p>
+                  <li key={kit.id} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">ID: {kit.id}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Created:{" "}
+                          {new Date(kit.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
                       <p className="text-sm text-muted-foreground">
-                        Created: {new Date(kit.createdAt).toLocaleDateString()}
+                        {kit.claimerId ? "Claimed" : "Unclaimed"}
                       </p>
                     </div>
-                    <p className="text-sm text-muted-foreground">
-                      {kit.claimerId ? "Claimed" : "Unclaimed"}
-                    </p>
+                    {!kit.claimerId && kit.status === "ACTIVE" && (
+                      <KitClaimLink
+                        kit={kit}
+                        onChange={() => mutateCreated()}
+                      />
+                    )}
                   </li>
                 ))}
               </ul>
@@ -0,0 +1,134 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { useChatContext } from "@/contexts/chat-context";
+import type { PendingConfirmation } from "@/lib/web3/agentkit/framework-extensions/confirmations";
+
+type ProposalStatus =
+  | "pending"
+  | "confirming"
+  | "executed"
+  | "failed"
+  | "cancelled";
+
+interface ActionProposalProps {
+  proposal: PendingConfirmation;
+  chatId: string;
+}
+
+export function ActionProposal({ proposal, chatId }: ActionProposalProps) {
+  const { append } = useChatContext();
+  const [status, setStatus] = useState<ProposalStatus>("pending");
+  const { preview } = proposal;
+
+  const isExpired = new Date(proposal.expiresAt).getTime() < Date.now();
+
+  const handleConfirm = useCallback(async () => {
+    setStatus("confirming");
+    try {
+      const response = await fetch(
+        `/api/proposals/${proposal.proposalId}/confirm`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ chatId }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to confirm transaction");
+      }
+
+      setStatus(data.status === "EXECUTED" ? "executed" : "failed");
+      append({
+        role: "user",
+        content: `I confirmed the proposed ${preview.title.toLowerCase()}. Result: ${
+          typeof data.result === "string"
+            ? data.result
+            : JSON.stringify(data.result)
+        }`,
+      });
+    } catch (error) {
+      setStatus("failed");
+      toast.error(
+        error instanceof Error ? error.message : "Something went wrong"
+      );
+    }
+  }, [append, chatId, preview.title, proposal.proposalId]);
+
+  const handleCancel = useCallback(async () => {
+    const response = await fetch(
+      `/api/proposals/${proposal.proposalId}/cancel`,
+      {
+        method: "POST",
+        credentials: "include",
+      }
+    );
+
+    if (!response.ok) {
+      toast.error("This transaction was already handled");
+      return;
+    }
+
+    setStatus("cancelled");
+    append({
+      role: "user",
+      content: `I cancelled the proposed ${preview.title.toLowerCase()}.`,
+    });
+  }, [append, preview.title, proposal.proposalId]);
+
+  return (
+    <div className="flex flex-col gap-2 p-4 border rounded-lg">
+      <h3 className="font-medium">{preview.title}</h3>
+      <div className="text-sm text-muted-foreground break-all">
+        {preview.recipient && <p>Recipient: {preview.recipient}</p>}
+        {preview.to && preview.to !== preview.recipient && (
+          <p>Contract: {preview.to}</p>
+        )}
+        {preview.value && <p>Value: {preview.value} ETH</p>}
+        {preview.network && <p>Network: {preview.network}</p>}
+        {preview.functionName && (
+          <p>
+            Call: {preview.functionName}(
+            {Object.entries(preview.decodedArgs ?? {})
+              .map(([name, value]) => `${name}: ${value}`)
+              .join(", ")}
+            )
+          </p>
+        )}
+        {preview.data && preview.data !== "0x" && (
+          <p className="font-mono text-xs">Data: {preview.data}</p>
+        )}
+      </div>
+      {status === "pending" && !isExpired && (
+        <div className="flex gap-2">
+          <Button onClick={handleConfirm}>Confirm</Button>
+          <Button variant="outline" onClick={handleCancel}>
+            Cancel
+          </Button>
+        </div>
+      )}
+      {status === "pending" && isExpired && (
+        <p className="text-sm text-muted-foreground">
+          This proposal has expired
+        </p>
+      )}
+      {status === "confirming" && (
+        <Button disabled>Executing transaction...</Button>
+      )}
+      {status === "executed" && (
+        <p className="text-sm text-green-600">Transaction executed</p>
+      )}
+      {status === "failed" && (
+        <p className="text-sm text-red-600">Transaction failed</p>
+      )}
+      {status === "cancelled" && (
+        <p className="text-sm text-muted-foreground">Transaction cancelled</p>
+      )}
+    </div>
+  );
+}
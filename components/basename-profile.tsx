@@ -0,0 +1,85 @@
+"use client";
+
+import { Address, Avatar, Identity, Name } from "@coinbase/onchainkit/identity";
+import { color } from "@coinbase/onchainkit/theme";
+import type { Hex } from "viem";
+
+export interface BasenameProfileProps {
+  basename: string;
+  address?: string;
+  records?: {
+    description?: string;
+    twitter?: string;
+    url?: string;
+    avatar?: string;
+  };
+  expiresAt?: string;
+}
+
+export function BasenameProfile({
+  basename,
+  address,
+  records = {},
+  expiresAt,
+}: BasenameProfileProps) {
+  const twitter = records.twitter?.replace(/^@/, "");
+
+  return (
+    <div className="flex flex-col gap-3 p-4 border rounded-lg">
+      {address ? (
+        <Identity
+          address={address as Hex}
+          className="p-0 bg-transparent"
+          hasCopyAddressOnClick
+        >
+          <Avatar />
+          <Name />
+          <Address className={color.foregroundMuted} />
+        </Identity>
+      ) : (
+        <h3 className="font-medium">{basename}</h3>
+      )}
+
+      {records.description && <p className="text-sm">{records.description}</p>}
+
+      {(twitter || records.url) && (
+        <div className="flex flex-wrap gap-3 text-sm">
+          {twitter && (
+            <a
+              href={`https://x.com/${twitter}`}
+              target="_blank"
+              rel="noreferrer"
+              className="underline"
+            >
+              @{twitter}
+            </a>
+          )}
+          {records.url && (
+            <a
+              href={records.url}
+              target="_blank"
+              rel="noreferrer"
+              className="underline"
+            >
+              {records.url}
+            </a>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-between gap-2 text-xs text-muted-foreground">
+        {expiresAt && (
+          <span>Expires {new Date(expiresAt).toLocaleDateString()}</span>
+        )}
+        <a
+          href={`https://www.base.org/name/${basename.split(".")[0]}`}
+          target="_blank"
+          rel="noreferrer"
+          className="underline"
+        >
+          View on base.org
+        </a>
+      </div>
+    </div>
+  );
+}
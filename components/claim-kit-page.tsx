@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { ConnectButton } from "./connect-button";
+import { SparklesIcon } from "./icons";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+interface ClaimCodeResponse {
+  status:
+    | "available"
+    | "claimed"
+    | "revoked"
+    | "expired"
+    | "unavailable"
+    | "not_found";
+  error?: string;
+  message?: string | null;
+  recipientAddress?: string | null;
+  creatorId?: string;
+  expiresAt?: string;
+}
+
+const STATUS_MESSAGES: Record<
+  Exclude<ClaimCodeResponse["status"], "available">,
+  string
+> = {
+  claimed: "This starter kit has already been claimed.",
+  revoked: "This claim link was revoked by the sender.",
+  expired: "This claim link has expired.",
+  unavailable: "This starter kit is no longer available.",
+  not_found: "This claim link does not exist.",
+};
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+/**
+ * Walks the recipient of a gifted starter kit through connecting their
+ * wallet and signing in, then claims the kit the code was issued for
+ */
+export function ClaimKitPage({ code }: { code: string }) {
+  const { isAuthenticated, address } = useAuth();
+  const { data, isLoading, mutate } = useSWR<ClaimCodeResponse>(
+    `/api/starter-kit/redeem/${encodeURIComponent(code)}`,
+    fetcher
+  );
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [isClaimed, setIsClaimed] = useState(false);
+
+  const isWrongAddress =
+    !!data?.recipientAddress &&
+    !!address &&
+    data.recipientAddress.toLowerCase() !== address.toLowerCase();
+
+  const claim = async () => {
+    setIsClaiming(true);
+    try {
+      const response = await fetch(
+        `/api/starter-kit/redeem/${encodeURIComponent(code)}`,
+        { method: "POST", credentials: "include" }
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error ?? "Failed to claim starter kit");
+      }
+
+      setIsClaimed(true);
+      toast.success("Starter kit claimed!");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to claim starter kit"
+      );
+      mutate();
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-[400px] items-center justify-center p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <div className="text-yellow-500">
+              <SparklesIcon />
+            </div>
+            {isClaimed ? "It's yours!" : "You've been gifted a starter kit"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {isLoading || !data ? (
+            <p className="text-muted-foreground">Loading…</p>
+          ) : isClaimed ? (
+            <>
+              <p className="text-muted-foreground">
+                Your starter kit is ready. Ask the agent to help you use it.
+              </p>
+              <Button asChild>
+                <Link href="/">Start chatting</Link>
+              </Button>
+            </>
+          ) : data.status !== "available" ? (
+            <p className="text-muted-foreground">
+              {STATUS_MESSAGES[data.status]}
+            </p>
+          ) : (
+            <>
+              {data.message && (
+                <blockquote className="border-l-2 pl-4 italic">
+                  {data.message}
+                </blockquote>
+              )}
+              <p className="text-sm text-muted-foreground">
+                From {data.creatorId}
+                {data.expiresAt &&
+                  `, claim it before ${new Date(
+                    data.expiresAt
+                  ).toLocaleDateString()}`}
+              </p>
+              {isWrongAddress && (
+                <p className="text-sm text-red-600">
+                  This kit was gifted to {data.recipientAddress}, connect that
+                  wallet to claim it.
+                </p>
+              )}
+              {isAuthenticated ? (
+                <Button onClick={claim} disabled={isClaiming || isWrongAddress}>
+                  {isClaiming ? "Claiming…" : "Claim starter kit"}
+                </Button>
+              ) : (
+                <>
+                  <p className="text-sm">
+                    Connect your wallet and sign in to claim it.
+                  </p>
+                  <ConnectButton />
+                </>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,10 +3,18 @@ import { FundButton } from "@coinbase/onchainkit/fund";
 import { ConnectButton } from "./connect-button";
 import { useCallback, } from "react";
 import type { UserAction } from "@/lib/utils/message-helpers";
+import type { PendingConfirmation } from "@/lib/web3/agentkit/framework-extensions/confirmations";
 import { useChatContext } from "@/contexts/chat-context";
 import { StarterKitCheckout } from "./starter-kit-checkout";
-import { NFTCard } from "@coinbase/onchainkit/nft";
-import { NFTMedia, NFTNetwork, NFTTitle } from "@coinbase/onchainkit/nft/view";
+import { ActionProposal } from "./action-proposal";
+import { BasenameProfile, type BasenameProfileProps } from "./basename-profile";
+import { SafeProposal } from "./safe-proposal";
+import {
+  TransactionRequest,
+  type TransactionRequestArgs,
+} from "./transaction-request";
+import { RevokeApprovals, type ApprovalToRevoke } from "./revoke-approvals";
+import { NFTGallery, type NFTGalleryItem } from "./nft-gallery";
 
 interface ActionButtonsProps {
   args: Array<Record<string, any>>;
@@ -81,10 +89,23 @@ export function InteractiveElement({
   const giftStarterKitAction = actions.find(
     (a) => a.action === "gift-starter-kit"
   );
-  const transactionAction = actions.find((a) => a.action === "transaction");
+  const transactionActions = actions.filter((a) => a.action === "transaction");
+  const confirmActions = actions.filter((a) => a.action === "confirm-action");
   const optionsAction = actions.find((a) => a.action === "options");
   const helpAction = actions.find((a) => a.action === "help");
   const showNftActions = actions.filter((a) => a.action === "show-nft");
+  const nftGalleryAction = actions.find(
+    (a) => a.action === "show-nft-gallery"
+  );
+  const showBasenameActions = actions.filter(
+    (a) => a.action === "show-basename"
+  );
+  const signSafeActions = actions.filter(
+    (a) => a.action === "sign-safe-transaction"
+  );
+  const revokeApprovalsAction = actions.find(
+    (a) => a.action === "revoke-approvals"
+  );
 
   return (
     <div className="flex flex-col gap-4">
@@ -109,15 +130,27 @@ export function InteractiveElement({
         />
       )}
 
-      {transactionAction?.args && (
-        <div className="flex flex-col gap-2 p-4 border rounded-lg">
-          <h3 className="font-medium">Transaction Details</h3>
-          <div className="text-sm text-muted-foreground">
-            <p>To: {transactionAction.args[0].to}</p>
-            <p>Value: {transactionAction.args[0].value} ETH</p>
-          </div>
-          <Button>Confirm Transaction</Button>
-        </div>
+      {transactionActions.map(
+        (action, index) =>
+          action.args &&
+          action.args.length > 0 && (
+            <TransactionRequest
+              key={`transaction-${index}`}
+              title={action.label}
+              transactions={action.args as Array<TransactionRequestArgs>}
+            />
+          )
+      )}
+
+      {confirmActions.map(
+        (action) =>
+          action.args?.[0] && (
+            <ActionProposal
+              key={action.args[0].proposalId}
+              proposal={action.args[0] as PendingConfirmation}
+              chatId={chatId}
+            />
+          )
       )}
 
       {optionsAction?.args && (
@@ -136,19 +169,41 @@ export function InteractiveElement({
       )}
 
       {showNftActions.length > 0 && (
-        <div className="grid gap-4 md:grid-cols-4">
-          {showNftActions.map((action, index) => (
-            <NFTCard
-              key={`${action.args?.[0].contractAddress}-${action.args?.[0].tokenId}-${index}`}
-              contractAddress={action.args?.[0]?.contractAddress}
-              tokenId={action.args?.[0]?.tokenId}
-            >
-              <NFTMedia />
-              <NFTTitle />
-              <NFTNetwork />
-            </NFTCard>
-          ))}
-        </div>
+        <NFTGallery
+          items={showNftActions
+            .map((action) => action.args?.[0] as NFTGalleryItem)
+            .filter((item) => item?.contractAddress)}
+        />
+      )}
+
+      {nftGalleryAction?.args && (
+        <NFTGallery items={nftGalleryAction.args as Array<NFTGalleryItem>} />
+      )}
+
+      {showBasenameActions.map(
+        (action, index) =>
+          action.args?.[0]?.basename && (
+            <BasenameProfile
+              key={`${action.args[0].basename}-${index}`}
+              {...(action.args[0] as BasenameProfileProps)}
+            />
+          )
+      )}
+
+      {signSafeActions.map(
+        (action) =>
+          action.args?.[0]?.proposalId && (
+            <SafeProposal
+              key={action.args[0].proposalId}
+              proposalId={action.args[0].proposalId}
+            />
+          )
+      )}
+
+      {revokeApprovalsAction?.args && (
+        <RevokeApprovals
+          approvals={revokeApprovalsAction.args as Array<ApprovalToRevoke>}
+        />
       )}
     </div>
   );
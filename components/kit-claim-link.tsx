@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import type { CreatedStarterKit } from "@/hooks/use-starter-kit";
+
+interface IssuedLink {
+  code: string;
+  url: string;
+  expiresAt: string;
+}
+
+/**
+ * Lets a buyer create, reissue and revoke the claim link for a kit they
+ * bought as a gift
+ */
+export function KitClaimLink({
+  kit,
+  onChange,
+}: {
+  kit: CreatedStarterKit;
+  onChange: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [message, setMessage] = useState("");
+  const [recipientAddress, setRecipientAddress] = useState("");
+  const [issued, setIssued] = useState<IssuedLink | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const createLink = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/starter-kit/link/${kit.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          message: message || undefined,
+          recipientAddress: recipientAddress || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to create claim link");
+      }
+
+      setIssued(data);
+      setIsEditing(false);
+      onChange();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create claim link"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revokeLink = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/starter-kit/link/${kit.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to revoke claim link");
+      }
+
+      setIssued(null);
+      toast.success("Claim link revoked");
+      onChange();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to revoke claim link"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast.success("Claim link copied");
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex flex-col gap-2">
+        <Textarea
+          placeholder="A personal message (optional)"
+          value={message}
+          maxLength={500}
+          onChange={(event) => setMessage(event.target.value)}
+        />
+        <Input
+          placeholder="Only this address can claim it (optional)"
+          value={recipientAddress}
+          onChange={(event) => setRecipientAddress(event.target.value)}
+        />
+        <div className="flex gap-2">
+          <Button size="sm" onClick={createLink} disabled={isLoading}>
+            {isLoading ? "Creating…" : "Create link"}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setIsEditing(false)}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      {issued && (
+        <div className="flex flex-col gap-1 p-2 border rounded-md">
+          <p>
+            Code: <span className="font-mono">{issued.code}</span>
+          </p>
+          <p className="break-all text-muted-foreground">{issued.url}</p>
+          <p className="text-xs text-muted-foreground">
+            Save it now, the code is not shown again
+          </p>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => copyLink(issued.url)}
+          >
+            Copy link
+          </Button>
+        </div>
+      )}
+      {kit.claimLink && (
+        <p className="text-muted-foreground">
+          Link active until{" "}
+          {new Date(kit.claimLink.expiresAt).toLocaleDateString()}
+          {kit.claimLink.recipientAddress &&
+            ` for ${kit.claimLink.recipientAddress}`}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setIsEditing(true)}
+          disabled={isLoading}
+        >
+          {kit.claimLink ? "Reissue link" : "Create claim link"}
+        </Button>
+        {kit.claimLink && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={revokeLink}
+            disabled={isLoading}
+          >
+            Revoke
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
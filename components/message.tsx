@@ -25,6 +25,8 @@ import { DocumentPreview } from "./document-preview";
 import { MessageReasoning } from "./message-reasoning";
 import { InteractiveElement } from "./interactive-element";
 import { parseMessageContent } from "@/lib/utils/message-helpers";
+import { toolResultRenderers } from "./tool-results";
+import { isActionFailure } from "@/lib/web3/agentkit/framework-extensions/results";
 
 const PurePreviewMessage = ({
   chatId,
@@ -156,6 +158,7 @@ const PurePreviewMessage = ({
               <div className="flex flex-col gap-4">
                 {message.toolInvocations.map((toolInvocation) => {
                   const { toolName, toolCallId, state, args } = toolInvocation;
+                  const ToolResult = toolResultRenderers[toolName];
 
                   if (state === "result") {
                     const { result } = toolInvocation;
@@ -181,6 +184,19 @@ const PurePreviewMessage = ({
                             result={result}
                             isReadonly={isReadonly}
                           />
+                        ) : result?.status === "pending_confirmation" ? (
+                          <InteractiveElement
+                            actions={[
+                              { action: "confirm-action", args: [result] },
+                            ]}
+                            chatId={chatId}
+                          />
+                        ) : ToolResult && !isActionFailure(result) ? (
+                          <ToolResult
+                            args={args}
+                            result={result}
+                            invocations={message.toolInvocations ?? []}
+                          />
                         ) : (
                           <ToolCallOutput toolName={toolName} result={result} />
                         )}
@@ -191,7 +207,8 @@ const PurePreviewMessage = ({
                     <div
                       key={toolCallId}
                       className={cx({
-                        skeleton: ["getWeather"].includes(toolName),
+                        skeleton:
+                          ["getWeather"].includes(toolName) || !!ToolResult,
                       })}
                     >
                       {toolName === "getWeather" ? (
@@ -210,6 +227,11 @@ const PurePreviewMessage = ({
                           args={args}
                           isReadonly={isReadonly}
                         />
+                      ) : ToolResult ? (
+                        <ToolResult
+                          args={args}
+                          invocations={message.toolInvocations ?? []}
+                        />
                       ) : null}
                     </div>
                   );
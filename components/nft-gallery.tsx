@@ -0,0 +1,65 @@
+"use client";
+
+import { NFTCard } from "@coinbase/onchainkit/nft";
+import { NFTMedia, NFTNetwork, NFTTitle } from "@coinbase/onchainkit/nft/view";
+import type { Hex } from "viem";
+
+export interface NFTGalleryItem {
+  contractAddress: string;
+  tokenId: string;
+  /**
+   * The collection name, NFTs are grouped under it when set
+   */
+  collection?: string;
+}
+
+function NFTGrid({ items }: { items: Array<NFTGalleryItem> }) {
+  return (
+    <div className="grid gap-4 md:grid-cols-4">
+      {items.map((item, index) => (
+        <NFTCard
+          key={`${item.contractAddress}-${item.tokenId}-${index}`}
+          contractAddress={item.contractAddress as Hex}
+          tokenId={item.tokenId}
+        >
+          <NFTMedia />
+          <NFTTitle />
+          <NFTNetwork />
+        </NFTCard>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Shows NFTs with the OnchainKit NFT card, grouped by collection
+ */
+export function NFTGallery({ items }: { items: Array<NFTGalleryItem> }) {
+  const collections = new Map<string, Array<NFTGalleryItem>>();
+  for (const item of items) {
+    const key = item.collection ?? "";
+    collections.set(key, [...(collections.get(key) ?? []), item]);
+  }
+
+  if (collections.size === 1 && collections.has("")) {
+    return <NFTGrid items={items} />;
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {Array.from(collections.entries()).map(
+        ([collection, collectionItems]) => (
+          <div key={collection} className="flex flex-col gap-2">
+            <h3 className="font-medium">
+              {collection || "Other"}{" "}
+              <span className="text-sm text-muted-foreground">
+                ({collectionItems.length})
+              </span>
+            </h3>
+            <NFTGrid items={collectionItems} />
+          </div>
+        )
+      )}
+    </div>
+  );
+}
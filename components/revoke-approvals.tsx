@@ -0,0 +1,43 @@
+"use client";
+
+import { encodeFunctionData, erc20Abi, type Hex } from "viem";
+import { TransactionRequest } from "./transaction-request";
+
+export interface ApprovalToRevoke {
+  contractAddress: string;
+  spender: string;
+  symbol?: string;
+  allowance?: string;
+  chainId?: number;
+}
+
+/**
+ * Turns approvals from list_allowances into unsigned transactions, which the
+ * user sends from their own wallet to set each allowance to zero
+ */
+export function RevokeApprovals({
+  approvals,
+}: {
+  approvals: Array<ApprovalToRevoke>;
+}) {
+  return (
+    <TransactionRequest
+      title={approvals.length === 1 ? "Revoke approval" : "Revoke approvals"}
+      transactions={approvals.map((approval) => ({
+        description: `Revoke ${
+          approval.allowance ? `${approval.allowance} ` : ""
+        }${approval.symbol ?? approval.contractAddress} approval for ${
+          approval.spender
+        }`,
+        to: approval.contractAddress,
+        value: "0",
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [approval.spender as Hex, 0n],
+        }),
+        chainId: approval.chainId,
+      }))}
+    />
+  );
+}
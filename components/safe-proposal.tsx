@@ -0,0 +1,121 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { formatEther } from "viem";
+import { useAccount, useSignTypedData } from "wagmi";
+import { Button } from "./ui/button";
+import { useChatContext } from "@/contexts/chat-context";
+import { fetcher } from "@/lib/utils";
+import type { SafeProposal as SafeProposalRecord } from "@/lib/db/schema";
+import { safeProposalTypedData } from "@/lib/web3/agentkit/action-providers/safe/typedData";
+
+interface SafeProposalProps {
+  proposalId: string;
+}
+
+export function SafeProposal({ proposalId }: SafeProposalProps) {
+  const { append } = useChatContext();
+  const { address } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
+  const [isSigning, setIsSigning] = useState(false);
+  const {
+    data: proposal,
+    isLoading,
+    mutate,
+  } = useSWR<SafeProposalRecord>(`/api/safe-proposals/${proposalId}`, fetcher);
+
+  const hasSigned =
+    !!address &&
+    !!proposal?.signatures.some(
+      (signature) => signature.signer === address.toLowerCase()
+    );
+
+  const handleSign = useCallback(async () => {
+    if (!proposal) {
+      return;
+    }
+
+    setIsSigning(true);
+    try {
+      const signature = await signTypedDataAsync(
+        safeProposalTypedData(proposal)
+      );
+      const response = await fetch(
+        `/api/safe-proposals/${proposal.id}/signatures`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ signature }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to sign the safe transaction");
+      }
+
+      await mutate();
+      append({
+        role: "user",
+        content: `I signed safe proposal ${proposal.id}. It now has ${data.signatures} of ${data.threshold} signatures.`,
+      });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Something went wrong"
+      );
+    } finally {
+      setIsSigning(false);
+    }
+  }, [append, mutate, proposal, signTypedDataAsync]);
+
+  if (isLoading) {
+    return (
+      <div className="h-32 p-4 border rounded-lg animate-pulse bg-muted" />
+    );
+  }
+
+  if (!proposal) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-4 border rounded-lg">
+      <h3 className="font-medium">
+        {proposal.description || "Safe transaction"}
+      </h3>
+      <div className="text-sm text-muted-foreground break-all">
+        <p>Safe: {proposal.safeAddress}</p>
+        <p>To: {proposal.transaction.to}</p>
+        {proposal.transaction.value !== "0" && (
+          <p>Value: {formatEther(BigInt(proposal.transaction.value))} ETH</p>
+        )}
+        {proposal.transaction.data !== "0x" && (
+          <p className="font-mono text-xs">Data: {proposal.transaction.data}</p>
+        )}
+        <p>
+          Nonce {proposal.nonce} · {proposal.signatures.length} signature
+          {proposal.signatures.length === 1 ? "" : "s"}
+        </p>
+      </div>
+      {proposal.status === "PENDING" && !hasSigned && (
+        <Button onClick={handleSign} disabled={!address || isSigning}>
+          {isSigning ? "Signing..." : "Sign as co-owner"}
+        </Button>
+      )}
+      {proposal.status === "PENDING" && hasSigned && (
+        <p className="text-sm text-muted-foreground">
+          You signed this proposal
+        </p>
+      )}
+      {proposal.status === "EXECUTED" && (
+        <p className="text-sm text-green-600">Transaction executed</p>
+      )}
+      {proposal.status === "FAILED" && (
+        <p className="text-sm text-red-600">Transaction failed</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import type {
+  AssetTransfer,
+  AssetTransfersPage,
+} from "@/lib/web3/agentkit/action-providers/alchemy/schemas";
+import { explorerUrl } from "@/lib/web3/explorer";
+import { AddressLink, ToolResultCard } from "./card";
+import { isRecord, stringField } from "./narrow";
+import type { ToolResultProps } from "./types";
+
+const PLACEHOLDER_TRANSFERS: Array<AssetTransfer> = [1, 2, 3].map((index) => ({
+  hash: String(index),
+  direction: "in",
+  category: "erc20",
+  from: "0x0000000000000000000000000000000000000000",
+  to: null,
+  asset: "TKN",
+  amount: "0.00",
+  summary: "",
+}));
+
+const isTransfersPage = (result: unknown): result is AssetTransfersPage =>
+  isRecord(result) && Array.isArray(result.transfers);
+
+/**
+ * Renders get_asset_transfers results as a list of recent activity
+ */
+export function ActivityResult({ args, result }: ToolResultProps) {
+  const page = isTransfersPage(result) ? result : undefined;
+  const transfers = page?.transfers ?? PLACEHOLDER_TRANSFERS;
+  const address = stringField(args, "address");
+
+  return (
+    <ToolResultCard title="Recent activity">
+      {transfers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No transfers found</p>
+      ) : (
+        <ul className="flex flex-col">
+          {transfers.map((transfer) => {
+            const counterparty =
+              transfer.direction === "in" ? transfer.from : transfer.to;
+
+            return (
+              <li
+                key={`${transfer.hash}-${transfer.direction}-${transfer.asset}-${transfer.tokenId}`}
+                className="flex items-center justify-between gap-4 py-2 border-t"
+              >
+                <div className="flex flex-col">
+                  <span className="text-sm">
+                    {transfer.direction === "in" ? "Received" : "Sent"}{" "}
+                    {transfer.amount} {transfer.asset}
+                    {transfer.tokenId && ` #${transfer.tokenId}`}
+                  </span>
+                  {counterparty && (
+                    <span className="text-xs text-muted-foreground">
+                      {transfer.direction === "in" ? "From" : "To"}{" "}
+                      <AddressLink address={counterparty} />
+                    </span>
+                  )}
+                </div>
+                {transfer.timestamp ? (
+                  <a
+                    href={explorerUrl("tx", transfer.hash)}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-xs text-muted-foreground hover:underline shrink-0"
+                  >
+                    {formatDistanceToNow(new Date(transfer.timestamp), {
+                      addSuffix: true,
+                    })}
+                  </a>
+                ) : (
+                  <span className="text-xs text-muted-foreground">…</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {address && (
+        <p className="text-xs text-muted-foreground">
+          For <AddressLink address={address} />
+          {page?.pageKey && " · more transfers available"}
+        </p>
+      )}
+    </ToolResultCard>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { extractTransactionHashes } from "@/lib/web3/agentkit/framework-extensions/results";
+import { AddressLink, ToolResultCard } from "./card";
+import { stringField } from "./narrow";
+import type { ToolResultProps } from "./types";
+
+/**
+ * Renders register_basename and register_and_transfer_basename results
+ */
+export function BasenameRegistrationResult({ args, result }: ToolResultProps) {
+  const basename = stringField(args, "basename") ?? "";
+  const label = basename.split(".")[0];
+  const destination = stringField(args, "destination");
+
+  return (
+    <ToolResultCard
+      title={
+        result === undefined ? "Registering basename…" : "Registered basename"
+      }
+      transactionHashes={extractTransactionHashes(result)}
+    >
+      <a
+        href={`https://www.base.org/name/${label}`}
+        target="_blank"
+        rel="noreferrer"
+        className="text-2xl font-medium underline"
+      >
+        {basename || "…"}
+      </a>
+      {destination && (
+        <p className="text-sm text-muted-foreground">
+          Owned by <AddressLink address={destination} />
+        </p>
+      )}
+    </ToolResultCard>
+  );
+}
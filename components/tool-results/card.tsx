@@ -0,0 +1,49 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { explorerUrl, shortenHex } from "@/lib/web3/explorer";
+
+export function ToolResultCard({
+  title,
+  transactionHashes = [],
+  children,
+}: {
+  title: string;
+  transactionHashes?: Array<string>;
+  children?: ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-3 p-4 border rounded-lg skeleton-bg">
+      <h3 className="text-sm font-medium">{title}</h3>
+      {children}
+      {transactionHashes.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {transactionHashes.map((hash) => (
+            <a
+              key={hash}
+              href={explorerUrl("tx", hash)}
+              target="_blank"
+              rel="noreferrer"
+              className="text-xs text-muted-foreground underline"
+            >
+              View transaction {shortenHex(hash)}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AddressLink({ address }: { address: string }) {
+  return (
+    <a
+      href={explorerUrl("address", address)}
+      target="_blank"
+      rel="noreferrer"
+      className="font-mono underline"
+    >
+      {shortenHex(address)}
+    </a>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import type { ComponentType } from "react";
+import { ActivityResult } from "./activity";
+import { BasenameRegistrationResult } from "./basename";
+import { MintResult } from "./mint";
+import { PortfolioResult } from "./portfolio";
+import { PriceResult } from "./price";
+import { SafeCreationResult } from "./safe";
+import { TokenBalancesResult } from "./token-balances";
+import { TokenSearchResult } from "./token-search";
+import { TransferResult } from "./transfer";
+import type { ToolResultProps } from "./types";
+
+export type { ToolResultProps } from "./types";
+
+/**
+ * Cards for AgentKit tool results, keyed by action name. Each card renders a
+ * skeleton from the call arguments while the result is undefined.
+ */
+export const toolResultRenderers: Record<
+  string,
+  ComponentType<ToolResultProps>
+> = {
+  native_transfer: TransferResult,
+  transfer: TransferResult,
+  mint_1155: MintResult,
+  create_1155: MintResult,
+  register_basename: BasenameRegistrationResult,
+  register_and_transfer_basename: BasenameRegistrationResult,
+  create_safe: SafeCreationResult,
+  get_token_balances: TokenBalancesResult,
+  fetch_price: PriceResult,
+  get_asset_transfers: ActivityResult,
+  search_base_tokens: TokenSearchResult,
+  get_portfolios: PortfolioResult,
+};
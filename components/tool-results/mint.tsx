@@ -0,0 +1,69 @@
+"use client";
+
+import { NFTCard } from "@coinbase/onchainkit/nft";
+import type { Hex } from "viem";
+import { NFTMedia, NFTTitle } from "@coinbase/onchainkit/nft/view";
+import type {
+  Create1155Response,
+  Mint1155Response,
+} from "@/lib/web3/agentkit/action-providers/zora/schemas";
+import { AddressLink, ToolResultCard } from "./card";
+import { isRecord, numberField, stringField } from "./narrow";
+import type { ToolResultProps } from "./types";
+
+const isMintResponse = (
+  result: unknown
+): result is Mint1155Response | Create1155Response =>
+  isRecord(result) && typeof result.success === "boolean";
+
+/**
+ * Renders mint_1155 and create_1155 results with a preview of the token
+ */
+export function MintResult({ args, result }: ToolResultProps) {
+  const isCreate = "name" in args;
+  const response = isMintResponse(result) ? result : undefined;
+  const data = response?.data;
+  const contractAddress = (stringField(data, "tokenContract") ??
+    stringField(data, "contractAddress") ??
+    stringField(args, "tokenContract") ??
+    stringField(args, "contractAddress")) as Hex | undefined;
+  const tokenId = data?.tokenId ?? stringField(args, "tokenId");
+  const transactionHash = data?.transactionHash;
+  const quantity =
+    numberField(data, "quantity") ?? numberField(args, "quantityToMint");
+
+  const title =
+    result === undefined
+      ? isCreate
+        ? "Creating token…"
+        : "Minting…"
+      : stringField(response, "status") === "requires_user_transaction"
+      ? "Token ready to create"
+      : isCreate
+      ? "Created token"
+      : `Minted ${quantity ?? ""}`;
+
+  return (
+    <ToolResultCard
+      title={title}
+      transactionHashes={transactionHash ? [transactionHash] : []}
+    >
+      {transactionHash && contractAddress && tokenId ? (
+        <div className="max-w-xs">
+          <NFTCard contractAddress={contractAddress} tokenId={tokenId}>
+            <NFTMedia />
+            <NFTTitle />
+          </NFTCard>
+        </div>
+      ) : (
+        <div className="h-48 max-w-xs rounded-lg skeleton-div" />
+      )}
+      {contractAddress && (
+        <p className="text-sm text-muted-foreground">
+          Contract <AddressLink address={contractAddress} />
+          {tokenId && ` · Token ${tokenId}`}
+        </p>
+      )}
+    </ToolResultCard>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * Checks that a tool's args or result is a plain object
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a string field of a tool's args or result, ignoring other types
+ */
+export const stringField = (value: unknown, key: string) => {
+  const field = isRecord(value) ? value[key] : undefined;
+  return typeof field === "string" ? field : undefined;
+};
+
+/**
+ * Reads a number field of a tool's args or result, ignoring other types
+ */
+export const numberField = (value: unknown, key: string) => {
+  const field = isRecord(value) ? value[key] : undefined;
+  return typeof field === "number" ? field : undefined;
+};
+
+/**
+ * Reads a string array field of a tool's args or result, dropping entries of
+ * other types
+ */
+export const stringArrayField = (value: unknown, key: string) => {
+  const field = isRecord(value) ? value[key] : undefined;
+  return Array.isArray(field)
+    ? field.filter((entry): entry is string => typeof entry === "string")
+    : undefined;
+};
@@ -0,0 +1,80 @@
+"use client";
+
+import type { GetPortfoliosResponse } from "@coinbase/onchainkit/api";
+import { AddressLink, ToolResultCard } from "./card";
+import { isRecord, stringArrayField } from "./narrow";
+import type { ToolResultProps } from "./types";
+
+type Portfolio = GetPortfoliosResponse["portfolios"][number];
+
+const usd = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+});
+
+const crypto = new Intl.NumberFormat("en-US", { maximumFractionDigits: 6 });
+
+const isPortfolios = (result: unknown): result is GetPortfoliosResponse =>
+  isRecord(result) && Array.isArray(result.portfolios);
+
+/**
+ * Renders get_portfolios results with each wallet's tokens by fiat value
+ */
+export function PortfolioResult({ args, result }: ToolResultProps) {
+  const portfolios: Array<Portfolio> = isPortfolios(result)
+    ? result.portfolios
+    : (stringArrayField(args, "addresses") ?? []).map((address) => ({
+        address: address as Portfolio["address"],
+        portfolioBalanceInUsd: 0,
+        tokenBalances: [],
+      }));
+  const isFiltered = (stringArrayField(args, "symbols") ?? []).length > 0;
+
+  return (
+    <ToolResultCard title="Portfolio">
+      {portfolios.map((portfolio) => {
+        const tokens = [...portfolio.tokenBalances].sort(
+          (a, b) => b.fiatBalance - a.fiatBalance
+        );
+        const total = isFiltered
+          ? tokens.reduce((sum, token) => sum + token.fiatBalance, 0)
+          : portfolio.portfolioBalanceInUsd;
+
+        return (
+          <div key={portfolio.address} className="flex flex-col gap-2">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm text-muted-foreground">
+                <AddressLink address={portfolio.address} />
+              </span>
+              <span className="text-2xl font-medium">{usd.format(total)}</span>
+            </div>
+            {tokens.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {result === undefined ? "Loading…" : "No tokens found"}
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {tokens.map((token) => (
+                    <tr
+                      key={token.address || token.symbol}
+                      className="border-t"
+                    >
+                      <td className="py-2">{token.symbol}</td>
+                      <td className="py-2 text-right font-mono">
+                        {crypto.format(token.cryptoBalance)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {usd.format(token.fiatBalance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </ToolResultCard>
+  );
+}
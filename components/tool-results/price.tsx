@@ -0,0 +1,33 @@
+"use client";
+
+import { ToolResultCard } from "./card";
+import { stringField } from "./narrow";
+import type { ToolResultProps } from "./types";
+
+/**
+ * Renders fetch_price results, naming the token from the fetch_price_feed
+ * call that looked up the feed
+ */
+export function PriceResult({ args, result, invocations }: ToolResultProps) {
+  const feed = invocations.find(
+    (invocation) =>
+      invocation.toolName === "fetch_price_feed" &&
+      invocation.state === "result" &&
+      invocation.result === args.priceFeedID
+  );
+  const symbol = stringField(feed?.args, "tokenSymbol");
+
+  return (
+    <ToolResultCard title={symbol ? `${symbol.toUpperCase()} price` : "Price"}>
+      <p className="text-3xl font-medium">
+        $
+        {typeof result !== "number" && typeof result !== "string"
+          ? "0.00"
+          : Number(result).toLocaleString(undefined, {
+              maximumFractionDigits: 8,
+            })}
+      </p>
+      <p className="text-xs text-muted-foreground">Pyth price feed</p>
+    </ToolResultCard>
+  );
+}
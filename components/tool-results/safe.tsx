@@ -0,0 +1,44 @@
+"use client";
+
+import { AddressLink, ToolResultCard } from "./card";
+import { isRecord, numberField, stringArrayField } from "./narrow";
+import type { ToolResultProps } from "./types";
+
+type CreatedSafe = Extract<CreateSafeReturnType, { safeAddress: string }>;
+
+const isCreatedSafe = (result: unknown): result is CreatedSafe =>
+  isRecord(result) && typeof result.safeAddress === "string";
+
+/**
+ * Renders create_safe results with the owners and threshold
+ */
+export function SafeCreationResult({ args, result }: ToolResultProps) {
+  const safe = isCreatedSafe(result) ? result : undefined;
+  const owners = safe?.owners ?? stringArrayField(args, "owners") ?? [];
+  const threshold = safe?.threshold ?? numberField(args, "threshold");
+
+  return (
+    <ToolResultCard
+      title={result === undefined ? "Creating safe…" : "Created safe"}
+      transactionHashes={safe ? [safe.transactionHash] : []}
+    >
+      {safe ? (
+        <p className="text-lg font-medium">
+          <AddressLink address={safe.safeAddress} />
+        </p>
+      ) : (
+        <p className="text-lg font-medium">0x0000…0000</p>
+      )}
+      <p className="text-sm text-muted-foreground">
+        {threshold ?? "?"} of {owners.length} owners must sign
+      </p>
+      <ul className="text-sm text-muted-foreground">
+        {owners.map((owner) => (
+          <li key={owner}>
+            <AddressLink address={owner} />
+          </li>
+        ))}
+      </ul>
+    </ToolResultCard>
+  );
+}
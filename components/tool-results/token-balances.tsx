@@ -0,0 +1,57 @@
+"use client";
+
+import type { TokenBalanceWithMetadata } from "@/lib/web3/agentkit/action-providers/alchemy/schemas";
+import { explorerUrl } from "@/lib/web3/explorer";
+import { ToolResultCard } from "./card";
+import type { ToolResultProps } from "./types";
+
+const PLACEHOLDER_BALANCES: Array<TokenBalanceWithMetadata> = [1, 2, 3].map(
+  (index) => ({
+    name: "Token",
+    symbol: "TKN",
+    balance: "0.00",
+    decimals: 18,
+    contractAddress: String(index),
+  })
+);
+
+/**
+ * Renders get_token_balances results as a table
+ */
+export function TokenBalancesResult({ result }: ToolResultProps) {
+  const balances: Array<TokenBalanceWithMetadata> = Array.isArray(result)
+    ? result
+    : PLACEHOLDER_BALANCES;
+
+  return (
+    <ToolResultCard title="Token balances">
+      {balances.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tokens found</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {balances.map((token) => (
+              <tr key={token.contractAddress} className="border-t">
+                <td className="py-2">
+                  <a
+                    href={explorerUrl("token", token.contractAddress)}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-sm hover:underline"
+                  >
+                    {token.name}
+                  </a>
+                </td>
+                <td className="py-2 text-right">
+                  <span className="text-sm font-mono">
+                    {token.balance} {token.symbol}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </ToolResultCard>
+  );
+}
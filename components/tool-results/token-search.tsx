@@ -0,0 +1,62 @@
+"use client";
+
+import type { Token } from "@coinbase/onchainkit/token";
+import { AddressLink, ToolResultCard } from "./card";
+import { stringField } from "./narrow";
+import type { ToolResultProps } from "./types";
+
+const PLACEHOLDER_TOKENS: Array<Token> = [1, 2, 3].map((index) => ({
+  address: "",
+  chainId: 8453,
+  decimals: 18,
+  image: null,
+  name: `Token ${index}`,
+  symbol: "TKN",
+}));
+
+/**
+ * Renders search_base_tokens results as a list of tokens
+ */
+export function TokenSearchResult({ args, result }: ToolResultProps) {
+  const tokens: Array<Token> = Array.isArray(result)
+    ? result
+    : PLACEHOLDER_TOKENS;
+
+  return (
+    <ToolResultCard
+      title={`Tokens matching “${stringField(args, "search") ?? "…"}”`}
+    >
+      {tokens.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tokens found</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {tokens.map((token, index) => (
+            <li
+              key={token.address || `${token.symbol}-${index}`}
+              className="flex items-center gap-3 text-sm"
+            >
+              {token.image ? (
+                <img
+                  src={token.image}
+                  alt={token.symbol}
+                  className="size-6 rounded-full"
+                />
+              ) : (
+                <div className="size-6 rounded-full bg-muted" />
+              )}
+              <span className="font-medium">{token.symbol}</span>
+              <span className="text-muted-foreground truncate">
+                {token.name}
+              </span>
+              {token.address && (
+                <span className="ml-auto text-xs text-muted-foreground">
+                  <AddressLink address={token.address} />
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </ToolResultCard>
+  );
+}
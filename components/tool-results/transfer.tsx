@@ -0,0 +1,44 @@
+"use client";
+
+import { erc20Abi, type Hex } from "viem";
+import { useReadContract } from "wagmi";
+import { extractTransactionHashes } from "@/lib/web3/agentkit/framework-extensions/results";
+import { AddressLink, ToolResultCard } from "./card";
+import { stringField } from "./narrow";
+import type { ToolResultProps } from "./types";
+
+/**
+ * Renders native_transfer and ERC20 transfer results with the token symbol,
+ * both actions taking amounts in whole units
+ */
+export function TransferResult({ args, result }: ToolResultProps) {
+  const contractAddress = stringField(args, "contractAddress") as
+    | Hex
+    | undefined;
+  const { data: tokenSymbol } = useReadContract({
+    address: contractAddress,
+    abi: erc20Abi,
+    functionName: "symbol",
+    query: { enabled: !!contractAddress },
+  });
+
+  const recipient = stringField(args, "destination") ?? stringField(args, "to");
+  const amount = stringField(args, contractAddress ? "amount" : "value") ?? "…";
+  const symbol = contractAddress ? tokenSymbol ?? "tokens" : "ETH";
+
+  return (
+    <ToolResultCard
+      title={result === undefined ? "Sending…" : "Sent"}
+      transactionHashes={extractTransactionHashes(result)}
+    >
+      <p className="text-2xl font-medium">
+        {amount} {symbol}
+      </p>
+      {recipient && (
+        <p className="text-sm text-muted-foreground">
+          To <AddressLink address={recipient} />
+        </p>
+      )}
+    </ToolResultCard>
+  );
+}
@@ -0,0 +1,18 @@
+import type { ToolInvocation } from "ai";
+
+export interface ToolResultProps {
+  /**
+   * The arguments the model called the tool with, partial while they stream
+   */
+  args: Record<string, unknown>;
+  /**
+   * Undefined while the tool is running, when the card renders as a skeleton.
+   * Cards narrow it to their action's result type, since actions can also
+   * return error strings or objects.
+   */
+  result?: unknown;
+  /**
+   * The other tool invocations of the same message
+   */
+  invocations: Array<ToolInvocation>;
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import { parseEther, type Hex } from "viem";
+import {
+  useAccount,
+  useConfig,
+  useSendTransaction,
+  useSwitchChain,
+} from "wagmi";
+import { getAccount, waitForTransactionReceipt } from "wagmi/actions";
+import { Button } from "./ui/button";
+import { ConnectButton } from "./connect-button";
+import { useChatContext } from "@/contexts/chat-context";
+import { activeChain, getSupportedChain } from "@/lib/web3/chains";
+import { decodeCalldata } from "@/lib/web3/calldata";
+import { explorerUrl, shortenHex } from "@/lib/web3/explorer";
+
+export interface TransactionRequestArgs {
+  to: string;
+  /**
+   * ETH sent with the transaction, in whole units
+   */
+  value?: string;
+  data?: string;
+  description?: string;
+  /**
+   * The chain to send the transaction on, the active chain by default
+   */
+  chainId?: number;
+}
+
+const chainOf = (transaction: TransactionRequestArgs) =>
+  getSupportedChain(transaction.chainId ?? activeChain.id);
+
+type TransactionStatus =
+  | "ready"
+  | "signing"
+  | "confirming"
+  | "confirmed"
+  | "failed";
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  ready: "",
+  signing: "Waiting for your wallet…",
+  confirming: "Confirming…",
+  confirmed: "Confirmed",
+  failed: "Failed",
+};
+
+interface TransactionRequestProps {
+  transactions: Array<TransactionRequestArgs>;
+  title?: string;
+}
+
+/**
+ * Shows transactions proposed by the agent for the user to send from their
+ * own wallet, one after the other, and reports the hashes back to the chat.
+ */
+export function TransactionRequest({
+  transactions,
+  title = "Transaction Details",
+}: TransactionRequestProps) {
+  const { append } = useChatContext();
+  const config = useConfig();
+  const { isConnected, chainId } = useAccount();
+  const { switchChainAsync, isPending: isSwitching } = useSwitchChain();
+  const { sendTransactionAsync } = useSendTransaction();
+  const [statuses, setStatuses] = useState<Array<TransactionStatus>>(() =>
+    transactions.map(() => "ready")
+  );
+  const [hashes, setHashes] = useState<Array<Hex | undefined>>([]);
+  const [isSending, setIsSending] = useState(false);
+
+  const isDone = statuses.every((status) => status === "confirmed");
+  const pending = transactions.find(
+    (_, index) => statuses[index] !== "confirmed"
+  );
+  const nextChain = pending && chainOf(pending);
+  const isWrongChain = isConnected && !!nextChain && chainId !== nextChain.id;
+  const unsupportedChainId = transactions.find(
+    (transaction) => !chainOf(transaction)
+  )?.chainId;
+
+  const setStatus = (index: number, status: TransactionStatus) =>
+    setStatuses((current) =>
+      current.map((previous, i) => (i === index ? status : previous))
+    );
+
+  const handleSend = useCallback(async () => {
+    setIsSending(true);
+    const sent: Array<{
+      index: number;
+      hash: Hex;
+      status: string;
+      chainName: string;
+    }> = [];
+
+    try {
+      for (const [index, transaction] of transactions.entries()) {
+        if (statuses[index] === "confirmed") {
+          continue;
+        }
+
+        const chain = chainOf(transaction);
+        if (!chain) {
+          throw new Error(`Chain ${transaction.chainId} is not supported`);
+        }
+        // Each transaction may be on a different chain than the last one
+        if (getAccount(config).chainId !== chain.id) {
+          await switchChainAsync({ chainId: chain.id });
+        }
+
+        setStatus(index, "signing");
+        const hash = await sendTransactionAsync({
+          to: transaction.to as Hex,
+          value: parseEther(String(transaction.value || "0")),
+          data: (transaction.data as Hex) || undefined,
+          chainId: chain.id,
+        }).catch((error) => {
+          setStatus(index, "ready");
+          throw error;
+        });
+        setHashes((current) => {
+          const next = [...current];
+          next[index] = hash;
+          return next;
+        });
+
+        setStatus(index, "confirming");
+        const receipt = await waitForTransactionReceipt(config, {
+          hash,
+          chainId: chain.id,
+        });
+        const status = receipt.status === "success" ? "confirmed" : "failed";
+        setStatus(index, status);
+        sent.push({ index, hash, status, chainName: chain.name });
+
+        // Later transactions usually depend on earlier ones
+        if (status === "failed") {
+          break;
+        }
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message.split("\n")[0]
+          : "Something went wrong"
+      );
+    } finally {
+      setIsSending(false);
+    }
+
+    if (sent.length > 0) {
+      append({
+        role: "user",
+        content: `I sent ${
+          sent.length === 1 ? "the transaction" : `${sent.length} transactions`
+        } from my wallet:\n${sent
+          .map(
+            ({ index, hash, status, chainName }) =>
+              `- ${
+                transactions[index].description ||
+                `To ${transactions[index].to}`
+              }: ${status} on ${chainName}, transaction hash ${hash}`
+          )
+          .join("\n")}`,
+      });
+    }
+  }, [
+    append,
+    config,
+    sendTransactionAsync,
+    statuses,
+    switchChainAsync,
+    transactions,
+  ]);
+
+  return (
+    <div className="flex flex-col gap-3 p-4 border rounded-lg">
+      <h3 className="font-medium">{title}</h3>
+      {transactions.map((transaction, index) => {
+        const decoded = decodeCalldata(transaction.data);
+        const hash = hashes[index];
+        const chain = chainOf(transaction);
+
+        return (
+          <div
+            key={`${transaction.to}-${transaction.data}-${index}`}
+            className="flex flex-col gap-1 text-sm text-muted-foreground break-all"
+          >
+            {transaction.description && (
+              <p className="text-foreground">{transaction.description}</p>
+            )}
+            <p>To: {transaction.to}</p>
+            {chain && chain.id !== activeChain.id && (
+              <p>Network: {chain.name}</p>
+            )}
+            <p>Value: {transaction.value || "0"} ETH</p>
+            {decoded ? (
+              <p>
+                Call: {decoded.functionName}(
+                {decoded.args
+                  .map(({ name, value }) => `${name}: ${value}`)
+                  .join(", ")}
+                )
+              </p>
+            ) : (
+              transaction.data &&
+              transaction.data !== "0x" && (
+                <p className="font-mono text-xs">Data: {transaction.data}</p>
+              )
+            )}
+            {statuses[index] !== "ready" && (
+              <p
+                className={
+                  statuses[index] === "confirmed"
+                    ? "text-green-600"
+                    : statuses[index] === "failed"
+                    ? "text-red-600"
+                    : undefined
+                }
+              >
+                {STATUS_LABELS[statuses[index]]}
+                {hash && (
+                  <>
+                    {" · "}
+                    <a
+                      href={explorerUrl("tx", hash, chain)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="underline"
+                    >
+                      {shortenHex(hash)}
+                    </a>
+                  </>
+                )}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {unsupportedChainId !== undefined ? (
+        <p className="text-sm text-red-600">
+          Chain {unsupportedChainId} is not supported
+        </p>
+      ) : !isConnected ? (
+        <ConnectButton />
+      ) : isWrongChain && nextChain ? (
+        <Button
+          onClick={() => switchChainAsync({ chainId: nextChain.id })}
+          disabled={isSwitching}
+        >
+          {isSwitching ? "Switching…" : `Switch to ${nextChain.name}`}
+        </Button>
+      ) : (
+        !isDone && (
+          <Button onClick={handleSend} disabled={isSending}>
+            {isSending
+              ? "Sending…"
+              : transactions.length > 1
+              ? `Send ${transactions.length} transactions`
+              : "Confirm Transaction"}
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
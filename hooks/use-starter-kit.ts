@@ -9,7 +9,19 @@ interface AvailableResponse {
 }
 
 type ClaimedResponse = StarterKit[];
-type CreatedResponse = StarterKit[];
+
+export interface CreatedStarterKit extends StarterKit {
+  /**
+   * The kit's active claim link, the code itself is only shown when issued
+   */
+  claimLink: {
+    message: string | null;
+    recipientAddress: string | null;
+    expiresAt: string;
+  } | null;
+}
+
+type CreatedResponse = CreatedStarterKit[];
 
 const REFRESH_INTERVAL = 15000; // 15 seconds in milliseconds
 
@@ -26,7 +38,11 @@ export function useStarterKit() {
       refreshInterval: claimedData?.length ? 0 : REFRESH_INTERVAL,
     });
 
-  const { data: createdData, error: createdError } = useSWR<CreatedResponse>(
+  const {
+    data: createdData,
+    error: createdError,
+    mutate: mutateCreated,
+  } = useSWR<CreatedResponse>(
     isAuthenticated ? "/api/starter-kit/created/list" : null,
     fetcher,
     {
@@ -48,6 +64,7 @@ export function useStarterKit() {
     availableKits: availableData?.kits ?? [],
     claimedKits: claimedData ?? [],
     createdKits: createdData ?? [],
+    mutateCreated,
     isLoading,
     error,
   };
@@ -0,0 +1,20 @@
+import {
+  NETWORK_ID_TO_VIEM_CHAIN,
+  SUPPORTED_NETWORK_IDS,
+} from "@/lib/web3/agentkit/wallet-providers/network";
+
+export const networkPrompt = (networkId: string) => {
+  const chain = NETWORK_ID_TO_VIEM_CHAIN[networkId];
+
+  return `
+Your wallet and onchain tools currently operate on ${
+    chain.name
+  } (${networkId}, chain ID ${chain.id}).
+The block explorer for this network is ${
+    chain.blockExplorers?.default.url
+  }. Use it for the <explorer-url> in links.
+If the user wants to do something on another network, use the switch_network tool. The supported networks are: ${SUPPORTED_NETWORK_IDS.join(
+    ", "
+  )}.
+`;
+};
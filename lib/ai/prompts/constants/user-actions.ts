@@ -10,12 +10,15 @@ export const userActionsPrompt = `You can propose userActions as a part of your
        {"label": "Gaming", "value": "gaming", "description": "Web3 games"},
        {"label": "Social", "value": "social", "description": "Decentralized social networks"}
      ]"
-6. "transaction" - To show a transaction for the user to execute:
+6. "transaction" - To show transactions for the user to send from their own wallet. Value is in ETH. Copy the chainId of the transaction the tool returned, the user's wallet is switched to that chain before sending. Several arguments are sent one after the other, in order:
    example arguments: [{
      "to": "0x123...",
      "value": "0.1",
-     "data": "0x..."
+     "data": "0x...",
+     "chainId": 8453,
+     "description": "Renew alice.base.eth for 1 year"
    }]"
+   Once sent, the user replies with the status and transaction hash of each transaction. Confirm the outcome to them, and save what they did with saveUserInformation as an ACTION.
 7. "help" - To add a help button:
   "Let me know if you need clarification! /help"
 8. "show-nft" - To show an NFT to the user:
@@ -24,5 +27,29 @@ export const userActionsPrompt = `You can propose userActions as a part of your
     "tokenId": "1",
     "link": "https://zora.co/collect/base:0xe4850d823d10d9b79282e432e25eab9271d09684/1"
   }]
+9. "show-basename" - To show the profile card of a basename, using the result of get_basename_profile:
+  example arguments: [{
+    "basename": "alice.base.eth",
+    "address": "0x123...",
+    "records": {"description": "Builder", "twitter": "alice", "url": "https://alice.xyz"},
+    "expiresAt": "2026-01-01T00:00:00.000Z"
+  }]
+10. "sign-safe-transaction" - To let a co-owner of a safe sign a proposal from propose_safe_transaction with their connected wallet:
+  example arguments: [{
+    "proposalId": "3f1c..."
+  }]
+11. "revoke-approvals" - To let the user revoke ERC20 approvals from their own wallet, using the results of list_allowances. Each approval becomes a transaction for the user to sign:
+  example arguments: [{
+    "contractAddress": "0x123...",
+    "spender": "0x456...",
+    "symbol": "USDC",
+    "allowance": "unlimited",
+    "chainId": 8453
+  }]
+12. "show-nft-gallery" - To show several NFTs at once, for example a user's collection from get_nfts_for_owner, grouped by collection name:
+  example arguments: [
+    {"contractAddress": "0x123...", "tokenId": "1", "collection": "Swooping Ethereum"},
+    {"contractAddress": "0x123...", "tokenId": "2", "collection": "Swooping Ethereum"}
+  ]
 
 You can propose multiple actions at once, just add multiple userActions to the array.`;
@@ -4,17 +4,21 @@ import { codePrompt } from "./constants/code";
 import { sheetPrompt } from "./constants/sheet";
 import { userActionsPrompt } from "./constants/user-actions";
 import { starterKitPrompt } from "./constants/starter-kit";
+import { networkPrompt } from "./constants/network";
 import type { BlockKind } from "@/components/block";
 
 export const generateSystemPrompt = ({
   selectedChatModel,
+  networkId,
 }: {
   selectedChatModel: string;
+  networkId: string;
 }) => {
+  const network = networkPrompt(networkId);
   if (selectedChatModel === "chat-model-reasoning") {
-    return regularPrompt;
+    return `${regularPrompt}\n\n${network}`;
   }
-  return `${regularPrompt}\n\n${blocksPrompt}\n\n${userActionsPrompt}\n\n${starterKitPrompt}`;
+  return `${regularPrompt}\n\n${network}\n\n${blocksPrompt}\n\n${userActionsPrompt}\n\n${starterKitPrompt}`;
 };
 
 export const updateDocumentPrompt = (
@@ -34,12 +34,24 @@ ${activeInfo
 
 const formatKitInfo = (
   claimedKits: User["claimedKits"],
-  createdKits: User["createdKits"]
+  createdKits: User["createdKits"],
+  entitlements: User["entitlements"]
 ): string => {
   const parts = [];
 
   if (claimedKits.length > 0) {
     parts.push(`They have claimed ${claimedKits.length} kits`);
+
+    const delivered = entitlements.filter(
+      (entitlement) => entitlement.status === "DELIVERED"
+    );
+    if (delivered.length > 0) {
+      parts.push(
+        `Starter kit entitlements already delivered: ${delivered
+          .map((entitlement) => entitlement.type)
+          .join(", ")}`
+      );
+    }
   }
 
   if (createdKits.length > 0) {
@@ -82,7 +94,11 @@ export const generateUserProfile = ({
     formatAttachments(attachments),
     `User's connected wallet is ${userInfo.id}`,
     formatUserInterests(userInfo.information),
-    formatKitInfo(userInfo.claimedKits, userInfo.createdKits),
+    formatKitInfo(
+      userInfo.claimedKits,
+      userInfo.createdKits,
+      userInfo.entitlements
+    ),
     formatCharges(userInfo.charges),
   ].filter(Boolean); // Remove empty sections
 
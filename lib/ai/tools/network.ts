@@ -0,0 +1,51 @@
+import { tool } from "ai";
+import { z } from "zod";
+import type { Session } from "next-auth";
+import { getChatById, updateChatNetworkById } from "@/lib/db/queries";
+import type { ChatNetwork } from "@/lib/web3/agentkit/framework-extensions/network";
+import {
+  NETWORK_ID_TO_VIEM_CHAIN,
+  SUPPORTED_NETWORK_IDS,
+} from "@/lib/web3/agentkit/wallet-providers/network";
+
+interface SwitchNetworkProps {
+  session: Session;
+  chatId: string;
+  network: ChatNetwork;
+}
+
+export const switchNetworkTool = ({
+  session,
+  chatId,
+  network,
+}: SwitchNetworkProps) =>
+  tool({
+    description:
+      "Switch the network your wallet and onchain tools operate on for this chat. The onchain tools for the new network are available from the user's next message.",
+    parameters: z.object({
+      networkId: z
+        .enum(SUPPORTED_NETWORK_IDS as [string, ...Array<string>])
+        .describe("The network to switch to"),
+    }),
+    execute: async ({ networkId }) => {
+      if (!session.user?.id) {
+        return { error: "User not authenticated" };
+      }
+
+      const chat = await getChatById({ id: chatId });
+      if (!chat || chat.userId !== session.user.id) {
+        return { error: "Chat not found" };
+      }
+
+      await updateChatNetworkById({ chatId, networkId });
+      network.networkId = networkId;
+
+      const chain = NETWORK_ID_TO_VIEM_CHAIN[networkId];
+      return {
+        success: true,
+        networkId,
+        chainId: chain.id,
+        message: `Switched to ${chain.name}, the onchain tools operate on it from the next message`,
+      };
+    },
+  });
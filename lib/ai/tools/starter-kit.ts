@@ -5,14 +5,32 @@ import {
   getAvailableStarterKits,
   claimAvailableStarterKit,
 } from "@/lib/db/queries";
+import { CLAIM_CODE_ERRORS } from "@/lib/starter-kit/claim-codes";
+import {
+  createEligibilityPipeline,
+  type EligibilityPipeline,
+} from "@/lib/starter-kit/eligibility";
 import type { Session } from "next-auth";
+import type { Address } from "viem";
 import { tool } from "ai";
 
 type StarterKitProps = {
   session: Session | null;
+  /**
+   * The IP of the chat request, to rate limit claims
+   */
+  ip?: string;
+  /**
+   * Decides which users may claim a free kit
+   */
+  eligibility?: EligibilityPipeline;
 };
 
-export const claimStarterKitTool = ({ session }: StarterKitProps) =>
+export const claimStarterKitTool = ({
+  session,
+  ip,
+  eligibility = createEligibilityPipeline(),
+}: StarterKitProps) =>
   tool({
     description: "Claim an available starter kit using its ID",
     parameters: z.object({
@@ -24,10 +42,21 @@ export const claimStarterKitTool = ({ session }: StarterKitProps) =>
       }
 
       try {
-        await claimKit({
+        const decision = await eligibility.evaluate({
+          userId: session.user.id as Address,
+          ip,
+        });
+        if (!decision.eligible) {
+          return decision.denial;
+        }
+
+        const result = await claimKit({
           kitId,
           userId: session.user.id,
         });
+        if ("error" in result) {
+          return { error: CLAIM_CODE_ERRORS[result.error] };
+        }
         return { success: true, message: "Successfully claimed starter kit" };
       } catch (error) {
         return { error: "Failed to claim starter kit" };
@@ -56,10 +85,18 @@ export const giveStarterKitTool = ({ session }: StarterKitProps) =>
 
         const kitToGive = unclaimedKits[0];
 
-        await claimKit({
+        const result = await claimKit({
           kitId: kitToGive.id,
           userId: recipientId,
         });
+        if ("error" in result) {
+          return {
+            error:
+              result.error === "has_kit"
+                ? "The recipient already has a starter kit"
+                : CLAIM_CODE_ERRORS[result.error],
+          };
+        }
 
         return {
           success: true,
@@ -89,23 +126,42 @@ export const getAvailableStarterKitsTool = () =>
     },
   });
 
-export const claimAvailableStarterKitTool = () =>
+export const claimAvailableStarterKitTool = ({
+  session,
+  ip,
+  eligibility = createEligibilityPipeline(),
+}: StarterKitProps) =>
   tool({
-    description: "Claim the oldest available starter kit for a given user",
-    parameters: z.object({
-      userId: z.string().length(42),
-    }),
-    execute: async ({ userId }) => {
+    description: "Claim the oldest available starter kit for the current user",
+    parameters: z.object({}),
+    execute: async () => {
+      if (!session?.user?.id) {
+        return { error: "Not authenticated" };
+      }
+
       try {
-        const kit = await claimAvailableStarterKit(userId);
+        const decision = await eligibility.evaluate({
+          userId: session.user.id as Address,
+          ip,
+        });
+        if (!decision.eligible) {
+          return decision.denial;
+        }
+
+        const result = await claimAvailableStarterKit(session.user.id);
 
-        if (!kit) {
-          return { error: "No starter kits available to claim" };
+        if ("error" in result) {
+          return {
+            error:
+              result.error === "has_kit"
+                ? CLAIM_CODE_ERRORS.has_kit
+                : "No starter kits available to claim",
+          };
         }
 
         return {
           success: true,
-          kit,
+          kit: result.kit,
           message: "Successfully claimed an available starter kit",
         };
       } catch (error) {
@@ -136,10 +192,8 @@ export const starterKitTools = {
     description: "Get a list of all unclaimed starter kits that are available",
   },
   claimAvailable: {
-    schema: z.object({
-      userId: z.string().length(42),
-    }),
+    schema: z.object({}),
     handler: claimAvailableStarterKitTool,
-    description: "Claim the oldest available starter kit for a given user",
+    description: "Claim the oldest available starter kit for the current user",
   },
 };
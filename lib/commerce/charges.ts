@@ -0,0 +1,301 @@
+import { formatUnits, getAddress, parseUnits } from "viem";
+import {
+  createCharge,
+  createStarterKit,
+  createUserIfNotExists,
+  getChargeById,
+  getClaimedStarterKits,
+  getStarterKitByChargeId,
+  updateChargeStatus,
+  updateStarterKitStatus,
+} from "@/lib/db/queries";
+import type { Charge, StarterKit } from "@/lib/db/schema";
+import type { CoinbaseChargeResponse } from "@/lib/types/coinbase";
+import { getStarterKitProduct } from "./products";
+
+type ChargeStatus = Charge["status"];
+type TimelineStatus = CoinbaseChargeResponse["timeline"][number]["status"];
+type SuccessEvent = NonNullable<
+  NonNullable<CoinbaseChargeResponse["web3_data"]>["success_events"]
+>[number];
+
+/**
+ * The charge status each Commerce timeline status moves a charge to
+ */
+const TIMELINE_STATUSES: Record<TimelineStatus, ChargeStatus> = {
+  NEW: "NEW",
+  SIGNED: "NEW",
+  PENDING: "PENDING",
+  COMPLETED: "COMPLETED",
+  // Underpaid or overpaid, until it is manually resolved
+  UNRESOLVED: "FAILED",
+  RESOLVED: "COMPLETED",
+  EXPIRED: "EXPIRED",
+  FAILED: "FAILED",
+  CANCELED: "FAILED",
+};
+
+/**
+ * The tokens charges are paid in on Base and Base Sepolia, by currency
+ */
+const SETTLEMENT_TOKENS: Record<
+  string,
+  { addresses: Array<string>; decimals: number }
+> = {
+  USDC: {
+    addresses: [
+      "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+      "0x036cbd53842c5426634e7929541ec2318f3dcf7e",
+    ],
+    decimals: 6,
+  },
+};
+
+/**
+ * Fetches a charge from the Coinbase Commerce API
+ * @param chargeId The charge ID
+ * @returns The charge
+ */
+export async function fetchCharge(
+  chargeId: string
+): Promise<CoinbaseChargeResponse> {
+  if (!process.env.COINBASE_COMMERCE_API_KEY) {
+    throw new Error("Commerce API key not configured");
+  }
+
+  const response = await fetch(
+    `https://api.commerce.coinbase.com/charges/${chargeId}`,
+    {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        "X-CC-Api-Key": process.env.COINBASE_COMMERCE_API_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error("Failed to verify charge with Coinbase Commerce");
+  }
+
+  const { data } = (await response.json()) as {
+    data: CoinbaseChargeResponse;
+  };
+  return data;
+}
+
+/**
+ * The state of a charge, derived from its latest timeline entry
+ */
+export interface ChargeState {
+  status: ChargeStatus;
+  /**
+   * The finalized onchain payment, when there is one
+   */
+  payment?: SuccessEvent;
+  /**
+   * Completed with a finalized payment, the only state that activates a kit
+   */
+  isPaid: boolean;
+}
+
+/**
+ * Derives a charge's state from its timeline and onchain payments
+ * @param charge The charge from the Commerce API
+ * @returns The charge state
+ */
+export function getChargeState(charge: CoinbaseChargeResponse): ChargeState {
+  const latest = [...charge.timeline]
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime())
+    .at(-1);
+  const status = latest ? TIMELINE_STATUSES[latest.status] ?? "NEW" : "NEW";
+  const payment = charge.web3_data?.success_events?.find(
+    (event) => event.finalized
+  );
+
+  return { status, payment, isPaid: status === "COMPLETED" && !!payment };
+}
+
+/**
+ * Sums the finalized onchain payments of a charge made in a currency's token.
+ * The charge's pricing is only the amount asked, not what was paid.
+ * @param charge The charge from the Commerce API
+ * @param currency The currency, like USDC
+ * @returns The amount paid in base units with the token's decimals, or
+ * undefined if the currency's token is unknown
+ */
+export function getPaidAmount(
+  charge: CoinbaseChargeResponse,
+  currency: string
+): { amount: bigint; decimals: number } | undefined {
+  const token = SETTLEMENT_TOKENS[currency];
+  if (!token) {
+    return undefined;
+  }
+
+  const paid = (charge.web3_data?.success_events ?? [])
+    .filter(
+      (event) =>
+        event.finalized &&
+        token.addresses.includes(event.input_token_address.toLowerCase())
+    )
+    .reduce((total, event) => total + BigInt(event.input_token_amount), 0n);
+  return { amount: paid, decimals: token.decimals };
+}
+
+/**
+ * The kit status a charge state maps to: active once paid, revoked once the
+ * charge failed or expired, pending otherwise
+ * @param state The charge state
+ * @returns The kit status
+ */
+function getKitStatus(state: ChargeState): StarterKit["status"] {
+  if (state.isPaid) {
+    return "ACTIVE";
+  }
+  return state.status === "FAILED" || state.status === "EXPIRED"
+    ? "REVOKED"
+    : "PENDING";
+}
+
+/**
+ * The outcome of syncing a charge
+ */
+export interface ChargeSyncResult {
+  status: ChargeStatus;
+  /**
+   * The buyer the charge is recorded for
+   */
+  ownerId?: string;
+  /**
+   * False when the charge could not be recorded yet
+   */
+  recorded: boolean;
+  kitStatus?: StarterKit["status"];
+  /**
+   * Why a paid charge did not create a kit
+   */
+  reason?: string;
+}
+
+/**
+ * Records a charge's state, creates its starter kit once it is paid at the
+ * product's price, and moves an existing kit between pending, active and
+ * revoked as the charge changes. Safe to repeat with the same charge.
+ * @param charge The charge from the Commerce API
+ * @param buyerId The signed in user who reported the charge from the checkout
+ * @returns The charge and kit status
+ */
+export async function syncCharge({
+  charge,
+  buyerId,
+}: {
+  charge: CoinbaseChargeResponse;
+  buyerId?: string;
+}): Promise<ChargeSyncResult> {
+  const state = getChargeState(charge);
+  const [existing] = await getChargeById(charge.id);
+  const payerAddress = state.payment
+    ? getAddress(state.payment.sender)
+    : undefined;
+
+  // The charge belongs to the signed in user who started the checkout, which
+  // reports the charge as soon as it is created. Charges only reported by a
+  // webhook belong to the wallet that paid them.
+  let ownerId = existing?.userId ?? buyerId ?? payerAddress;
+  if (!ownerId) {
+    return {
+      status: state.status,
+      recorded: false,
+      reason: "Charge has no known buyer yet",
+    };
+  }
+
+  const settlement = charge.pricing?.settlement;
+  if (!existing) {
+    if (!settlement) {
+      return {
+        status: state.status,
+        recorded: false,
+        reason: "Charge has no price",
+      };
+    }
+    // Buyers may never have signed in
+    await createUserIfNotExists(ownerId);
+    await createCharge({
+      id: charge.id,
+      userId: ownerId,
+      amount: settlement.amount,
+      currency: settlement.currency,
+    });
+    // A concurrent sync may have recorded the charge first, its buyer wins
+    const [recorded] = await getChargeById(charge.id);
+    ownerId = recorded.userId;
+  }
+
+  await updateChargeStatus({
+    id: charge.id,
+    status: state.status,
+    payerAddress,
+    transactionHash: state.payment?.tx_hash,
+    confirmedAt: state.isPaid
+      ? new Date(charge.confirmed_at ?? state.payment?.timestamp ?? Date.now())
+      : undefined,
+    expiresAt: charge.expires_at ? new Date(charge.expires_at) : undefined,
+  });
+
+  const kitStatus = getKitStatus(state);
+  const kit = await getStarterKitByChargeId(charge.id);
+  if (kit) {
+    if (kit.status !== kitStatus) {
+      await updateStarterKitStatus({ id: kit.id, status: kitStatus });
+    }
+    return { status: state.status, ownerId, recorded: true, kitStatus };
+  }
+
+  if (kitStatus !== "ACTIVE") {
+    return { status: state.status, ownerId, recorded: true };
+  }
+
+  const product = getStarterKitProduct(charge.checkout?.id);
+  if (!product) {
+    return {
+      status: state.status,
+      ownerId,
+      recorded: true,
+      reason: "Charge is not for a starter kit",
+    };
+  }
+  const paid = getPaidAmount(charge, product.currency);
+  if (!paid || paid.amount < parseUnits(product.amount, paid.decimals)) {
+    console.error(
+      `Charge ${charge.id} was paid ${
+        paid ? formatUnits(paid.amount, paid.decimals) : "an unknown amount of"
+      } ${product.currency}, expected ${product.amount} ${product.currency}`
+    );
+    return {
+      status: state.status,
+      ownerId,
+      recorded: true,
+      reason: "Charge amount paid does not match the product price",
+    };
+  }
+
+  // Buyers can only hold one kit, so another purchase is left unclaimed for
+  // them to give away
+  const hasKit =
+    !product.isGift &&
+    (await getClaimedStarterKits(ownerId)).some((kit) => !kit.deletedAt);
+
+  // Keyed by the charge, so concurrent syncs create the kit once
+  await createStarterKit({
+    id: charge.id,
+    value: Number.parseInt(product.amount, 10),
+    userId: ownerId,
+    chargeId: charge.id,
+    claimerId: product.isGift || hasKit ? undefined : ownerId,
+  });
+
+  return { status: state.status, ownerId, recorded: true, kitStatus };
+}
@@ -0,0 +1,49 @@
+/**
+ * A Coinbase Commerce product that pays for a starter kit
+ */
+export interface StarterKitProduct {
+  productId: string;
+  /**
+   * The settlement price of the product's charges
+   */
+  amount: string;
+  currency: string;
+  isGift: boolean;
+}
+
+const STARTER_KIT_AMOUNT =
+  process.env.COINBASE_COMMERCE_STARTER_KIT_AMOUNT || "10";
+const STARTER_KIT_CURRENCY =
+  process.env.COINBASE_COMMERCE_STARTER_KIT_CURRENCY || "USDC";
+
+/**
+ * Finds the starter kit product a charge was created from
+ * @param productId The Commerce product (checkout) ID of the charge
+ * @returns The product, if it is one of the starter kit products
+ */
+export function getStarterKitProduct(
+  productId: string | undefined
+): StarterKitProduct | undefined {
+  if (!productId) {
+    return undefined;
+  }
+
+  const products: Array<StarterKitProduct> = [
+    {
+      productId: process.env
+        .NEXT_PUBLIC_COINBASE_COMMERCE_PRODUCT_STARTER_KIT as string,
+      amount: STARTER_KIT_AMOUNT,
+      currency: STARTER_KIT_CURRENCY,
+      isGift: false,
+    },
+    {
+      productId: process.env
+        .NEXT_PUBLIC_COINBASE_COMMERCE_PRODUCT_STARTER_KIT_GIFT as string,
+      amount: STARTER_KIT_AMOUNT,
+      currency: STARTER_KIT_CURRENCY,
+      isGift: true,
+    },
+  ];
+
+  return products.find((product) => product.productId === productId);
+}
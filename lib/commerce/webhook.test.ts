@@ -0,0 +1,112 @@
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { getAddress } from "viem";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getChargeById, getStarterKitByChargeId } from "@/lib/db/queries";
+import type {
+  CoinbaseChargeResponse,
+  CoinbaseWebhookEvent,
+  CoinbaseWebhookPayload,
+} from "@/lib/types/coinbase";
+import { fetchCharge } from "./charges";
+import { handleChargeEvent } from "./webhook";
+
+// The Commerce API answers with the charge of the event being replayed
+vi.mock("./charges", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./charges")>()),
+  fetchCharge: vi.fn(),
+}));
+
+const PRODUCT_ID = "8e3f2a1b-7c6d-4e5f-a0b1-c2d3e4f5a6b7";
+const PAYER = getAddress("0x4b2f1e0d9c8b7a6f5e4d3c2b1a0f9e8d7c6b5a49");
+
+type FixtureName =
+  | "charge-created"
+  | "charge-pending"
+  | "charge-confirmed"
+  | "charge-failed"
+  | "charge-resolved";
+
+/**
+ * Loads a recorded webhook event for a fresh charge
+ */
+const loadEvent = (
+  name: FixtureName,
+  chargeId: string,
+  update: (charge: CoinbaseChargeResponse) => void = () => {}
+): CoinbaseWebhookEvent => {
+  const { event } = JSON.parse(
+    readFileSync(path.join(__dirname, "fixtures", `${name}.json`), "utf8")
+  ) as CoinbaseWebhookPayload;
+  const data = { ...event.data, id: chargeId };
+  update(data);
+  return { ...event, id: randomUUID(), data };
+};
+
+const replay = (event: CoinbaseWebhookEvent) => {
+  vi.mocked(fetchCharge).mockResolvedValue(event.data);
+  return handleChargeEvent(event);
+};
+
+describe("handleChargeEvent", () => {
+  beforeEach(() => {
+    vi.stubEnv("NEXT_PUBLIC_COINBASE_COMMERCE_PRODUCT_STARTER_KIT", PRODUCT_ID);
+  });
+
+  it("records a charge once paid and gives its kit to a payer who never signed in", async () => {
+    const chargeId = randomUUID();
+
+    // The payment is not finalized until the charge is confirmed
+    for (const name of ["charge-created", "charge-pending"] as const) {
+      expect(await replay(loadEvent(name, chargeId))).toEqual({
+        status: "ignored",
+        reason: "Charge has no known buyer yet",
+      });
+    }
+    const confirmed = loadEvent("charge-confirmed", chargeId);
+    expect(await replay(confirmed)).toEqual({ status: "processed" });
+    expect(await replay(confirmed)).toEqual({ status: "duplicate" });
+    expect(await replay(loadEvent("charge-resolved", chargeId))).toEqual({
+      status: "processed",
+    });
+
+    const [charge] = await getChargeById(chargeId);
+    expect(charge).toMatchObject({ userId: PAYER, status: "COMPLETED" });
+    expect(await getStarterKitByChargeId(chargeId)).toMatchObject({
+      creatorId: PAYER,
+      claimerId: PAYER,
+      status: "ACTIVE",
+    });
+  });
+
+  it.each([["1000000"], ["9999999"]])(
+    "does not create a kit for a charge paid %s base units",
+    async (paid) => {
+      const chargeId = randomUUID();
+
+      expect(
+        await replay(
+          loadEvent("charge-confirmed", chargeId, (charge) => {
+            const [payment] = charge.web3_data?.success_events ?? [];
+            payment.input_token_amount = paid;
+          })
+        )
+      ).toEqual({
+        status: "processed",
+        reason: "Charge amount paid does not match the product price",
+      });
+      expect(await getStarterKitByChargeId(chargeId)).toBeUndefined();
+    }
+  );
+
+  it("ignores a charge that expired without a payment", async () => {
+    const chargeId = randomUUID();
+
+    expect(await replay(loadEvent("charge-failed", chargeId))).toEqual({
+      status: "ignored",
+      reason: "Charge has no known buyer yet",
+    });
+    expect(await getChargeById(chargeId)).toEqual([]);
+  });
+});
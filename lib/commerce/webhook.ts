@@ -0,0 +1,79 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { getCommerceEventById, saveCommerceEvent } from "@/lib/db/queries";
+import type {
+  CoinbaseChargeEventType,
+  CoinbaseWebhookEvent,
+} from "@/lib/types/coinbase";
+import { fetchCharge, syncCharge } from "./charges";
+
+const CHARGE_EVENT_TYPES: Array<CoinbaseChargeEventType> = [
+  "charge:created",
+  "charge:pending",
+  "charge:confirmed",
+  "charge:failed",
+  "charge:resolved",
+];
+
+/**
+ * Checks the X-CC-Webhook-Signature header, the hex HMAC-SHA256 of the raw
+ * request body keyed with the webhook subscription's shared secret
+ * @param body The raw request body
+ * @param signature The signature header
+ * @param secret The shared secret
+ * @returns True if the signature matches
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature || !/^[a-f0-9]{64}$/i.test(signature)) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret).update(body).digest();
+  return timingSafeEqual(expected, Buffer.from(signature, "hex"));
+}
+
+/**
+ * The outcome of handling a webhook event, returned in the response
+ */
+export interface ChargeEventResult {
+  status: "processed" | "duplicate" | "ignored";
+  reason?: string;
+}
+
+/**
+ * Syncs the charge a webhook event is about. Events can arrive out of order,
+ * so the charge is fetched from the API rather than read from the event.
+ * Events that were already handled are skipped, and syncing is safe to repeat
+ * when a delivery is retried.
+ * @param event The webhook event
+ * @returns Whether the event was processed
+ */
+export async function handleChargeEvent(
+  event: CoinbaseWebhookEvent
+): Promise<ChargeEventResult> {
+  if (!CHARGE_EVENT_TYPES.includes(event.type as CoinbaseChargeEventType)) {
+    return { status: "ignored", reason: `Unhandled event ${event.type}` };
+  }
+
+  if (await getCommerceEventById(event.id)) {
+    return { status: "duplicate" };
+  }
+
+  const charge = await fetchCharge(event.data.id);
+  const result = await syncCharge({ charge });
+  if (!result.recorded) {
+    // Not recorded, so a later delivery can still create the charge
+    return { status: "ignored", reason: result.reason };
+  }
+
+  await saveCommerceEvent({
+    id: event.id,
+    type: event.type,
+    chargeId: charge.id,
+  });
+
+  return { status: "processed", reason: result.reason };
+}
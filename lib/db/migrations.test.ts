@@ -0,0 +1,80 @@
+import postgres from "postgres";
+import { afterAll, beforeAll, describe, expect, inject, it } from "vitest";
+import {
+  createTestDatabase,
+  migrateTestDatabase,
+} from "@/test/harness/database";
+
+const BUYER = "0x0000000000000000000000000000000000000b0b";
+const BOTH_USED = "0x000000000000000000000000000000000000000b";
+const SINGLE = "0x000000000000000000000000000000000000000c";
+
+const uuid = (index: number) =>
+  `00000000-0000-4000-8000-${String(index).padStart(12, "0")}`;
+
+describe("0013_premium_ares", () => {
+  let url: string;
+  let sql: postgres.Sql;
+
+  const insertKit = async (
+    id: string,
+    claimerId: string | null,
+    claimedAt: string | null,
+    used = false
+  ) => {
+    const createdAt = claimedAt ?? "2025-01-01";
+    await sql`
+      insert into "StarterKit" ("id", "creatorId", "claimerId", "claimedAt", "createdAt", "value")
+      values (${id}, ${BUYER}, ${claimerId}, ${claimedAt}, ${createdAt}, 10)
+    `;
+    if (used) {
+      await sql`
+        insert into "KitEntitlement" ("kitId", "type", "status", "createdAt", "updatedAt")
+        values (${id}, 'ETH_DRIP', 'DELIVERED', now(), now())
+      `;
+    }
+  };
+
+  beforeAll(async () => {
+    url = await createTestDatabase(inject("postgresUrl"), "template0");
+    await migrateTestDatabase(url, "0012_needy_gladiator");
+    sql = postgres(url, { max: 1, onnotice: () => {} });
+
+    await sql`
+      insert into "User" ("id") values (${BUYER}), (${BOTH_USED}), (${SINGLE})
+    `;
+    // The buyer's own purchases, all claimed for them
+    await insertKit(uuid(1), BUYER, "2025-01-01");
+    await insertKit(uuid(2), BUYER, "2025-01-02", true);
+    await insertKit(uuid(3), BUYER, "2025-01-03");
+    await insertKit(uuid(4), BOTH_USED, "2025-01-01", true);
+    await insertKit(uuid(5), BOTH_USED, "2025-01-02", true);
+    await insertKit(uuid(6), SINGLE, "2025-01-01");
+    await insertKit(uuid(7), null, null);
+
+    await migrateTestDatabase(url);
+  });
+
+  afterAll(async () => {
+    await sql?.end();
+  });
+
+  it("leaves each user one kit before adding the unique index", async () => {
+    const kits = await sql<
+      Array<{ id: string; claimerId: string | null; deleted: boolean }>
+    >`
+      select "id", "claimerId", "deletedAt" is not null as "deleted"
+      from "StarterKit" order by "id"
+    `;
+
+    expect(kits).toEqual([
+      { id: uuid(1), claimerId: null, deleted: false },
+      { id: uuid(2), claimerId: BUYER, deleted: false },
+      { id: uuid(3), claimerId: null, deleted: false },
+      { id: uuid(4), claimerId: BOTH_USED, deleted: false },
+      { id: uuid(5), claimerId: BOTH_USED, deleted: true },
+      { id: uuid(6), claimerId: SINGLE, deleted: false },
+      { id: uuid(7), claimerId: null, deleted: false },
+    ]);
+  });
+});
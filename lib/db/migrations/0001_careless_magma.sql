@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "KitEntitlement" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kitId" uuid NOT NULL,
+	"type" varchar NOT NULL,
+	"status" varchar DEFAULT 'PENDING' NOT NULL,
+	"action" text,
+	"transactionHash" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	"deliveredAt" timestamp,
+	CONSTRAINT "KitEntitlement_kitId_type_unique" UNIQUE("kitId","type")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "KitEntitlement" ADD CONSTRAINT "KitEntitlement_kitId_StarterKit_id_fk" FOREIGN KEY ("kitId") REFERENCES "public"."StarterKit"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "AgentSpend" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"userId" varchar(42) NOT NULL,
+	"action" text NOT NULL,
+	"asset" varchar(42) NOT NULL,
+	"amount" numeric(78, 0) NOT NULL,
+	"recipient" text,
+	"createdAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "AgentSpend" ADD CONSTRAINT "AgentSpend_userId_User_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
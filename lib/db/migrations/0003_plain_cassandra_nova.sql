@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS "ActionProposal" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chatId" uuid NOT NULL,
+	"userId" varchar(42) NOT NULL,
+	"action" text NOT NULL,
+	"args" json NOT NULL,
+	"preview" json NOT NULL,
+	"status" varchar DEFAULT 'PENDING' NOT NULL,
+	"result" json,
+	"createdAt" timestamp NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	"confirmedAt" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ActionProposal" ADD CONSTRAINT "ActionProposal_chatId_Chat_id_fk" FOREIGN KEY ("chatId") REFERENCES "public"."Chat"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ActionProposal" ADD CONSTRAINT "ActionProposal_userId_User_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "AgentAction" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chatId" uuid,
+	"messageId" uuid,
+	"userId" varchar(42),
+	"action" text NOT NULL,
+	"args" json NOT NULL,
+	"status" varchar NOT NULL,
+	"result" json,
+	"error" text,
+	"transactions" json DEFAULT '[]'::json NOT NULL,
+	"createdAt" timestamp NOT NULL,
+	"completedAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "AgentAction" ADD CONSTRAINT "AgentAction_userId_User_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
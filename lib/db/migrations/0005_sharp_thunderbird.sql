@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "WalletTransaction" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"address" varchar(42) NOT NULL,
+	"chainId" integer NOT NULL,
+	"nonce" integer NOT NULL,
+	"idempotencyKey" text,
+	"status" varchar DEFAULT 'RESERVED' NOT NULL,
+	"hash" text,
+	"hashes" json DEFAULT '[]'::json NOT NULL,
+	"to" varchar(42),
+	"data" text,
+	"value" numeric(78, 0),
+	"maxFeePerGas" numeric(78, 0),
+	"maxPriorityFeePerGas" numeric(78, 0),
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	CONSTRAINT "WalletTransaction_address_chainId_nonce_unique" UNIQUE("address","chainId","nonce")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "WalletTransaction_idempotencyKey_idx" ON "WalletTransaction" USING btree ("idempotencyKey");
\ No newline at end of file
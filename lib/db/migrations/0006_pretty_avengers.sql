@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "BasenameTransfer" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"basename" text NOT NULL,
+	"networkId" varchar(64) NOT NULL,
+	"owner" varchar(42) NOT NULL,
+	"destination" varchar(42) NOT NULL,
+	"status" varchar DEFAULT 'IN_PROGRESS' NOT NULL,
+	"steps" json NOT NULL,
+	"error" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL
+);
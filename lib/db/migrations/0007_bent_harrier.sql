@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "SafeProposal" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"safeAddress" varchar(42) NOT NULL,
+	"chainId" integer NOT NULL,
+	"safeVersion" varchar(16) NOT NULL,
+	"safeTxHash" varchar(66) NOT NULL,
+	"nonce" integer NOT NULL,
+	"transaction" json NOT NULL,
+	"description" text,
+	"signatures" json DEFAULT '[]'::json NOT NULL,
+	"status" varchar DEFAULT 'PENDING' NOT NULL,
+	"executionHash" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	CONSTRAINT "SafeProposal_chainId_safeTxHash_unique" UNIQUE("chainId","safeTxHash")
+);
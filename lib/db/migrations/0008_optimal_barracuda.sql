@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "TokenMetadata" (
+	"chainId" integer NOT NULL,
+	"address" varchar(42) NOT NULL,
+	"name" text,
+	"symbol" text,
+	"decimals" integer,
+	"logo" text,
+	"isSpam" boolean DEFAULT false NOT NULL,
+	"fetchedAt" timestamp NOT NULL,
+	CONSTRAINT "TokenMetadata_chainId_address_pk" PRIMARY KEY("chainId","address")
+);
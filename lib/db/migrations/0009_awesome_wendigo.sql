@@ -0,0 +1,2 @@
+ALTER TABLE "ActionProposal" ADD COLUMN "networkId" varchar(32);--> statement-breakpoint
+ALTER TABLE "Chat" ADD COLUMN "networkId" varchar(32);
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS "CommerceEvent" (
+	"id" text PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"chargeId" text NOT NULL,
+	"createdAt" timestamp NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "StarterKit" ADD COLUMN "status" varchar DEFAULT 'ACTIVE' NOT NULL;
\ No newline at end of file
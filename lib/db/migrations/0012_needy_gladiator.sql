@@ -0,0 +1,32 @@
+CREATE TABLE IF NOT EXISTS "KitClaimCode" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kitId" uuid NOT NULL,
+	"creatorId" varchar(42) NOT NULL,
+	"codeHash" varchar(64) NOT NULL,
+	"message" text,
+	"recipientAddress" varchar(42),
+	"createdAt" timestamp NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	"revokedAt" timestamp,
+	"claimedAt" timestamp,
+	"claimerId" varchar(42),
+	CONSTRAINT "KitClaimCode_codeHash_unique" UNIQUE("codeHash")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "KitClaimCode" ADD CONSTRAINT "KitClaimCode_kitId_StarterKit_id_fk" FOREIGN KEY ("kitId") REFERENCES "public"."StarterKit"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "KitClaimCode" ADD CONSTRAINT "KitClaimCode_creatorId_User_id_fk" FOREIGN KEY ("creatorId") REFERENCES "public"."User"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "KitClaimCode" ADD CONSTRAINT "KitClaimCode_claimerId_User_id_fk" FOREIGN KEY ("claimerId") REFERENCES "public"."User"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
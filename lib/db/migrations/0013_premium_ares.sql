@@ -0,0 +1,28 @@
+-- Purchases used to be claimed for their buyer, so a buyer of several kits
+-- holds them all. Each user keeps one kit, preferring one that already
+-- delivered items, and the others go back to the buyer unclaimed to give
+-- away. Extra kits that also delivered items cannot be given away whole, so
+-- they are soft-deleted.
+WITH "ranked" AS (
+	SELECT "id", "used", row_number() OVER (
+		PARTITION BY "claimerId"
+		ORDER BY "used" DESC, "claimedAt" ASC NULLS LAST, "createdAt" ASC, "id" ASC
+	) AS "rank"
+	FROM (
+		SELECT "StarterKit".*, EXISTS (
+			SELECT 1 FROM "KitEntitlement"
+			WHERE "KitEntitlement"."kitId" = "StarterKit"."id"
+			AND "KitEntitlement"."status" <> 'PENDING'
+		) AS "used"
+		FROM "StarterKit"
+		WHERE "claimerId" IS NOT NULL AND "deletedAt" IS NULL
+	) AS "kits"
+)
+UPDATE "StarterKit"
+SET
+	"deletedAt" = CASE WHEN "ranked"."used" THEN now() END,
+	"claimerId" = CASE WHEN "ranked"."used" THEN "StarterKit"."claimerId" END,
+	"claimedAt" = CASE WHEN "ranked"."used" THEN "StarterKit"."claimedAt" END
+FROM "ranked"
+WHERE "StarterKit"."id" = "ranked"."id" AND "ranked"."rank" > 1;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "StarterKit_claimerId_unique" ON "StarterKit" USING btree ("claimerId") WHERE "StarterKit"."deletedAt" IS NULL;
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "KitClaimAttempt" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"ip" varchar(45) NOT NULL,
+	"userId" varchar(42) NOT NULL,
+	"createdAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "KitClaimAttempt" ADD CONSTRAINT "KitClaimAttempt_userId_User_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "KitClaimAttempt_ip_createdAt_idx" ON "KitClaimAttempt" USING btree ("ip","createdAt");
\ No newline at end of file
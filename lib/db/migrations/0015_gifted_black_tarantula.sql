@@ -0,0 +1,6 @@
+ALTER TABLE "SafeProposal" ADD COLUMN "proposerId" varchar(42);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "SafeProposal" ADD CONSTRAINT "SafeProposal_proposerId_User_id_fk" FOREIGN KEY ("proposerId") REFERENCES "public"."User"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,172 @@
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  generateClaimCode,
+  hashClaimCode,
+} from "@/lib/starter-kit/claim-codes";
+import { createTestStarterKit, createTestUser } from "@/test/harness/users";
+import {
+  claimAvailableStarterKit,
+  claimStarterKit,
+  getClaimedStarterKits,
+  issueKitClaimCode,
+  redeemKitClaimCode,
+  reserveWalletNonce,
+  updateWalletTransaction,
+} from "./queries";
+
+describe("claimStarterKit", () => {
+  it("gives an unclaimed kit to the user", async () => {
+    const buyer = await createTestUser();
+    const recipient = await createTestUser();
+    const kitId = await createTestStarterKit(buyer);
+
+    const result = await claimStarterKit({ kitId, userId: recipient });
+
+    expect(result).toMatchObject({ kit: { id: kitId, claimerId: recipient } });
+    expect(await getClaimedStarterKits(recipient)).toHaveLength(1);
+  });
+
+  it("does not claim a kit twice", async () => {
+    const buyer = await createTestUser();
+    const kitId = await createTestStarterKit(buyer, await createTestUser());
+
+    expect(
+      await claimStarterKit({ kitId, userId: await createTestUser() })
+    ).toEqual({ error: "unavailable" });
+  });
+
+  it("gives each user at most one kit", async () => {
+    const buyer = await createTestUser();
+    const recipient = await createTestUser();
+    await createTestStarterKit(buyer, recipient);
+
+    expect(
+      await claimStarterKit({
+        kitId: await createTestStarterKit(buyer),
+        userId: recipient,
+      })
+    ).toEqual({ error: "has_kit" });
+  });
+
+  it("gives a kit to one of several users claiming it at once", async () => {
+    const kitId = await createTestStarterKit(await createTestUser());
+    const users = await Promise.all(
+      Array.from({ length: 5 }, () => createTestUser())
+    );
+
+    const results = await Promise.all(
+      users.map((userId) => claimStarterKit({ kitId, userId }))
+    );
+
+    expect(results.filter((result) => "kit" in result)).toHaveLength(1);
+  });
+
+  it("gives one kit to a user claiming several at once", async () => {
+    const buyer = await createTestUser();
+    const recipient = await createTestUser();
+    const kitIds = await Promise.all(
+      Array.from({ length: 5 }, () => createTestStarterKit(buyer))
+    );
+
+    const results = await Promise.all(
+      kitIds.map((kitId) => claimStarterKit({ kitId, userId: recipient }))
+    );
+
+    expect(results.filter((result) => "kit" in result)).toHaveLength(1);
+    expect(results.filter((result) => "error" in result)).toEqual(
+      Array(4).fill({ error: "has_kit" })
+    );
+    expect(await getClaimedStarterKits(recipient)).toHaveLength(1);
+  });
+});
+
+describe("claimAvailableStarterKit", () => {
+  it("gives users claiming at once different kits, one each", async () => {
+    const buyer = await createTestUser();
+    await Promise.all(
+      Array.from({ length: 3 }, () => createTestStarterKit(buyer))
+    );
+    const users = await Promise.all(
+      Array.from({ length: 3 }, () => createTestUser())
+    );
+
+    // Each user claims twice, as from two tabs
+    const results = await Promise.all(
+      [...users, ...users].map((userId) => claimAvailableStarterKit(userId))
+    );
+
+    const kitIds = results.flatMap((result) =>
+      "kit" in result ? [result.kit.id] : []
+    );
+    expect(kitIds.length).toBeGreaterThan(0);
+    expect(new Set(kitIds).size).toBe(kitIds.length);
+    for (const userId of users) {
+      expect((await getClaimedStarterKits(userId)).length).toBeLessThanOrEqual(
+        1
+      );
+    }
+  });
+});
+
+describe("redeemKitClaimCode", () => {
+  it("gives the kit to a recipient who has never signed in", async () => {
+    const buyer = await createTestUser();
+    const kitId = await createTestStarterKit(buyer);
+    const codeHash = hashClaimCode(generateClaimCode());
+    await issueKitClaimCode({
+      kitId,
+      creatorId: buyer,
+      codeHash,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    const { address: recipient } = privateKeyToAccount(generatePrivateKey());
+
+    expect(
+      await redeemKitClaimCode({ codeHash, userId: recipient })
+    ).toMatchObject({ kit: { id: kitId, claimerId: recipient } });
+    expect(await redeemKitClaimCode({ codeHash, userId: recipient })).toEqual({
+      error: "claimed",
+    });
+  });
+});
+
+describe("reserveWalletNonce", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const broadcast = async (address: string, pendingNonce: number) => {
+    const reserved = await reserveWalletNonce({
+      address,
+      chainId: 84532,
+      pendingNonce,
+    });
+    await updateWalletTransaction({
+      id: reserved.id,
+      status: "PENDING",
+      hash: `0x${reserved.id.replaceAll("-", "")}`,
+    });
+    return reserved.nonce;
+  };
+
+  it("queues nonces after the pending transactions", async () => {
+    const { address } = privateKeyToAccount(generatePrivateKey());
+
+    expect(await broadcast(address, 3)).toBe(3);
+    expect(await broadcast(address, 3)).toBe(4);
+  });
+
+  it("reuses the nonces of pending transactions the node dropped", async () => {
+    const { address } = privateKeyToAccount(generatePrivateKey());
+    await broadcast(address, 0);
+    await broadcast(address, 0);
+
+    // The node mined the first transaction and dropped the second
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+
+    expect(await broadcast(address, 1)).toBe(1);
+    expect(await broadcast(address, 1)).toBe(2);
+  });
+});
@@ -1,5 +1,21 @@
 import 'server-only';
-import { and, asc, desc, eq, gt, gte, inArray, isNull, sql } from "drizzle-orm";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  notExists,
+  or,
+  sql,
+} from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import * as schema from "./schema";
@@ -15,11 +31,33 @@ import {
   vote,
   userKnowledge,
   starterKit,
+  type StarterKit,
+  kitClaimCode,
+  kitClaimAttempt,
   type UserKnowledge,
   charge,
+  commerceEvent,
   type UserWithRelations,
+  kitEntitlement,
+  type KitEntitlementType,
+  agentSpend,
+  actionProposal,
+  agentAction,
+  type AgentAction,
+  walletTransaction,
+  type WalletTransaction,
+  basenameTransfer,
+  type BasenameTransfer,
+  safeProposal,
+  type SafeProposal,
+  tokenMetadata,
+  type TokenMetadata,
 } from "./schema";
 import type { BlockKind } from "@/components/block";
+import {
+  type ClaimCodeError,
+  getClaimCodeStatus,
+} from "@/lib/starter-kit/claim-codes";
 
 // Optionally, if not using email/pass login, you can
 // use the Drizzle adapter for Auth.js / NextAuth
@@ -47,12 +85,26 @@ export async function getUser(id: string): Promise<User[]> {
       db.select().from(charge).where(eq(charge.userId, id)),
     ]);
 
+    const entitlements =
+      claimedKits.length > 0
+        ? await db
+            .select()
+            .from(kitEntitlement)
+            .where(
+              inArray(
+                kitEntitlement.kitId,
+                claimedKits.map((kit) => kit.id)
+              )
+            )
+        : [];
+
     return users.map((u) => ({
       ...u,
       information,
       createdKits,
       claimedKits,
       charges,
+      entitlements,
     }));
   } catch (error) {
     console.error("Failed to get user with related data:", error);
@@ -100,6 +152,7 @@ export async function saveChat({
 export async function deleteChatById({ id }: { id: string }) {
   try {
     await db.delete(vote).where(eq(vote.chatId, id));
+    await db.delete(actionProposal).where(eq(actionProposal.chatId, id));
     await db.delete(message).where(eq(message.chatId, id));
 
     return await db.delete(chat).where(eq(chat.id, id));
@@ -376,6 +429,21 @@ export async function updateChatVisiblityById({
   }
 }
 
+export async function updateChatNetworkById({
+  chatId,
+  networkId,
+}: {
+  chatId: string;
+  networkId: string;
+}) {
+  try {
+    return await db.update(chat).set({ networkId }).where(eq(chat.id, chatId));
+  } catch (error) {
+    console.error("Failed to update chat network in database");
+    throw error;
+  }
+}
+
 export async function saveUserInformation(
   data: Omit<UserKnowledge, "id" | "createdAt" | "deletedAt">
 ) {
@@ -466,16 +534,29 @@ export async function claimStarterKit({
 }: {
   kitId: string;
   userId: string;
-}) {
+}): Promise<KitClaimResult> {
   try {
-    return await db
+    const [kit] = await db
       .update(starterKit)
       .set({
         claimerId: userId,
         claimedAt: new Date(),
       })
-      .where(and(eq(starterKit.id, kitId), isNull(starterKit.claimerId)));
+      .where(
+        and(
+          eq(starterKit.id, kitId),
+          isNull(starterKit.claimerId),
+          eq(starterKit.status, "ACTIVE"),
+          hasNoActiveClaimCode()
+        )
+      )
+      .returning();
+
+    return kit ? { kit } : { error: "unavailable" };
   } catch (error) {
+    if (isClaimerConflict(error)) {
+      return { error: "has_kit" };
+    }
     console.error("Failed to claim starter kit");
     throw error;
   }
@@ -533,7 +614,11 @@ export async function getUnclaimedStarterKits(userId: string) {
       .select()
       .from(starterKit)
       .where(
-        and(eq(starterKit.creatorId, userId), isNull(starterKit.claimerId))
+        and(
+          eq(starterKit.creatorId, userId),
+          isNull(starterKit.claimerId),
+          eq(starterKit.status, "ACTIVE")
+        )
       )
       .orderBy(desc(starterKit.createdAt));
   } catch (error) {
@@ -568,14 +653,17 @@ export async function createCharge({
   product?: "STARTERKIT";
 }) {
   try {
-    return await db.insert(charge).values({
-      id,
-      userId,
-      amount,
-      currency,
-      product,
-      createdAt: new Date(),
-    });
+    return await db
+      .insert(charge)
+      .values({
+        id,
+        userId,
+        amount,
+        currency,
+        product,
+        createdAt: new Date(),
+      })
+      .onConflictDoNothing();
   } catch (error) {
     console.error("Failed to create charge");
     throw error;
@@ -623,6 +711,70 @@ export async function getChargeById(id: string) {
   }
 }
 
+export async function getStarterKitByChargeId(chargeId: string) {
+  try {
+    const [kit] = await db
+      .select()
+      .from(starterKit)
+      .where(eq(starterKit.chargeId, chargeId));
+    return kit;
+  } catch (error) {
+    console.error("Failed to get starter kit by charge");
+    throw error;
+  }
+}
+
+export async function updateStarterKitStatus({
+  id,
+  status,
+}: {
+  id: string;
+  status: StarterKit["status"];
+}) {
+  try {
+    return await db
+      .update(starterKit)
+      .set({ status })
+      .where(eq(starterKit.id, id));
+  } catch (error) {
+    console.error("Failed to update starter kit status");
+    throw error;
+  }
+}
+
+export async function getCommerceEventById(id: string) {
+  try {
+    const [event] = await db
+      .select()
+      .from(commerceEvent)
+      .where(eq(commerceEvent.id, id));
+    return event;
+  } catch (error) {
+    console.error("Failed to get commerce event");
+    throw error;
+  }
+}
+
+export async function saveCommerceEvent({
+  id,
+  type,
+  chargeId,
+}: {
+  id: string;
+  type: string;
+  chargeId: string;
+}) {
+  try {
+    return await db
+      .insert(commerceEvent)
+      .values({ id, type, chargeId, createdAt: new Date() })
+      .onConflictDoNothing();
+  } catch (error) {
+    console.error("Failed to save commerce event");
+    throw error;
+  }
+}
+
 export async function getUserCharges(userId: string) {
   try {
     return await db
@@ -636,12 +788,44 @@ export async function getUserCharges(userId: string) {
   }
 }
 
+export type KitClaimResult =
+  | { kit: StarterKit }
+  | { error: "unavailable" | "has_kit" };
+
+// Raised by the one kit per user index when the claimer already has a kit
+const isClaimerConflict = (error: unknown) =>
+  error instanceof postgres.PostgresError &&
+  error.code === "23505" &&
+  error.constraint_name === "StarterKit_claimerId_unique";
+
+// Kits with an active claim link are reserved for the link's recipient
+const hasNoActiveClaimCode = () =>
+  notExists(
+    db
+      .select({ id: kitClaimCode.id })
+      .from(kitClaimCode)
+      .where(
+        and(
+          eq(kitClaimCode.kitId, starterKit.id),
+          isNull(kitClaimCode.revokedAt),
+          isNull(kitClaimCode.claimedAt),
+          gt(kitClaimCode.expiresAt, new Date())
+        )
+      )
+  );
+
 export async function getAvailableStarterKits() {
   try {
     return await db
       .select()
       .from(starterKit)
-      .where(isNull(starterKit.claimerId))
+      .where(
+        and(
+          isNull(starterKit.claimerId),
+          eq(starterKit.status, "ACTIVE"),
+          hasNoActiveClaimCode()
+        )
+      )
       .orderBy(asc(starterKit.createdAt));
   } catch (error) {
     console.error("Failed to get available starter kits");
@@ -649,32 +833,1261 @@ export async function getAvailableStarterKits() {
   }
 }
 
-export async function claimAvailableStarterKit(userId: string) {
+/**
+ * Claims the oldest available kit in a single statement. Kits locked by a
+ * concurrent claim are skipped rather than waited on, so simultaneous claims
+ * each get a different kit or none.
+ */
+export async function claimAvailableStarterKit(
+  userId: string
+): Promise<KitClaimResult> {
   try {
-    // First get the oldest available starter kit
-    const [availableKit] = await db
-      .select()
-      .from(starterKit)
-      .where(isNull(starterKit.claimerId))
-      .orderBy(asc(starterKit.createdAt))
-      .limit(1);
-
-    if (!availableKit) {
-      return null;
-    }
-
-    // Claim it for the user
-    await db
+    const [kit] = await db
       .update(starterKit)
       .set({
         claimerId: userId,
         claimedAt: new Date(),
       })
-      .where(eq(starterKit.id, availableKit.id));
+      .where(
+        and(
+          isNull(starterKit.claimerId),
+          inArray(
+            starterKit.id,
+            db
+              .select({ id: starterKit.id })
+              .from(starterKit)
+              .where(
+                and(
+                  isNull(starterKit.claimerId),
+                  eq(starterKit.status, "ACTIVE"),
+                  hasNoActiveClaimCode()
+                )
+              )
+              .orderBy(asc(starterKit.createdAt))
+              .limit(1)
+              .for("update", { skipLocked: true })
+          )
+        )
+      )
+      .returning();
 
-    return availableKit;
+    return kit ? { kit } : { error: "unavailable" };
   } catch (error) {
+    if (isClaimerConflict(error)) {
+      return { error: "has_kit" };
+    }
     console.error("Failed to claim available starter kit");
     throw error;
   }
 }
+
+/**
+ * Issues a claim code for a kit the user bought and nobody has claimed yet,
+ * revoking the kit's previous codes. Returns null if the kit cannot be gifted.
+ */
+export async function issueKitClaimCode({
+  kitId,
+  creatorId,
+  codeHash,
+  message,
+  recipientAddress,
+  expiresAt,
+}: {
+  kitId: string;
+  creatorId: string;
+  codeHash: string;
+  message?: string;
+  recipientAddress?: string;
+  expiresAt: Date;
+}) {
+  try {
+    return await db.transaction(async (tx) => {
+      const [kit] = await tx
+        .select({ id: starterKit.id })
+        .from(starterKit)
+        .where(
+          and(
+            eq(starterKit.id, kitId),
+            eq(starterKit.creatorId, creatorId),
+            isNull(starterKit.claimerId),
+            eq(starterKit.status, "ACTIVE")
+          )
+        )
+        .for("update");
+
+      if (!kit) {
+        return null;
+      }
+
+      const now = new Date();
+      await tx
+        .update(kitClaimCode)
+        .set({ revokedAt: now })
+        .where(
+          and(
+            eq(kitClaimCode.kitId, kitId),
+            isNull(kitClaimCode.revokedAt),
+            isNull(kitClaimCode.claimedAt)
+          )
+        );
+
+      const [code] = await tx
+        .insert(kitClaimCode)
+        .values({
+          kitId,
+          creatorId,
+          codeHash,
+          message,
+          recipientAddress,
+          createdAt: now,
+          expiresAt,
+        })
+        .returning();
+      return code;
+    });
+  } catch (error) {
+    console.error("Failed to issue kit claim code");
+    throw error;
+  }
+}
+
+export async function revokeKitClaimCodes({
+  kitId,
+  creatorId,
+}: {
+  kitId: string;
+  creatorId: string;
+}) {
+  try {
+    return await db
+      .update(kitClaimCode)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(kitClaimCode.kitId, kitId),
+          eq(kitClaimCode.creatorId, creatorId),
+          isNull(kitClaimCode.revokedAt),
+          isNull(kitClaimCode.claimedAt)
+        )
+      )
+      .returning();
+  } catch (error) {
+    console.error("Failed to revoke kit claim codes");
+    throw error;
+  }
+}
+
+export async function getKitClaimCodeByHash(codeHash: string) {
+  try {
+    const [result] = await db
+      .select({ code: kitClaimCode, kit: starterKit })
+      .from(kitClaimCode)
+      .innerJoin(starterKit, eq(kitClaimCode.kitId, starterKit.id))
+      .where(eq(kitClaimCode.codeHash, codeHash));
+    return result;
+  } catch (error) {
+    console.error("Failed to get kit claim code");
+    throw error;
+  }
+}
+
+export async function getActiveKitClaimCodes(kitIds: Array<string>) {
+  if (kitIds.length === 0) {
+    return [];
+  }
+
+  try {
+    return await db
+      .select()
+      .from(kitClaimCode)
+      .where(
+        and(
+          inArray(kitClaimCode.kitId, kitIds),
+          isNull(kitClaimCode.revokedAt),
+          isNull(kitClaimCode.claimedAt),
+          gt(kitClaimCode.expiresAt, new Date())
+        )
+      );
+  } catch (error) {
+    console.error("Failed to get active kit claim codes");
+    throw error;
+  }
+}
+
+/**
+ * Claims the kit a code was issued for. The code is locked for the duration
+ * of the claim, so it can only be redeemed once.
+ */
+export async function redeemKitClaimCode({
+  codeHash,
+  userId,
+}: {
+  codeHash: string;
+  userId: string;
+}): Promise<{ kit: StarterKit } | { error: ClaimCodeError }> {
+  try {
+    return await db.transaction(async (tx) => {
+      const [code] = await tx
+        .select()
+        .from(kitClaimCode)
+        .where(eq(kitClaimCode.codeHash, codeHash))
+        .for("update");
+
+      if (!code) {
+        return { error: "not_found" as const };
+      }
+
+      const status = getClaimCodeStatus(code);
+      if (status !== "available") {
+        return { error: status };
+      }
+
+      if (
+        code.recipientAddress &&
+        code.recipientAddress.toLowerCase() !== userId.toLowerCase()
+      ) {
+        return { error: "wrong_recipient" as const };
+      }
+
+      // Recipients are often signing in for the first time
+      await tx.insert(user).values({ id: userId }).onConflictDoNothing();
+
+      const now = new Date();
+      const [kit] = await tx
+        .update(starterKit)
+        .set({ claimerId: userId, claimedAt: now })
+        .where(
+          and(
+            eq(starterKit.id, code.kitId),
+            isNull(starterKit.claimerId),
+            eq(starterKit.status, "ACTIVE")
+          )
+        )
+        .returning();
+
+      if (!kit) {
+        return { error: "unavailable" as const };
+      }
+
+      await tx
+        .update(kitClaimCode)
+        .set({ claimedAt: now, claimerId: userId })
+        .where(eq(kitClaimCode.id, code.id));
+
+      return { kit };
+    });
+  } catch (error) {
+    if (isClaimerConflict(error)) {
+      return { error: "has_kit" };
+    }
+    console.error("Failed to redeem kit claim code");
+    throw error;
+  }
+}
+
+/**
+ * Records a claim attempt from an IP, then counts the attempts from that IP
+ * since the given date. The attempt is counted before it is checked, so
+ * concurrent attempts cannot all fit under the limit. Claimants may not have
+ * a user row yet, so it is created with the attempt.
+ */
+export async function recordKitClaimAttempt({
+  ip,
+  userId,
+  since,
+}: {
+  ip: string;
+  userId: string;
+  since: Date;
+}) {
+  try {
+    await db.transaction(async (tx) => {
+      await tx.insert(user).values({ id: userId }).onConflictDoNothing();
+      await tx
+        .insert(kitClaimAttempt)
+        .values({ ip, userId, createdAt: new Date() });
+    });
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(kitClaimAttempt)
+      .where(
+        and(eq(kitClaimAttempt.ip, ip), gte(kitClaimAttempt.createdAt, since))
+      );
+    return count;
+  } catch (error) {
+    console.error("Failed to record kit claim attempt");
+    throw error;
+  }
+}
+
+export const KIT_ENTITLEMENT_TYPES: Array<KitEntitlementType> = [
+  "ETH_DRIP",
+  "NFT",
+  "ERC20",
+  "BASENAME",
+];
+
+// How long an entitlement can stay PROCESSING before the delivery is assumed
+// to have died with its request
+export const KIT_ENTITLEMENT_PROCESSING_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Reserves one unspent entitlement of the given type from the kits claimed by
+ * the user. Entitlement rows are created lazily for kits that predate the
+ * ledger. The reserved row is moved to PROCESSING so that concurrent tool
+ * calls cannot spend it twice; it must be settled with settleKitEntitlement
+ * or releaseKitEntitlement. FAILED entitlements are final, since their
+ * transaction reached the chain. Deliveries stuck in PROCESSING past the
+ * timeout are reserved again if they never broadcast a transaction, and
+ * failed otherwise.
+ */
+export async function reserveKitEntitlement({
+  userId,
+  type,
+  action,
+}: {
+  userId: string;
+  type: KitEntitlementType;
+  action: string;
+}) {
+  try {
+    return await db.transaction(async (tx) => {
+      const claimedKits = await tx
+        .select({ id: starterKit.id })
+        .from(starterKit)
+        .where(
+          and(
+            eq(starterKit.claimerId, userId),
+            isNull(starterKit.deletedAt),
+            eq(starterKit.status, "ACTIVE")
+          )
+        );
+
+      if (claimedKits.length === 0) {
+        return null;
+      }
+
+      const kitIds = claimedKits.map((kit) => kit.id);
+      const now = new Date();
+      const stuckBefore = new Date(
+        now.getTime() - KIT_ENTITLEMENT_PROCESSING_TIMEOUT_MS
+      );
+      const isStuck = and(
+        eq(kitEntitlement.status, "PROCESSING"),
+        lt(kitEntitlement.updatedAt, stuckBefore)
+      );
+      const isReservable = or(
+        eq(kitEntitlement.status, "PENDING"),
+        and(isStuck, isNull(kitEntitlement.transactionHash))
+      );
+
+      await tx
+        .insert(kitEntitlement)
+        .values(
+          kitIds.flatMap((kitId) =>
+            KIT_ENTITLEMENT_TYPES.map((entitlementType) => ({
+              kitId,
+              type: entitlementType,
+              createdAt: now,
+              updatedAt: now,
+            }))
+          )
+        )
+        .onConflictDoNothing();
+
+      await tx
+        .update(kitEntitlement)
+        .set({ status: "FAILED", updatedAt: now })
+        .where(
+          and(
+            inArray(kitEntitlement.kitId, kitIds),
+            isStuck,
+            isNotNull(kitEntitlement.transactionHash)
+          )
+        );
+
+      const [entitlement] = await tx
+        .select()
+        .from(kitEntitlement)
+        .where(
+          and(
+            inArray(kitEntitlement.kitId, kitIds),
+            eq(kitEntitlement.type, type),
+            isReservable
+          )
+        )
+        .orderBy(asc(kitEntitlement.createdAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+
+      if (!entitlement) {
+        return null;
+      }
+
+      const [reserved] = await tx
+        .update(kitEntitlement)
+        .set({ status: "PROCESSING", action, updatedAt: now })
+        .where(and(eq(kitEntitlement.id, entitlement.id), isReservable))
+        .returning();
+
+      return reserved ?? null;
+    });
+  } catch (error) {
+    console.error("Failed to reserve kit entitlement");
+    throw error;
+  }
+}
+
+export async function settleKitEntitlement({
+  id,
+  status,
+  transactionHash,
+}: {
+  id: string;
+  status: "DELIVERED" | "FAILED";
+  transactionHash?: string;
+}) {
+  try {
+    return await db
+      .update(kitEntitlement)
+      .set({
+        status,
+        updatedAt: new Date(),
+        ...(transactionHash && { transactionHash }),
+        ...(status === "DELIVERED" && { deliveredAt: new Date() }),
+      })
+      .where(
+        and(eq(kitEntitlement.id, id), eq(kitEntitlement.status, "PROCESSING"))
+      );
+  } catch (error) {
+    console.error("Failed to settle kit entitlement");
+    throw error;
+  }
+}
+
+/**
+ * Records the transaction a PROCESSING entitlement broadcast, once it is sent
+ * and before it is mined, so that the entitlement is never reserved again.
+ */
+export async function recordKitEntitlementTransaction({
+  id,
+  transactionHash,
+}: {
+  id: string;
+  transactionHash: string;
+}) {
+  try {
+    return await db
+      .update(kitEntitlement)
+      .set({ transactionHash, updatedAt: new Date() })
+      .where(
+        and(eq(kitEntitlement.id, id), eq(kitEntitlement.status, "PROCESSING"))
+      );
+  } catch (error) {
+    console.error("Failed to record kit entitlement transaction");
+    throw error;
+  }
+}
+
+/**
+ * Returns a PROCESSING entitlement to PENDING after a delivery failed without
+ * broadcasting a transaction.
+ *
+ * @returns The released entitlement, or undefined if it recorded a transaction
+ */
+export async function releaseKitEntitlement(id: string) {
+  try {
+    const [released] = await db
+      .update(kitEntitlement)
+      .set({ status: "PENDING", action: null, updatedAt: new Date() })
+      .where(
+        and(
+          eq(kitEntitlement.id, id),
+          eq(kitEntitlement.status, "PROCESSING"),
+          isNull(kitEntitlement.transactionHash)
+        )
+      )
+      .returning();
+    return released;
+  } catch (error) {
+    console.error("Failed to release kit entitlement");
+    throw error;
+  }
+}
+
+/**
+ * Records a spend unless it would take the total spent since the given date
+ * over one of the caps, or the user's invocations of the action over its
+ * daily limit. Spends of the same asset are serialized with an advisory lock
+ * held until the transaction ends, and so are invocations of a limited action
+ * by the same user, so concurrent spends cannot both fit under the same
+ * remaining amount.
+ *
+ * @returns The spend id, or the first cap that would be exceeded with the
+ * amount already spent against it, or the action limit that was reached
+ */
+export async function reserveAgentSpend<
+  Cap extends { scope: "user" | "global"; amount: bigint },
+  ActionCap extends { daily: number },
+>({
+  userId,
+  action,
+  asset,
+  amount,
+  recipient,
+  since,
+  caps,
+  actionLimit,
+}: {
+  userId: string;
+  action: string;
+  asset: string;
+  amount: bigint;
+  recipient?: string;
+  since: Date;
+  caps: Array<Cap>;
+  actionLimit?: ActionCap;
+}): Promise<
+  | { id: string }
+  | { exceeded: Cap; spent: bigint }
+  | { exceededAction: ActionCap; invocations: number }
+> {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(hashtext(${`AgentSpend:${asset.toLowerCase()}`}))`
+      );
+
+      if (actionLimit) {
+        await tx.execute(
+          sql`select pg_advisory_xact_lock(hashtext(${`AgentSpend:${action}:${userId}`}))`
+        );
+        const [{ invocations }] = await tx
+          .select({ invocations: count() })
+          .from(agentSpend)
+          .where(
+            and(
+              eq(agentSpend.action, action),
+              eq(agentSpend.userId, userId),
+              gte(agentSpend.createdAt, since)
+            )
+          );
+        if (invocations >= actionLimit.daily) {
+          return { exceededAction: actionLimit, invocations };
+        }
+      }
+
+      for (const cap of caps) {
+        const [{ total }] = await tx
+          .select({
+            total: sql<string>`coalesce(sum(${agentSpend.amount}), 0)`,
+          })
+          .from(agentSpend)
+          .where(
+            and(
+              eq(agentSpend.asset, asset.toLowerCase()),
+              gte(agentSpend.createdAt, since),
+              cap.scope === "user" ? eq(agentSpend.userId, userId) : undefined
+            )
+          );
+        const spent = BigInt(total);
+        if (spent + amount > cap.amount) {
+          return { exceeded: cap, spent };
+        }
+      }
+
+      const [spend] = await tx
+        .insert(agentSpend)
+        .values({
+          userId,
+          action,
+          asset: asset.toLowerCase(),
+          amount: amount.toString(),
+          recipient,
+          createdAt: new Date(),
+        })
+        .returning({ id: agentSpend.id });
+      return spend;
+    });
+  } catch (error) {
+    console.error("Failed to reserve agent spend");
+    throw error;
+  }
+}
+
+export async function deleteAgentSpend(id: string) {
+  try {
+    return await db.delete(agentSpend).where(eq(agentSpend.id, id));
+  } catch (error) {
+    console.error("Failed to delete agent spend");
+    throw error;
+  }
+}
+
+export async function createActionProposal({
+  chatId,
+  userId,
+  action,
+  args,
+  preview,
+  networkId,
+  expiresAt,
+}: {
+  chatId: string;
+  userId: string;
+  action: string;
+  args: Record<string, unknown>;
+  preview: Record<string, unknown>;
+  networkId?: string;
+  expiresAt: Date;
+}) {
+  try {
+    const [proposal] = await db
+      .insert(actionProposal)
+      .values({
+        chatId,
+        userId,
+        action,
+        args,
+        preview,
+        networkId,
+        createdAt: new Date(),
+        expiresAt,
+      })
+      .returning();
+    return proposal;
+  } catch (error) {
+    console.error("Failed to create action proposal");
+    throw error;
+  }
+}
+
+export async function getActionProposalById(id: string) {
+  try {
+    const [proposal] = await db
+      .select()
+      .from(actionProposal)
+      .where(eq(actionProposal.id, id));
+    return proposal;
+  } catch (error) {
+    console.error("Failed to get action proposal");
+    throw error;
+  }
+}
+
+/**
+ * Moves a pending, unexpired proposal to EXECUTING. Only one caller can win,
+ * so a replayed confirmation returns undefined.
+ */
+export async function startActionProposal({
+  id,
+  userId,
+}: {
+  id: string;
+  userId: string;
+}) {
+  try {
+    const now = new Date();
+    const [proposal] = await db
+      .update(actionProposal)
+      .set({ status: "EXECUTING", confirmedAt: now })
+      .where(
+        and(
+          eq(actionProposal.id, id),
+          eq(actionProposal.userId, userId),
+          eq(actionProposal.status, "PENDING"),
+          gt(actionProposal.expiresAt, now)
+        )
+      )
+      .returning();
+    return proposal;
+  } catch (error) {
+    console.error("Failed to start action proposal");
+    throw error;
+  }
+}
+
+export async function settleActionProposal({
+  id,
+  status,
+  result,
+}: {
+  id: string;
+  status: "EXECUTED" | "FAILED";
+  result: unknown;
+}) {
+  try {
+    return await db
+      .update(actionProposal)
+      .set({ status, result })
+      .where(
+        and(eq(actionProposal.id, id), eq(actionProposal.status, "EXECUTING"))
+      );
+  } catch (error) {
+    console.error("Failed to settle action proposal");
+    throw error;
+  }
+}
+
+export async function cancelActionProposal({
+  id,
+  userId,
+}: {
+  id: string;
+  userId: string;
+}) {
+  try {
+    const [proposal] = await db
+      .update(actionProposal)
+      .set({ status: "CANCELLED" })
+      .where(
+        and(
+          eq(actionProposal.id, id),
+          eq(actionProposal.userId, userId),
+          eq(actionProposal.status, "PENDING")
+        )
+      )
+      .returning();
+    return proposal;
+  } catch (error) {
+    console.error("Failed to cancel action proposal");
+    throw error;
+  }
+}
+
+export async function saveAgentAction(
+  data: Omit<AgentAction, "id" | "transactions"> & {
+    transactions?: AgentAction["transactions"];
+  }
+) {
+  try {
+    return await db.insert(agentAction).values(data);
+  } catch (error) {
+    console.error("Failed to save agent action", error);
+    throw error;
+  }
+}
+
+export async function getAgentActionsByUserId({
+  userId,
+  chatId,
+  action,
+  status,
+  from,
+  to,
+  before,
+  limit,
+}: {
+  userId: string;
+  chatId?: string;
+  action?: string;
+  status?: AgentAction["status"];
+  from?: Date;
+  to?: Date;
+  before?: Date;
+  limit: number;
+}) {
+  try {
+    return await db
+      .select()
+      .from(agentAction)
+      .where(
+        and(
+          eq(agentAction.userId, userId),
+          chatId ? eq(agentAction.chatId, chatId) : undefined,
+          action ? eq(agentAction.action, action) : undefined,
+          status ? eq(agentAction.status, status) : undefined,
+          from ? gte(agentAction.createdAt, from) : undefined,
+          to ? lte(agentAction.createdAt, to) : undefined,
+          before ? lt(agentAction.createdAt, before) : undefined
+        )
+      )
+      .orderBy(desc(agentAction.createdAt))
+      .limit(limit);
+  } catch (error) {
+    console.error("Failed to get agent actions");
+    throw error;
+  }
+}
+
+// A reservation that was never broadcast within this window is assumed to
+// belong to a crashed request, and a pending transaction the node does not
+// have after it to have been dropped. Either way its nonce is handed out again.
+const STALE_NONCE_RESERVATION_MS = 2 * 60 * 1000;
+
+/**
+ * Allocates the next nonce for a wallet. Allocations are serialized per
+ * wallet and chain with an advisory lock, and nonces that were reserved but
+ * never broadcast, or whose transaction the node dropped, are reused first so
+ * that they do not leave a gap.
+ */
+export async function reserveWalletNonce({
+  address,
+  chainId,
+  pendingNonce,
+  idempotencyKey,
+  to,
+  data,
+  value,
+}: {
+  address: string;
+  chainId: number;
+  pendingNonce: number;
+  idempotencyKey?: string;
+  to?: string;
+  data?: string;
+  value?: bigint;
+}) {
+  const walletAddress = address.toLowerCase();
+
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(hashtext(${`${walletAddress}:${chainId}`}))`
+      );
+
+      const now = new Date();
+      const values = {
+        idempotencyKey: idempotencyKey ?? null,
+        status: "RESERVED" as const,
+        hash: null,
+        hashes: [],
+        to: to ?? null,
+        data: data ?? null,
+        value: value?.toString() ?? null,
+        maxFeePerGas: null,
+        maxPriorityFeePerGas: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      // A pending transaction at or above the node's pending nonce is not in
+      // its mempool. Once it is old enough not to be a broadcast the node has
+      // yet to see, it was dropped and its nonce is unused.
+      await tx
+        .update(walletTransaction)
+        .set({ status: "ABANDONED", updatedAt: now })
+        .where(
+          and(
+            eq(walletTransaction.address, walletAddress),
+            eq(walletTransaction.chainId, chainId),
+            eq(walletTransaction.status, "PENDING"),
+            gte(walletTransaction.nonce, pendingNonce),
+            lt(
+              walletTransaction.updatedAt,
+              new Date(now.getTime() - STALE_NONCE_RESERVATION_MS)
+            )
+          )
+        );
+
+      const [abandoned] = await tx
+        .select({ id: walletTransaction.id })
+        .from(walletTransaction)
+        .where(
+          and(
+            eq(walletTransaction.address, walletAddress),
+            eq(walletTransaction.chainId, chainId),
+            gte(walletTransaction.nonce, pendingNonce),
+            or(
+              eq(walletTransaction.status, "ABANDONED"),
+              and(
+                eq(walletTransaction.status, "RESERVED"),
+                lt(
+                  walletTransaction.updatedAt,
+                  new Date(now.getTime() - STALE_NONCE_RESERVATION_MS)
+                )
+              )
+            )
+          )
+        )
+        .orderBy(asc(walletTransaction.nonce))
+        .limit(1);
+
+      if (abandoned) {
+        const [reserved] = await tx
+          .update(walletTransaction)
+          .set(values)
+          .where(eq(walletTransaction.id, abandoned.id))
+          .returning();
+        return reserved;
+      }
+
+      const [{ maxNonce }] = await tx
+        .select({
+          maxNonce: sql<number | null>`max(${walletTransaction.nonce})`,
+        })
+        .from(walletTransaction)
+        .where(
+          and(
+            eq(walletTransaction.address, walletAddress),
+            eq(walletTransaction.chainId, chainId),
+            inArray(walletTransaction.status, ["RESERVED", "PENDING"])
+          )
+        );
+
+      const nonce =
+        maxNonce === null
+          ? pendingNonce
+          : Math.max(pendingNonce, Number(maxNonce) + 1);
+
+      const [reserved] = await tx
+        .insert(walletTransaction)
+        .values({ ...values, address: walletAddress, chainId, nonce })
+        .returning();
+      return reserved;
+    });
+  } catch (error) {
+    console.error("Failed to reserve wallet nonce");
+    throw error;
+  }
+}
+
+export async function getWalletTransactionByIdempotencyKey({
+  address,
+  chainId,
+  idempotencyKey,
+  since,
+}: {
+  address: string;
+  chainId: number;
+  idempotencyKey: string;
+  since: Date;
+}) {
+  try {
+    const [transaction] = await db
+      .select()
+      .from(walletTransaction)
+      .where(
+        and(
+          eq(walletTransaction.address, address.toLowerCase()),
+          eq(walletTransaction.chainId, chainId),
+          eq(walletTransaction.idempotencyKey, idempotencyKey),
+          inArray(walletTransaction.status, ["PENDING", "CONFIRMED"]),
+          gte(walletTransaction.createdAt, since)
+        )
+      )
+      .orderBy(desc(walletTransaction.createdAt))
+      .limit(1);
+    return transaction;
+  } catch (error) {
+    console.error("Failed to get wallet transaction by idempotency key");
+    throw error;
+  }
+}
+
+export async function getWalletTransactionByHash(hash: string) {
+  try {
+    const [transaction] = await db
+      .select()
+      .from(walletTransaction)
+      .where(eq(walletTransaction.hash, hash))
+      .limit(1);
+    return transaction;
+  } catch (error) {
+    console.error("Failed to get wallet transaction by hash");
+    throw error;
+  }
+}
+
+export async function updateWalletTransaction({
+  id,
+  ...data
+}: Pick<WalletTransaction, "id"> &
+  Partial<
+    Pick<
+      WalletTransaction,
+      "status" | "hash" | "hashes" | "maxFeePerGas" | "maxPriorityFeePerGas"
+    >
+  >) {
+  try {
+    return await db
+      .update(walletTransaction)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(walletTransaction.id, id));
+  } catch (error) {
+    console.error("Failed to update wallet transaction");
+    throw error;
+  }
+}
+
+export async function createBasenameTransfer(
+  data: Pick<
+    BasenameTransfer,
+    "basename" | "networkId" | "owner" | "destination" | "steps"
+  >
+) {
+  try {
+    const now = new Date();
+    const [transfer] = await db
+      .insert(basenameTransfer)
+      .values({
+        ...data,
+        owner: data.owner.toLowerCase(),
+        destination: data.destination.toLowerCase(),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    return transfer;
+  } catch (error) {
+    console.error("Failed to create basename transfer");
+    throw error;
+  }
+}
+
+export async function getLatestBasenameTransfer({
+  basename,
+  networkId,
+}: {
+  basename: string;
+  networkId: string;
+}) {
+  try {
+    const [transfer] = await db
+      .select()
+      .from(basenameTransfer)
+      .where(
+        and(
+          eq(basenameTransfer.basename, basename),
+          eq(basenameTransfer.networkId, networkId)
+        )
+      )
+      .orderBy(desc(basenameTransfer.createdAt))
+      .limit(1);
+    return transfer;
+  } catch (error) {
+    console.error("Failed to get basename transfer");
+    throw error;
+  }
+}
+
+export async function updateBasenameTransfer({
+  id,
+  ...data
+}: Pick<BasenameTransfer, "id"> &
+  Partial<Pick<BasenameTransfer, "status" | "steps" | "error">>) {
+  try {
+    return await db
+      .update(basenameTransfer)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(basenameTransfer.id, id));
+  } catch (error) {
+    console.error("Failed to update basename transfer");
+    throw error;
+  }
+}
+
+export async function createSafeProposal(
+  data: Pick<
+    SafeProposal,
+    | "safeAddress"
+    | "chainId"
+    | "safeVersion"
+    | "safeTxHash"
+    | "nonce"
+    | "transaction"
+    | "description"
+  >
+) {
+  try {
+    const now = new Date();
+    const [proposal] = await db
+      .insert(safeProposal)
+      .values({
+        ...data,
+        safeAddress: data.safeAddress.toLowerCase(),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    return proposal;
+  } catch (error) {
+    console.error("Failed to create safe proposal");
+    throw error;
+  }
+}
+
+export async function getSafeProposalById(id: string) {
+  try {
+    const [proposal] = await db
+      .select()
+      .from(safeProposal)
+      .where(eq(safeProposal.id, id));
+    return proposal;
+  } catch (error) {
+    console.error("Failed to get safe proposal");
+    throw error;
+  }
+}
+
+export async function getPendingSafeProposals({
+  safeAddress,
+  chainId,
+}: {
+  safeAddress: string;
+  chainId: number;
+}) {
+  try {
+    return await db
+      .select()
+      .from(safeProposal)
+      .where(
+        and(
+          eq(safeProposal.safeAddress, safeAddress.toLowerCase()),
+          eq(safeProposal.chainId, chainId),
+          eq(safeProposal.status, "PENDING")
+        )
+      )
+      .orderBy(asc(safeProposal.nonce));
+  } catch (error) {
+    console.error("Failed to get pending safe proposals");
+    throw error;
+  }
+}
+
+/**
+ * Records the user who proposed a safe transaction, once. Proposals created
+ * before the proposer was recorded belong to nobody.
+ */
+export async function setSafeProposalProposer({
+  id,
+  proposerId,
+}: {
+  id: string;
+  proposerId: string;
+}) {
+  try {
+    return await db
+      .update(safeProposal)
+      .set({ proposerId, updatedAt: new Date() })
+      .where(and(eq(safeProposal.id, id), isNull(safeProposal.proposerId)));
+  } catch (error) {
+    console.error("Failed to set safe proposal proposer");
+    throw error;
+  }
+}
+
+/**
+ * Adds a signature to a pending proposal. Signatures are appended in a single
+ * statement so that co-owners signing at the same time do not overwrite each
+ * other, and a signer is only ever recorded once.
+ */
+export async function addSafeProposalSignature({
+  id,
+  signer,
+  data,
+}: {
+  id: string;
+  signer: string;
+  data: string;
+}) {
+  try {
+    const [proposal] = await db
+      .update(safeProposal)
+      .set({
+        signatures: sql`(${safeProposal.signatures}::jsonb || ${JSON.stringify([
+          { signer: signer.toLowerCase(), data },
+        ])}::jsonb)::json`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(safeProposal.id, id),
+          eq(safeProposal.status, "PENDING"),
+          sql`not (${safeProposal.signatures}::jsonb @> ${JSON.stringify([
+            { signer: signer.toLowerCase() },
+          ])}::jsonb)`
+        )
+      )
+      .returning();
+    return proposal;
+  } catch (error) {
+    console.error("Failed to add safe proposal signature");
+    throw error;
+  }
+}
+
+export async function settleSafeProposal({
+  id,
+  status,
+  executionHash,
+}: {
+  id: string;
+  status: "EXECUTED" | "FAILED";
+  executionHash?: string;
+}) {
+  try {
+    return await db
+      .update(safeProposal)
+      .set({ status, executionHash, updatedAt: new Date() })
+      .where(eq(safeProposal.id, id));
+  } catch (error) {
+    console.error("Failed to settle safe proposal");
+    throw error;
+  }
+}
+
+export async function getTokenMetadata({
+  chainId,
+  addresses,
+  since,
+}: {
+  chainId: number;
+  addresses: Array<string>;
+  since: Date;
+}): Promise<Array<TokenMetadata>> {
+  if (addresses.length === 0) {
+    return [];
+  }
+
+  try {
+    return await db
+      .select()
+      .from(tokenMetadata)
+      .where(
+        and(
+          eq(tokenMetadata.chainId, chainId),
+          inArray(
+            tokenMetadata.address,
+            addresses.map((address) => address.toLowerCase())
+          ),
+          gte(tokenMetadata.fetchedAt, since)
+        )
+      );
+  } catch (error) {
+    console.error("Failed to get token metadata from database");
+    throw error;
+  }
+}
+
+export async function saveTokenMetadata(entries: Array<TokenMetadata>) {
+  if (entries.length === 0) {
+    return;
+  }
+
+  try {
+    return await db
+      .insert(tokenMetadata)
+      .values(
+        entries.map((entry) => ({
+          ...entry,
+          address: entry.address.toLowerCase(),
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [tokenMetadata.chainId, tokenMetadata.address],
+        set: {
+          name: sql`excluded."name"`,
+          symbol: sql`excluded."symbol"`,
+          decimals: sql`excluded."decimals"`,
+          logo: sql`excluded."logo"`,
+          isSpam: sql`excluded."isSpam"`,
+          fetchedAt: sql`excluded."fetchedAt"`,
+        },
+      });
+  } catch (error) {
+    console.error("Failed to save token metadata in database");
+    throw error;
+  }
+}
@@ -1,4 +1,4 @@
-import type { InferSelectModel } from 'drizzle-orm';
+import { type InferSelectModel, sql } from 'drizzle-orm';
 import {
   pgTable,
   varchar,
@@ -10,6 +10,11 @@ import {
   foreignKey,
   boolean,
   bigint,
+  unique,
+  numeric,
+  integer,
+  index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 
 export const user = pgTable("User", {
@@ -51,18 +56,240 @@ export const charge = pgTable("Charge", {
   transactionHash: text("transactionHash"),
 });
 
-export const starterKit = pgTable("StarterKit", {
+// Coinbase Commerce webhook events already handled, so redeliveries are skipped
+export const commerceEvent = pgTable("CommerceEvent", {
+  id: text("id").primaryKey().notNull(),
+  type: text("type").notNull(),
+  chargeId: text("chargeId").notNull(),
+  createdAt: timestamp("createdAt").notNull(),
+});
+
+export const starterKit = pgTable(
+  "StarterKit",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    creatorId: varchar("creatorId", { length: 42 }).references(() => user.id),
+    claimerId: varchar("claimerId", { length: 42 }).references(() => user.id),
+    chargeId: text("chargeId").references(() => charge.id),
+    createdAt: timestamp("createdAt").notNull(),
+    claimedAt: timestamp("claimedAt"),
+    value: bigint("value", { mode: "number" }).notNull(),
+    balance: bigint("balance", { mode: "number" }).notNull().default(0),
+    deletedAt: timestamp("deletedAt"),
+    // Follows the charge paying for the kit, only active kits can be claimed
+    // and spent
+    status: varchar("status", { enum: ["PENDING", "ACTIVE", "REVOKED"] })
+      .notNull()
+      .default("ACTIVE"),
+  },
+  (table) => ({
+    // Each user can hold at most one kit
+    claimerUnique: uniqueIndex("StarterKit_claimerId_unique")
+      .on(table.claimerId)
+      .where(sql`${table.deletedAt} IS NULL`),
+  })
+);
+
+// Single-use links for a buyer to gift a specific kit. Only a hash of the code
+// is stored, the buyer sees the code once and can revoke and reissue it.
+export const kitClaimCode = pgTable("KitClaimCode", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
-  creatorId: varchar("creatorId", { length: 42 }).references(() => user.id),
-  claimerId: varchar("claimerId", { length: 42 }).references(() => user.id),
-  chargeId: text("chargeId").references(() => charge.id),
+  kitId: uuid("kitId")
+    .notNull()
+    .references(() => starterKit.id),
+  creatorId: varchar("creatorId", { length: 42 })
+    .notNull()
+    .references(() => user.id),
+  codeHash: varchar("codeHash", { length: 64 }).notNull().unique(),
+  message: text("message"),
+  // Only this address can claim the kit, when set
+  recipientAddress: varchar("recipientAddress", { length: 42 }),
   createdAt: timestamp("createdAt").notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  revokedAt: timestamp("revokedAt"),
   claimedAt: timestamp("claimedAt"),
-  value: bigint("value", { mode: "number" }).notNull(),
-  balance: bigint("balance", { mode: "number" }).notNull().default(0),
-  deletedAt: timestamp("deletedAt"),
+  claimerId: varchar("claimerId", { length: 42 }).references(() => user.id),
+});
+
+// Each starter kit claim attempt, to rate limit claims per IP
+export const kitClaimAttempt = pgTable(
+  "KitClaimAttempt",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    ip: varchar("ip", { length: 45 }).notNull(),
+    userId: varchar("userId", { length: 42 })
+      .notNull()
+      .references(() => user.id),
+    createdAt: timestamp("createdAt").notNull(),
+  },
+  (table) => ({
+    ipCreatedAtIndex: index("KitClaimAttempt_ip_createdAt_idx").on(
+      table.ip,
+      table.createdAt
+    ),
+  })
+);
+
+export const kitEntitlement = pgTable(
+  "KitEntitlement",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    kitId: uuid("kitId")
+      .notNull()
+      .references(() => starterKit.id),
+    type: varchar("type", {
+      enum: ["ETH_DRIP", "NFT", "ERC20", "BASENAME"],
+    }).notNull(),
+    status: varchar("status", {
+      enum: ["PENDING", "PROCESSING", "DELIVERED", "FAILED"],
+    })
+      .notNull()
+      .default("PENDING"),
+    action: text("action"),
+    transactionHash: text("transactionHash"),
+    createdAt: timestamp("createdAt").notNull(),
+    updatedAt: timestamp("updatedAt").notNull(),
+    deliveredAt: timestamp("deliveredAt"),
+  },
+  (table) => ({
+    kitTypeUnique: unique().on(table.kitId, table.type),
+  })
+);
+
+export const agentSpend = pgTable("AgentSpend", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  userId: varchar("userId", { length: 42 })
+    .notNull()
+    .references(() => user.id),
+  action: text("action").notNull(),
+  asset: varchar("asset", { length: 42 }).notNull(), // "native" or token address
+  amount: numeric("amount", { precision: 78, scale: 0 }).notNull(),
+  recipient: text("recipient"),
+  createdAt: timestamp("createdAt").notNull(),
+});
+
+export const walletTransaction = pgTable(
+  "WalletTransaction",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    address: varchar("address", { length: 42 }).notNull(),
+    chainId: integer("chainId").notNull(),
+    nonce: integer("nonce").notNull(),
+    idempotencyKey: text("idempotencyKey"),
+    status: varchar("status", {
+      enum: ["RESERVED", "PENDING", "CONFIRMED", "REVERTED", "ABANDONED"],
+    })
+      .notNull()
+      .default("RESERVED"),
+    hash: text("hash"),
+    // Every hash broadcast for this nonce, including replaced transactions
+    hashes: json("hashes").$type<Array<string>>().notNull().default([]),
+    to: varchar("to", { length: 42 }),
+    data: text("data"),
+    value: numeric("value", { precision: 78, scale: 0 }),
+    maxFeePerGas: numeric("maxFeePerGas", { precision: 78, scale: 0 }),
+    maxPriorityFeePerGas: numeric("maxPriorityFeePerGas", {
+      precision: 78,
+      scale: 0,
+    }),
+    createdAt: timestamp("createdAt").notNull(),
+    updatedAt: timestamp("updatedAt").notNull(),
+  },
+  (table) => ({
+    nonceUnique: unique().on(table.address, table.chainId, table.nonce),
+    idempotencyKeyIndex: index("WalletTransaction_idempotencyKey_idx").on(
+      table.idempotencyKey
+    ),
+  })
+);
+
+export type BasenameTransferStep = {
+  name: "set_addr" | "set_name" | "reclaim" | "transfer";
+  status: "PENDING" | "CONFIRMED";
+  transactionHash?: string;
+};
+
+export const basenameTransfer = pgTable("BasenameTransfer", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  basename: text("basename").notNull(),
+  networkId: varchar("networkId", { length: 64 }).notNull(),
+  owner: varchar("owner", { length: 42 }).notNull(),
+  destination: varchar("destination", { length: 42 }).notNull(),
+  status: varchar("status", {
+    enum: ["IN_PROGRESS", "COMPLETED", "FAILED"],
+  })
+    .notNull()
+    .default("IN_PROGRESS"),
+  steps: json("steps").$type<Array<BasenameTransferStep>>().notNull(),
+  error: text("error"),
+  createdAt: timestamp("createdAt").notNull(),
+  updatedAt: timestamp("updatedAt").notNull(),
 });
 
+export type SafeTransactionFields = {
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: number;
+};
+
+export const safeProposal = pgTable(
+  "SafeProposal",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    safeAddress: varchar("safeAddress", { length: 42 }).notNull(),
+    chainId: integer("chainId").notNull(),
+    safeVersion: varchar("safeVersion", { length: 16 }).notNull(),
+    safeTxHash: varchar("safeTxHash", { length: 66 }).notNull(),
+    nonce: integer("nonce").notNull(),
+    transaction: json("transaction").$type<SafeTransactionFields>().notNull(),
+    description: text("description"),
+    // The user the agent signs and executes the proposal for
+    proposerId: varchar("proposerId", { length: 42 }).references(
+      () => user.id
+    ),
+    signatures: json("signatures")
+      .$type<Array<{ signer: string; data: string }>>()
+      .notNull()
+      .default([]),
+    status: varchar("status", {
+      enum: ["PENDING", "EXECUTED", "FAILED"],
+    })
+      .notNull()
+      .default("PENDING"),
+    executionHash: text("executionHash"),
+    createdAt: timestamp("createdAt").notNull(),
+    updatedAt: timestamp("updatedAt").notNull(),
+  },
+  (table) => ({
+    safeTxHashUnique: unique().on(table.chainId, table.safeTxHash),
+  })
+);
+
+// Cached alchemy_getTokenMetadata results, shared by every wallet lookup
+export const tokenMetadata = pgTable(
+  "TokenMetadata",
+  {
+    chainId: integer("chainId").notNull(),
+    address: varchar("address", { length: 42 }).notNull(),
+    name: text("name"),
+    symbol: text("symbol"),
+    decimals: integer("decimals"),
+    logo: text("logo"),
+    isSpam: boolean("isSpam").notNull().default(false),
+    fetchedAt: timestamp("fetchedAt").notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.chainId, table.address] }),
+  })
+);
+
 export type User = InferSelectModel<typeof user>;
 
 export type UserWithRelations = User & {
@@ -70,6 +297,7 @@ export type UserWithRelations = User & {
   createdKits: Array<StarterKit>;
   claimedKits: Array<StarterKit>;
   charges: Array<Charge>;
+  entitlements: Array<KitEntitlement>;
 };
 
 export const chat = pgTable("Chat", {
@@ -82,6 +310,8 @@ export const chat = pgTable("Chat", {
   visibility: varchar("visibility", { enum: ["public", "private"] })
     .notNull()
     .default("private"),
+  // The network the agent operates on, the default network when unset
+  networkId: varchar("networkId", { length: 32 }),
 });
 
 export type Chat = InferSelectModel<typeof chat>;
@@ -98,6 +328,55 @@ export const message = pgTable("Message", {
 
 export type Message = InferSelectModel<typeof message>;
 
+export const actionProposal = pgTable("ActionProposal", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  chatId: uuid("chatId")
+    .notNull()
+    .references(() => chat.id),
+  userId: varchar("userId", { length: 42 })
+    .notNull()
+    .references(() => user.id),
+  action: text("action").notNull(),
+  args: json("args").notNull(),
+  preview: json("preview").notNull(),
+  // The network the action runs on when confirmed
+  networkId: varchar("networkId", { length: 32 }),
+  status: varchar("status", {
+    enum: ["PENDING", "EXECUTING", "EXECUTED", "FAILED", "CANCELLED"],
+  })
+    .notNull()
+    .default("PENDING"),
+  result: json("result"),
+  createdAt: timestamp("createdAt").notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  confirmedAt: timestamp("confirmedAt"),
+});
+
+export type ActionProposal = InferSelectModel<typeof actionProposal>;
+
+export const agentAction = pgTable("AgentAction", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  // Not foreign keys, so that the log outlives deleted chats
+  chatId: uuid("chatId"),
+  messageId: uuid("messageId"),
+  userId: varchar("userId", { length: 42 }).references(() => user.id),
+  action: text("action").notNull(),
+  args: json("args").notNull(),
+  status: varchar("status", { enum: ["SUCCESS", "FAILED"] }).notNull(),
+  result: json("result"),
+  error: text("error"),
+  transactions: json("transactions")
+    .$type<
+      Array<{ hash: string; blockNumber?: string; gasUsed?: string }>
+    >()
+    .notNull()
+    .default([]),
+  createdAt: timestamp("createdAt").notNull(),
+  completedAt: timestamp("completedAt").notNull(),
+});
+
+export type AgentAction = InferSelectModel<typeof agentAction>;
+
 export const vote = pgTable(
   "Vote",
   {
@@ -171,4 +450,22 @@ export type UserKnowledge = InferSelectModel<typeof userKnowledge>;
 
 export type StarterKit = InferSelectModel<typeof starterKit>;
 
+export type KitClaimCode = InferSelectModel<typeof kitClaimCode>;
+
+export type KitClaimAttempt = InferSelectModel<typeof kitClaimAttempt>;
+
 export type Charge = InferSelectModel<typeof charge>;
+
+export type KitEntitlement = InferSelectModel<typeof kitEntitlement>;
+
+export type KitEntitlementType = KitEntitlement["type"];
+
+export type AgentSpend = InferSelectModel<typeof agentSpend>;
+
+export type WalletTransaction = InferSelectModel<typeof walletTransaction>;
+
+export type BasenameTransfer = InferSelectModel<typeof basenameTransfer>;
+
+export type SafeProposal = InferSelectModel<typeof safeProposal>;
+
+export type TokenMetadata = InferSelectModel<typeof tokenMetadata>;
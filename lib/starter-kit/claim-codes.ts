@@ -0,0 +1,75 @@
+import { createHash, randomInt } from "node:crypto";
+import type { KitClaimCode } from "@/lib/db/schema";
+
+// Without 0/O, 1/I/L and U, so codes can be read out and typed in
+const CLAIM_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTVWXYZ23456789";
+const CLAIM_CODE_GROUPS = 3;
+const CLAIM_CODE_GROUP_LENGTH = 4;
+
+export const DEFAULT_CLAIM_CODE_TTL_DAYS = 7;
+export const MAX_CLAIM_CODE_TTL_DAYS = 30;
+
+/**
+ * Why a claim code cannot be redeemed
+ */
+export type ClaimCodeError =
+  | "not_found"
+  | "claimed"
+  | "revoked"
+  | "expired"
+  | "wrong_recipient"
+  | "unavailable"
+  | "has_kit";
+
+export const CLAIM_CODE_ERRORS: Record<ClaimCodeError, string> = {
+  not_found: "This claim code does not exist",
+  claimed: "This starter kit has already been claimed",
+  revoked: "This claim link was revoked by the sender",
+  expired: "This claim link has expired",
+  wrong_recipient: "This starter kit was gifted to a different address",
+  unavailable: "This starter kit is no longer available",
+  has_kit: "You already have a starter kit",
+};
+
+/**
+ * Generates a random claim code, like 7KQ2-M9XD-HT4P
+ * @returns The claim code
+ */
+export function generateClaimCode(): string {
+  return Array.from({ length: CLAIM_CODE_GROUPS }, () =>
+    Array.from(
+      { length: CLAIM_CODE_GROUP_LENGTH },
+      () => CLAIM_CODE_ALPHABET[randomInt(CLAIM_CODE_ALPHABET.length)]
+    ).join("")
+  ).join("-");
+}
+
+/**
+ * Hashes a claim code for storage and lookup, ignoring case, spaces and dashes
+ * @param code The claim code as entered or taken from the link
+ * @returns The hex SHA-256 of the normalized code
+ */
+export function hashClaimCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Whether a claim code can still be redeemed
+ * @param code The claim code row
+ * @returns "available", or why it cannot be redeemed
+ */
+export function getClaimCodeStatus(
+  code: Pick<KitClaimCode, "claimedAt" | "revokedAt" | "expiresAt">
+): "available" | "claimed" | "revoked" | "expired" {
+  if (code.claimedAt) {
+    return "claimed";
+  }
+  if (code.revokedAt) {
+    return "revoked";
+  }
+  if (code.expiresAt.getTime() <= Date.now()) {
+    return "expired";
+  }
+  return "available";
+}
@@ -0,0 +1,151 @@
+import { CLAIM_CODE_ERRORS } from "@/lib/starter-kit/claim-codes";
+import type {
+  ClaimAttemptStore,
+  EligibilityCheck,
+  EligibilityPolicy,
+  IdentityClient,
+} from "./types";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * The IP a request came from, as seen by the proxy in front of the app.
+ * Clients can send any X-Forwarded-For, so only the entries appended by the
+ * trusted proxies are read: the one appended by the outermost proxy, counted
+ * from the right. When the proxy sets a header of its own, like x-real-ip on
+ * Vercel, name it in TRUSTED_IP_HEADER instead.
+ *
+ * @param headers - The request headers
+ * @param options - The header set by the proxy, or the number of proxies
+ * appending to X-Forwarded-For
+ * @returns The IP, or undefined if the proxy did not report one
+ */
+export const getRequestIp = (
+  headers: Headers,
+  {
+    header = process.env.TRUSTED_IP_HEADER,
+    proxies = Number(process.env.TRUSTED_PROXY_COUNT ?? 1),
+  }: { header?: string; proxies?: number } = {}
+) => {
+  if (header) {
+    return headers.get(header)?.trim() || undefined;
+  }
+
+  const forwarded = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return Number.isInteger(proxies) && proxies > 0
+    ? forwarded.at(-proxies)
+    : undefined;
+};
+
+/**
+ * Refuses claims from users who already hold a kit, before any attempt is
+ * counted against their IP.
+ */
+export const kitHolderCheck = (
+  hasKit: (userId: string) => Promise<boolean>
+): EligibilityCheck => ({
+  rule: "has_kit",
+  check: async ({ userId }) =>
+    (await hasKit(userId))
+      ? { passed: false, message: CLAIM_CODE_ERRORS.has_kit }
+      : { passed: true },
+});
+
+/**
+ * Limits the claim attempts from one IP. Claims from an unknown IP are
+ * refused, as they could not be counted.
+ */
+export const rateLimitCheck = (
+  store: ClaimAttemptStore,
+  { attempts, windowHours }: EligibilityPolicy["rateLimit"]
+): EligibilityCheck => ({
+  rule: "rate_limit",
+  check: async ({ userId, ip }) => {
+    if (!ip) {
+      return {
+        passed: false,
+        message:
+          "The network the claim came from could not be determined, so it cannot be rate limited",
+      };
+    }
+
+    const count = await store.record({
+      ip,
+      userId,
+      since: new Date(Date.now() - windowHours * HOUR),
+    });
+    return count <= attempts
+      ? { passed: true }
+      : {
+          passed: false,
+          message: `Too many starter kit claims from this network, try again within ${windowHours} hours`,
+        };
+  },
+});
+
+export const allowlistCheck = (allowlist: Array<string>): EligibilityCheck => {
+  const addresses = new Set(allowlist.map((address) => address.toLowerCase()));
+
+  return {
+    rule: "allowlist",
+    check: async ({ userId }) =>
+      addresses.has(userId.toLowerCase())
+        ? { passed: true }
+        : { passed: false, message: "The wallet is not on the allowlist" },
+  };
+};
+
+export const basenameCheck = (client: IdentityClient): EligibilityCheck => ({
+  rule: "basename",
+  check: async ({ userId }) =>
+    (await client.getBasenameCount(userId)) > 0n
+      ? { passed: true }
+      : { passed: false, message: "The wallet does not own a basename" },
+});
+
+export const coinbaseVerificationCheck = (
+  client: IdentityClient
+): EligibilityCheck => ({
+  rule: "coinbase_verification",
+  check: async ({ userId }) =>
+    (await client.hasCoinbaseVerification(userId))
+      ? { passed: true }
+      : {
+          passed: false,
+          message:
+            "The wallet does not have a Coinbase Verified Account attestation, which can be added at https://www.coinbase.com/onchain-verify",
+        },
+});
+
+export const walletActivityCheck = (
+  client: IdentityClient,
+  { minTransactions, minAgeDays }: EligibilityPolicy["walletActivity"]
+): EligibilityCheck => ({
+  rule: "wallet_activity",
+  check: async ({ userId }) => {
+    const count = await client.getTransactionCount(userId);
+    if (count < minTransactions) {
+      return {
+        passed: false,
+        message: `The wallet has sent ${count} transactions on Base, at least ${minTransactions} are needed`,
+      };
+    }
+
+    const firstTransactionDate = await client.getFirstTransactionDate(userId);
+    if (
+      !firstTransactionDate ||
+      Date.now() - firstTransactionDate.getTime() < minAgeDays * DAY
+    ) {
+      return {
+        passed: false,
+        message: `The wallet's first transaction on Base must be at least ${minAgeDays} days old`,
+      };
+    }
+
+    return { passed: true };
+  },
+});
@@ -0,0 +1,121 @@
+import {
+  createPublicClient,
+  erc721Abi,
+  http,
+  isAddressEqual,
+  type PublicClient,
+  zeroHash,
+} from "viem";
+import { base } from "viem/chains";
+import { BASENAMES_BASE_REGISTRAR_ADDRESS_MAINNET } from "@/lib/web3/agentkit/action-providers/basename/constants";
+import { getRpcUrl } from "@/lib/web3/agentkit/wallet-providers/network";
+import {
+  COINBASE_ATTESTER_ADDRESS,
+  COINBASE_INDEXER_ABI,
+  COINBASE_INDEXER_ADDRESS,
+  EAS_ABI,
+  EAS_ADDRESS,
+  VERIFIED_ACCOUNT_SCHEMA_UID,
+} from "./constants";
+import type { IdentityClient } from "./types";
+
+interface AssetTransfersResponse {
+  result?: {
+    transfers: Array<{ metadata?: { blockTimestamp?: string } }>;
+  };
+  error?: { message: string };
+}
+
+/**
+ * Reads identity signals from Base mainnet, whichever chain the app runs on,
+ * as testnet history and names cost nothing to fake.
+ *
+ * @param alchemyApiKey - The Alchemy API key, used to find a wallet's first
+ * transaction
+ * @param config - The client and fetch to read with
+ * @returns The identity client
+ */
+export const baseIdentityClient = (
+  alchemyApiKey: string,
+  {
+    publicClient = createPublicClient({
+      chain: base,
+      transport: http(getRpcUrl("base-mainnet")),
+    }) as PublicClient,
+    fetch: fetchFn = (input, init) => fetch(input, init),
+  }: { publicClient?: PublicClient; fetch?: typeof fetch } = {}
+): IdentityClient => ({
+  getTransactionCount: (address) =>
+    publicClient.getTransactionCount({ address }),
+
+  getFirstTransactionDate: async (address) => {
+    const response = await fetchFn(
+      `https://base-mainnet.g.alchemy.com/v2/${alchemyApiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: 1,
+          jsonrpc: "2.0",
+          method: "alchemy_getAssetTransfers",
+          params: [
+            {
+              fromBlock: "0x0",
+              fromAddress: address,
+              category: ["external", "erc20", "erc721", "erc1155"],
+              order: "asc",
+              maxCount: "0x1",
+              withMetadata: true,
+            },
+          ],
+        }),
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`Alchemy request failed with ${response.status}`);
+    }
+
+    const { result, error } = (await response.json()) as AssetTransfersResponse;
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const timestamp = result?.transfers[0]?.metadata?.blockTimestamp;
+    return timestamp ? new Date(timestamp) : undefined;
+  },
+
+  getBasenameCount: (address) =>
+    publicClient.readContract({
+      address: BASENAMES_BASE_REGISTRAR_ADDRESS_MAINNET,
+      abi: erc721Abi,
+      functionName: "balanceOf",
+      args: [address],
+    }),
+
+  hasCoinbaseVerification: async (address) => {
+    const uid = await publicClient.readContract({
+      address: COINBASE_INDEXER_ADDRESS,
+      abi: COINBASE_INDEXER_ABI,
+      functionName: "getAttestationUid",
+      args: [address, VERIFIED_ACCOUNT_SCHEMA_UID],
+    });
+    if (uid === zeroHash) {
+      return false;
+    }
+
+    const attestation = await publicClient.readContract({
+      address: EAS_ADDRESS,
+      abi: EAS_ABI,
+      functionName: "getAttestation",
+      args: [uid],
+    });
+    const now = BigInt(Math.floor(Date.now() / 1000));
+
+    return (
+      isAddressEqual(attestation.attester, COINBASE_ATTESTER_ADDRESS) &&
+      isAddressEqual(attestation.recipient, address) &&
+      attestation.revocationTime === 0n &&
+      (attestation.expirationTime === 0n || attestation.expirationTime > now)
+    );
+  },
+});
@@ -0,0 +1,58 @@
+import { getClaimedStarterKits } from "@/lib/db/queries";
+import {
+  allowlistCheck,
+  basenameCheck,
+  coinbaseVerificationCheck,
+  kitHolderCheck,
+  rateLimitCheck,
+  walletActivityCheck,
+} from "./checks";
+import { baseIdentityClient } from "./client";
+import { EligibilityPipeline } from "./pipeline";
+import { databaseClaimAttemptStore } from "./store";
+import type {
+  ClaimAttemptStore,
+  EligibilityPolicy,
+  IdentityClient,
+} from "./types";
+
+/**
+ * The default rules for claiming a free kit. New users are who the kits are
+ * for, so a Coinbase verification or a basename is enough without any
+ * wallet history.
+ */
+export const defaultEligibilityPolicy: EligibilityPolicy = {
+  rateLimit: { attempts: 5, windowHours: 24 },
+  walletActivity: { minTransactions: 5, minAgeDays: 30 },
+  allowlist: process.env.STARTER_KIT_ALLOWLIST?.split(",")
+    .map((address) => address.trim())
+    .filter(Boolean),
+};
+
+const hasClaimedKit = async (userId: string) =>
+  (await getClaimedStarterKits(userId)).some((kit) => !kit.deletedAt);
+
+/**
+ * Builds the pipeline for a policy, reading identity signals and storing claim
+ * attempts with the given client and store.
+ */
+export const createEligibilityPipeline = ({
+  policy = defaultEligibilityPolicy,
+  client = baseIdentityClient(process.env.ALCHEMY_API_KEY as string),
+  store = databaseClaimAttemptStore,
+  hasKit = hasClaimedKit,
+}: {
+  policy?: EligibilityPolicy;
+  client?: IdentityClient;
+  store?: ClaimAttemptStore;
+  hasKit?: (userId: string) => Promise<boolean>;
+} = {}) =>
+  new EligibilityPipeline(
+    [kitHolderCheck(hasKit), rateLimitCheck(store, policy.rateLimit)],
+    [
+      ...(policy.allowlist?.length ? [allowlistCheck(policy.allowlist)] : []),
+      coinbaseVerificationCheck(client),
+      basenameCheck(client),
+      walletActivityCheck(client, policy.walletActivity),
+    ]
+  );
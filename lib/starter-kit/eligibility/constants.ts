@@ -0,0 +1,49 @@
+// Coinbase publishes its account verifications as EAS attestations on Base
+// https://github.com/coinbase/verifications
+export const EAS_ADDRESS = "0x4200000000000000000000000000000000000021";
+export const COINBASE_INDEXER_ADDRESS =
+  "0x2c7eE1E5f416dfF40054c27A62f7B357C4E8619C";
+export const COINBASE_ATTESTER_ADDRESS =
+  "0x357458739F90461b99789350868CD7CF330Dd7EE";
+export const VERIFIED_ACCOUNT_SCHEMA_UID =
+  "0xf8b05c79f090979bf4a80270aba232dff11a10d9ca55c4f88de95317970f0de9";
+
+export const COINBASE_INDEXER_ABI = [
+  {
+    inputs: [
+      { name: "recipient", type: "address" },
+      { name: "schemaUid", type: "bytes32" },
+    ],
+    name: "getAttestationUid",
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export const EAS_ABI = [
+  {
+    inputs: [{ name: "uid", type: "bytes32" }],
+    name: "getAttestation",
+    outputs: [
+      {
+        components: [
+          { name: "uid", type: "bytes32" },
+          { name: "schema", type: "bytes32" },
+          { name: "time", type: "uint64" },
+          { name: "expirationTime", type: "uint64" },
+          { name: "revocationTime", type: "uint64" },
+          { name: "refUID", type: "bytes32" },
+          { name: "recipient", type: "address" },
+          { name: "attester", type: "address" },
+          { name: "revocable", type: "bool" },
+          { name: "data", type: "bytes" },
+        ],
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
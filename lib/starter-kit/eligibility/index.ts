@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./checks";
+export * from "./client";
+export * from "./config";
+export * from "./store";
+export * from "./pipeline";
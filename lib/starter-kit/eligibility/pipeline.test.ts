@@ -0,0 +1,120 @@
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+import { createTestStarterKit, createTestUser } from "@/test/harness/users";
+import { getRequestIp } from "./checks";
+import { createEligibilityPipeline } from "./config";
+import { databaseClaimAttemptStore, memoryClaimAttemptStore } from "./store";
+import type { EligibilityPolicy, IdentityClient } from "./types";
+
+const USER = "0x0000000000000000000000000000000000000001";
+const IP = "203.0.113.7";
+
+const policy: EligibilityPolicy = {
+  rateLimit: { attempts: 2, windowHours: 24 },
+  walletActivity: { minTransactions: 5, minAgeDays: 30 },
+};
+
+// A wallet with a basename and no other signals
+const identityClient: IdentityClient = {
+  getTransactionCount: async () => 0,
+  getFirstTransactionDate: async () => undefined,
+  getBasenameCount: async () => 1n,
+  hasCoinbaseVerification: async () => false,
+};
+
+const setUp = ({ hasKit = false } = {}) => {
+  const store = memoryClaimAttemptStore();
+  let attempts = 0;
+  const countingStore = {
+    record: (attempt: Parameters<typeof store.record>[0]) => {
+      attempts += 1;
+      return store.record(attempt);
+    },
+  };
+  const pipeline = createEligibilityPipeline({
+    policy,
+    client: identityClient,
+    store: countingStore,
+    hasKit: async () => hasKit,
+  });
+  return { pipeline, attempts: () => attempts };
+};
+
+describe("getRequestIp", () => {
+  it("reads the entry the proxy appended to X-Forwarded-For", () => {
+    const headers = new Headers({
+      "x-forwarded-for": "198.51.100.1, 203.0.113.7",
+      "x-real-ip": "198.51.100.1",
+    });
+
+    expect(getRequestIp(headers, { proxies: 1 })).toBe(IP);
+    expect(getRequestIp(headers, { proxies: 2 })).toBe("198.51.100.1");
+    expect(getRequestIp(headers, { proxies: 3 })).toBeUndefined();
+  });
+
+  it("reads only the header the proxy sets when one is configured", () => {
+    const headers = new Headers({ "x-forwarded-for": "198.51.100.1" });
+
+    expect(getRequestIp(headers, { header: "x-real-ip" })).toBeUndefined();
+    headers.set("x-real-ip", IP);
+    expect(getRequestIp(headers, { header: "x-real-ip" })).toBe(IP);
+  });
+});
+
+describe("EligibilityPipeline", () => {
+  it("lets a wallet with one proof claim until its IP is rate limited", async () => {
+    const { pipeline } = setUp();
+    const evaluate = () => pipeline.evaluate({ userId: USER, ip: IP });
+
+    expect(await evaluate()).toEqual({ eligible: true, rule: "basename" });
+    expect(await evaluate()).toMatchObject({ eligible: true });
+    expect(await evaluate()).toMatchObject({
+      eligible: false,
+      denial: { rule: "rate_limit" },
+    });
+  });
+
+  it("refuses claims from an unknown IP", async () => {
+    const { pipeline } = setUp();
+
+    expect(await pipeline.evaluate({ userId: USER })).toMatchObject({
+      eligible: false,
+      denial: { rule: "rate_limit" },
+    });
+  });
+
+  it("refuses users who have a kit without counting an attempt", async () => {
+    const { pipeline, attempts } = setUp({ hasKit: true });
+
+    expect(await pipeline.evaluate({ userId: USER, ip: IP })).toMatchObject({
+      eligible: false,
+      denial: { rule: "has_kit" },
+    });
+    expect(attempts()).toBe(0);
+  });
+
+  it("records attempts of users who have never signed in", async () => {
+    const { address } = privateKeyToAccount(generatePrivateKey());
+
+    expect(
+      await databaseClaimAttemptStore.record({
+        ip: IP,
+        userId: address,
+        since: new Date(0),
+      })
+    ).toBe(1);
+  });
+
+  it("checks for a kit claimed in the database", async () => {
+    const userId = await createTestUser();
+    await createTestStarterKit(await createTestUser(), userId);
+
+    expect(
+      await createEligibilityPipeline({
+        policy,
+        client: identityClient,
+        store: memoryClaimAttemptStore(),
+      }).evaluate({ userId, ip: IP })
+    ).toMatchObject({ eligible: false, denial: { rule: "has_kit" } });
+  });
+});
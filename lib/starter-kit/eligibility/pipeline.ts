@@ -0,0 +1,87 @@
+import type {
+  EligibilityCheck,
+  EligibilityCheckResult,
+  EligibilityContext,
+  EligibilityDecision,
+  EligibilityRule,
+} from "./types";
+
+/**
+ * EligibilityPipeline decides whether a wallet may claim a free starter kit.
+ * Every required check must pass, and at least one of the proofs that the
+ * wallet belongs to a real person, when any are configured.
+ */
+export class EligibilityPipeline {
+  /**
+   * Constructor for the EligibilityPipeline.
+   * @param required - Checks that must all pass, run in order
+   * @param proofs - Checks of which one must pass, run in order until one does
+   */
+  constructor(
+    private required: Array<EligibilityCheck>,
+    private proofs: Array<EligibilityCheck>
+  ) {}
+
+  /**
+   * Runs the checks for a claim.
+   *
+   * @param context - The claiming user and their IP
+   * @returns The decision, with every failed check when denied
+   */
+  async evaluate(context: EligibilityContext): Promise<EligibilityDecision> {
+    for (const check of this.required) {
+      const result = await run(check, context);
+      if (!result.passed) {
+        return {
+          eligible: false,
+          denial: {
+            error: "not_eligible",
+            rule: check.rule,
+            message: result.message,
+            failed: [{ rule: check.rule, message: result.message }],
+          },
+        };
+      }
+    }
+
+    if (this.proofs.length === 0) {
+      return { eligible: true };
+    }
+
+    const failed: Array<{ rule: EligibilityRule; message: string }> = [];
+    for (const check of this.proofs) {
+      const result = await run(check, context);
+      if (result.passed) {
+        return { eligible: true, rule: check.rule };
+      }
+      failed.push({ rule: check.rule, message: result.message });
+    }
+
+    return {
+      eligible: false,
+      denial: {
+        error: "not_eligible",
+        rule: "unverified",
+        message:
+          "Free starter kits are for wallets that show they belong to a real person. Any one of the failed checks is enough to qualify.",
+        failed,
+      },
+    };
+  }
+}
+
+// A check that cannot be completed fails, rather than letting the claim through
+const run = async (
+  check: EligibilityCheck,
+  context: EligibilityContext
+): Promise<EligibilityCheckResult> => {
+  try {
+    return await check.check(context);
+  } catch (error) {
+    console.error(`Failed to run the ${check.rule} eligibility check:`, error);
+    return {
+      passed: false,
+      message: `The ${check.rule} check could not be completed, try again later`,
+    };
+  }
+};
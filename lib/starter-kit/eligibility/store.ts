@@ -0,0 +1,25 @@
+import { recordKitClaimAttempt } from "@/lib/db/queries";
+import type { ClaimAttemptStore } from "./types";
+
+/**
+ * Stores claim attempts in the KitClaimAttempt table.
+ */
+export const databaseClaimAttemptStore: ClaimAttemptStore = {
+  record: (attempt) => recordKitClaimAttempt(attempt),
+};
+
+/**
+ * Stores claim attempts in memory, for tests and local development.
+ */
+export const memoryClaimAttemptStore = (): ClaimAttemptStore => {
+  const attempts: Array<{ ip: string; createdAt: Date }> = [];
+
+  return {
+    record: async ({ ip, since }) => {
+      attempts.push({ ip, createdAt: new Date() });
+      return attempts.filter(
+        (attempt) => attempt.ip === ip && attempt.createdAt >= since
+      ).length;
+    },
+  };
+};
@@ -0,0 +1,98 @@
+import type { Address } from "viem";
+
+export type EligibilityRule =
+  | "has_kit"
+  | "rate_limit"
+  | "allowlist"
+  | "basename"
+  | "coinbase_verification"
+  | "wallet_activity";
+
+/**
+ * Who is claiming a kit, and from where.
+ */
+export interface EligibilityContext {
+  /**
+   * The signed in user's wallet address.
+   */
+  userId: Address;
+  /**
+   * The IP the claim was made from, if it could be determined.
+   */
+  ip?: string;
+}
+
+export type EligibilityCheckResult =
+  | { passed: true }
+  | { passed: false; message: string };
+
+/**
+ * One signal used to decide whether a wallet may claim a free kit.
+ */
+export interface EligibilityCheck {
+  rule: EligibilityRule;
+  check(context: EligibilityContext): Promise<EligibilityCheckResult>;
+}
+
+/**
+ * The tool result returned to the model when a wallet may not claim a kit.
+ */
+export interface EligibilityDenied {
+  error: "not_eligible";
+  /**
+   * The required check that failed, or "unverified" when the wallet has none
+   * of the signals that show it belongs to a real person.
+   */
+  rule: EligibilityRule | "unverified";
+  message: string;
+  /**
+   * Every check that failed, so the user can be told how to qualify.
+   */
+  failed: Array<{ rule: EligibilityRule; message: string }>;
+}
+
+export type EligibilityDecision =
+  | { eligible: true; rule?: EligibilityRule }
+  | { eligible: false; denial: EligibilityDenied };
+
+/**
+ * Reads the onchain signals used by the eligibility checks.
+ */
+export interface IdentityClient {
+  getTransactionCount(address: Address): Promise<number>;
+  /**
+   * When the address first sent a transaction, if it ever has.
+   */
+  getFirstTransactionDate(address: Address): Promise<Date | undefined>;
+  getBasenameCount(address: Address): Promise<bigint>;
+  hasCoinbaseVerification(address: Address): Promise<boolean>;
+}
+
+/**
+ * Persists claim attempts so that they can be rate limited across requests.
+ */
+export interface ClaimAttemptStore {
+  /**
+   * Records an attempt and returns the attempts from the IP since the date,
+   * including this one.
+   */
+  record(attempt: { ip: string; userId: string; since: Date }): Promise<number>;
+}
+
+export interface EligibilityPolicy {
+  rateLimit: {
+    /**
+     * The claim attempts allowed from one IP per window.
+     */
+    attempts: number;
+    windowHours: number;
+  };
+  walletActivity: {
+    minTransactions: number;
+    minAgeDays: number;
+  };
+  /**
+   * Addresses that may always claim, on top of the onchain signals.
+   */
+  allowlist?: Array<string>;
+}
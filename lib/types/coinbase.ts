@@ -15,7 +15,16 @@ export interface CoinbaseChargeResponse {
     };
   };
   timeline: Array<{
-    status: "NEW" | "PENDING" | "COMPLETED" | "EXPIRED" | "FAILED" | "SIGNED";
+    status:
+      | "NEW"
+      | "SIGNED"
+      | "PENDING"
+      | "COMPLETED"
+      | "EXPIRED"
+      | "FAILED"
+      | "UNRESOLVED"
+      | "RESOLVED"
+      | "CANCELED";
     time: string;
   }>;
   web3_data?: {
@@ -38,7 +47,35 @@ export interface CoinbaseChargeResponse {
       tx_hash: string;
     }>;
   };
+  // Set when the charge was created from a product checkout
+  checkout?: {
+    id: string;
+  };
+  metadata?: Record<string, string>;
   created_at: string;
   expires_at: string;
   confirmed_at?: string;
 }
+
+export type CoinbaseChargeEventType =
+  | "charge:created"
+  | "charge:pending"
+  | "charge:confirmed"
+  | "charge:failed"
+  | "charge:resolved";
+
+export interface CoinbaseWebhookEvent {
+  id: string;
+  resource: "event";
+  type: CoinbaseChargeEventType | string;
+  api_version: string;
+  created_at: string;
+  data: CoinbaseChargeResponse;
+}
+
+export interface CoinbaseWebhookPayload {
+  id: number;
+  scheduled_for: string;
+  attempt_number?: number;
+  event: CoinbaseWebhookEvent;
+}
@@ -0,0 +1,407 @@
+import { type Abi, type Address, getAddress, pad } from "viem";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { type LocalChain, startLocalChain } from "@/test/harness/chain";
+import { deployContract } from "@/test/harness/contracts";
+import {
+  type FixtureServer,
+  startFixtureServer,
+} from "@/test/harness/fixture-server";
+import { AlchemyActionProvider } from "./alchemyActionProvider";
+import { getAssetTransfersSchema, getNFTsForOwnerSchema } from "./schemas";
+
+const USDC = "0x036cbd53842c5426634e7929541ec2318f3dcf7e";
+const SPAM = "0x00000000000000000000000000000000000000aa";
+const UNKNOWN = "0x00000000000000000000000000000000000000bb";
+const NFT = "0x00000000000000000000000000000000000000dd";
+const SENDER = "0x0000000000000000000000000000000000000005";
+const APPROVAL_TOPIC =
+  "0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925";
+
+const TOKEN_METADATA: Record<string, unknown> = {
+  [USDC]: { name: "USD Coin", symbol: "USDC", decimals: 6, logo: null },
+  [SPAM]: {
+    name: "Claim rewards at spam.xyz",
+    symbol: "SPAM",
+    decimals: 18,
+    logo: null,
+  },
+  [UNKNOWN]: null,
+};
+
+// Received and sent transfers of the wallet, newest first
+const RECEIVED_TRANSFERS = [
+  {
+    blockNum: "0x10",
+    hash: "0x01",
+    category: "erc20",
+    from: SENDER,
+    asset: "USDC",
+    value: 2,
+    rawContract: { value: "0x1e8480", decimal: "0x6", address: USDC },
+  },
+  {
+    blockNum: "0x8",
+    hash: "0x02",
+    category: "external",
+    from: SENDER,
+    asset: "ETH",
+    value: 0.5,
+    rawContract: { value: null, decimal: null, address: null },
+  },
+  {
+    blockNum: "0x4",
+    hash: "0x03",
+    category: "erc721",
+    from: SENDER,
+    asset: null,
+    value: null,
+    erc721TokenId: "0x2a",
+    rawContract: { value: null, decimal: null, address: NFT },
+  },
+];
+const SENT_TRANSFERS = [
+  {
+    blockNum: "0xc",
+    hash: "0x04",
+    category: "external",
+    to: SENDER,
+    asset: "ETH",
+    value: 0.1,
+    rawContract: { value: null, decimal: null, address: null },
+  },
+];
+
+const COLLECTION = "0x00000000000000000000000000000000000000ee";
+
+// NFTs of the wallet in the order Alchemy pages them, one of them spam
+const OWNED_NFTS = [
+  ...["1", "2", "3"].map((tokenId) => ({
+    contract: { address: COLLECTION, name: "Based Frogs", tokenType: "ERC721" },
+    tokenId,
+    name: `Frog #${tokenId}`,
+    image: { thumbnailUrl: `https://nft.example/${tokenId}.png` },
+  })),
+  {
+    contract: {
+      address: SPAM,
+      name: "Free mint",
+      tokenType: "ERC1155",
+      isSpam: true,
+    },
+    tokenId: "7",
+    name: "Claim your reward",
+    balance: "3",
+  },
+  {
+    contract: { address: NFT, name: "Onchain Summer", tokenType: "ERC1155" },
+    tokenId: "1",
+    name: "Summer pass",
+    balance: "2",
+  },
+];
+
+interface AssetTransfersParams {
+  toAddress?: string;
+  fromAddress?: string;
+  category: Array<string>;
+  maxCount: string;
+  pageKey?: string;
+}
+
+describe("AlchemyActionProvider", () => {
+  let chain: LocalChain;
+  let alchemy: FixtureServer;
+  let provider: AlchemyActionProvider;
+  let token: { address: Address; abi: Abi };
+
+  // Approval logs of the test token and of an address with no contract
+  const approvalLogs = () =>
+    [token.address, UNKNOWN].map((address) => ({
+      address,
+      topics: [
+        APPROVAL_TOPIC,
+        pad(chain.accounts[0].address),
+        pad(chain.accounts[1].address),
+      ],
+    }));
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+    token = await deployContract(chain, "MockERC20", ["Test Token", "TST", 6]);
+    await chain.walletClient.writeContract({
+      ...token,
+      functionName: "approve",
+      args: [chain.accounts[1].address, 5_000_000n],
+      account: chain.accounts[0],
+      chain: chain.chain,
+    });
+    alchemy = await startFixtureServer({
+      rpc: {
+        alchemy_getTokenBalances: () => ({
+          tokenBalances: [
+            { contractAddress: USDC, tokenBalance: "0x1e8480" },
+            { contractAddress: SPAM, tokenBalance: "0x01" },
+            { contractAddress: UNKNOWN, tokenBalance: "0x05" },
+            {
+              contractAddress: "0x00000000000000000000000000000000000000cc",
+              tokenBalance: "0x0",
+            },
+          ],
+        }),
+        alchemy_getTokenMetadata: (params) => {
+          const address = (params as Array<string>)[0].toLowerCase();
+          return address === token.address.toLowerCase()
+            ? { name: "Test Token", symbol: "TST", decimals: 6, logo: null }
+            : TOKEN_METADATA[address];
+        },
+        eth_getLogs: () => approvalLogs(),
+        // Pages are keyed by the index of their first transfer
+        alchemy_getAssetTransfers: (params) => {
+          const [{ toAddress, fromAddress, category, maxCount, pageKey }] =
+            params as Array<AssetTransfersParams>;
+          const transfers = (toAddress ? RECEIVED_TRANSFERS : SENT_TRANSFERS)
+            .filter((transfer) => category.includes(transfer.category))
+            .map((transfer) => ({
+              from: fromAddress,
+              to: toAddress,
+              ...transfer,
+            }));
+          const start = Number(pageKey ?? 0);
+          const end = start + Number(maxCount);
+          return {
+            transfers: transfers.slice(start, end),
+            pageKey: end < transfers.length ? String(end) : undefined,
+          };
+        },
+      },
+      routes: {
+        // Pages are keyed by the index of their first NFT
+        "GET base-sepolia.g.alchemy.com/nft/v3/test-key/getNFTsForOwner": (
+          _,
+          request
+        ) => {
+          const query = new URL(request.path, alchemy.url).searchParams;
+          const start = Number(query.get("pageKey") ?? 0);
+          const end = start + Number(query.get("pageSize"));
+          return {
+            ownedNfts: OWNED_NFTS.slice(start, end),
+            totalCount: OWNED_NFTS.length,
+            pageKey: end < OWNED_NFTS.length ? String(end) : null,
+          };
+        },
+      },
+    });
+    provider = new AlchemyActionProvider("test-key", { fetch: alchemy.fetch });
+  });
+
+  afterAll(async () => {
+    await alchemy?.stop();
+    await chain?.stop();
+  });
+
+  it("gets token balances in whole units without spam", async () => {
+    const result = await provider.getTokenBalances(chain.walletProvider(), {
+      address: chain.accounts[0].address,
+      includeZeroBalances: false,
+      includeSpam: false,
+    });
+
+    expect(result).toEqual([
+      {
+        name: "USD Coin",
+        symbol: "USDC",
+        balance: "2",
+        decimals: 6,
+        contractAddress: USDC,
+      },
+      {
+        name: "Unknown token",
+        symbol: "",
+        balance: "5",
+        decimals: 0,
+        contractAddress: UNKNOWN,
+        error: "Token metadata unavailable, balance is in base units",
+      },
+    ]);
+    expect(alchemy.requests[0].host).toBe("base-sepolia.g.alchemy.com");
+    expect(alchemy.requests[0].path).toBe("/v2/test-key");
+  });
+
+  it("lists allowances, skipping contracts that cannot be read", async () => {
+    const result = await provider.listAllowances(chain.walletProvider(), {
+      owner: chain.accounts[0].address,
+    });
+
+    expect(result).toEqual([
+      {
+        contractAddress: getAddress(token.address),
+        name: "Test Token",
+        symbol: "TST",
+        spender: chain.accounts[1].address,
+        allowance: "5",
+        unlimited: false,
+        chainId: chain.chain.id,
+      },
+    ]);
+  });
+
+  it("pages through NFTs grouped by collection, leaving out spam", async () => {
+    const getNFTs = (args: { pageSize: number; pageKey?: string }) =>
+      provider.getNFTsForOwner(
+        chain.walletProvider(),
+        getNFTsForOwnerSchema.parse({
+          owner: chain.accounts[0].address,
+          ...args,
+        })
+      );
+
+    const first = await getNFTs({ pageSize: 4 });
+    expect(first).toEqual({
+      totalCount: 5,
+      collections: [
+        {
+          contractAddress: COLLECTION,
+          name: "Based Frogs",
+          tokenType: "ERC721",
+          count: 3,
+          nfts: ["1", "2", "3"].map((tokenId) => ({
+            tokenId,
+            name: `Frog #${tokenId}`,
+            image: `https://nft.example/${tokenId}.png`,
+            balance: "1",
+          })),
+        },
+      ],
+      spamFiltered: 1,
+      pageKey: "4",
+    });
+    if ("error" in first) {
+      throw new Error(first.error);
+    }
+
+    expect(await getNFTs({ pageSize: 4, pageKey: first.pageKey })).toEqual({
+      totalCount: 5,
+      collections: [
+        {
+          contractAddress: NFT,
+          name: "Onchain Summer",
+          tokenType: "ERC1155",
+          count: 1,
+          nfts: [{ tokenId: "1", name: "Summer pass", balance: "2" }],
+        },
+      ],
+      spamFiltered: 0,
+      pageKey: undefined,
+    });
+  });
+
+  it("asks Alchemy for at most 100 NFTs per page", async () => {
+    const requested = alchemy.requests.length;
+
+    const result = await provider.getNFTsForOwner(
+      chain.walletProvider(),
+      getNFTsForOwnerSchema.parse({
+        owner: chain.accounts[0].address,
+        pageSize: 500,
+        includeSpam: true,
+      })
+    );
+
+    expect(result).toMatchObject({ spamFiltered: 0, pageKey: undefined });
+    const [{ path }] = alchemy.requests.slice(requested);
+    expect(new URL(path, alchemy.url).searchParams.get("pageSize")).toBe("100");
+  });
+
+  it("pages through the transfers in both directions, newest first", async () => {
+    const address = chain.accounts[0].address;
+    const getTransfers = (pageKey?: string) =>
+      provider.getAssetTransfers(
+        chain.walletProvider(),
+        getAssetTransfersSchema.parse({ address, pageSize: 2, pageKey })
+      );
+
+    const first = await getTransfers();
+    if ("error" in first) {
+      throw new Error(first.error);
+    }
+    expect(
+      first.transfers.map(({ hash, direction }) => [hash, direction])
+    ).toEqual([
+      ["0x01", "in"],
+      ["0x04", "out"],
+      ["0x02", "in"],
+    ]);
+    expect(first.transfers[1].summary).toBe(`Sent 0.1 ETH to ${SENDER}`);
+    expect(first.pageKey).toBeDefined();
+
+    // Sent transfers were exhausted, so only received ones are asked for
+    const requested = alchemy.requests.length;
+    expect(await getTransfers(first.pageKey)).toEqual({
+      transfers: [
+        expect.objectContaining({
+          hash: "0x03",
+          asset: "NFT",
+          tokenId: "42",
+          contractAddress: NFT,
+          summary: `Received NFT #42 from ${SENDER}`,
+        }),
+      ],
+      pageKey: undefined,
+    });
+    expect(alchemy.requests.slice(requested)).toHaveLength(1);
+  });
+
+  it("only gets transfers of the requested categories", async () => {
+    const address = chain.accounts[0].address;
+    const requested = alchemy.requests.length;
+
+    const result = await provider.getAssetTransfers(
+      chain.walletProvider(),
+      getAssetTransfersSchema.parse({
+        address,
+        direction: "in",
+        categories: ["erc20"],
+      })
+    );
+
+    expect(result).toEqual({
+      transfers: [
+        expect.objectContaining({
+          category: "erc20",
+          amount: "2",
+          contractAddress: USDC,
+          summary: `Received 2 USDC from ${SENDER}`,
+        }),
+      ],
+      pageKey: undefined,
+    });
+    expect(alchemy.requests.slice(requested).map(({ body }) => body)).toEqual([
+      expect.objectContaining({
+        params: [
+          expect.objectContaining({
+            toAddress: address,
+            category: ["erc20"],
+            maxCount: "0x14",
+          }),
+        ],
+      }),
+    ]);
+  });
+
+  it("returns an error result when Alchemy fails", async () => {
+    const failing = await startFixtureServer({});
+    try {
+      const result = await new AlchemyActionProvider("test-key", {
+        fetch: failing.fetch,
+      }).getTokenBalances(chain.walletProvider(), {
+        address: chain.accounts[0].address,
+        includeZeroBalances: false,
+        includeSpam: false,
+      });
+
+      expect(result).toHaveProperty("error");
+    } finally {
+      await failing.stop();
+    }
+  });
+});
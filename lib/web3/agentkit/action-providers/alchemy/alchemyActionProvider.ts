@@ -8,23 +8,132 @@ import {
   getTokenBalancesSchema,
   type TokenBalanceWithMetadata,
   getNFTsForOwnerSchema,
-  type NFTWithMetadata,
+  type NFTCollection,
+  type NFTsForOwnerPage,
+  listAllowancesSchema,
+  type AllowanceWithMetadata,
+  getAssetTransfersSchema,
+  type AssetTransfer,
+  type AssetTransfersPage,
 } from "./schemas";
 import { Network } from "../types";
+import { formatUnits, getAddress, pad, toEventSelector, type Hex } from "viem";
+import { abi as erc20Abi } from "../erc20/constants";
+import { formatAllowance, isUnlimitedAllowance } from "../erc20/utils";
+import type { TokenMetadata } from "@/lib/db/schema";
+import type { TokenMetadataCache } from "./metadataCache";
+
+const APPROVAL_TOPIC = toEventSelector(
+  "Approval(address indexed owner, address indexed spender, uint256 value)"
+);
+
+// Alchemy API domains by chain ID
+const ALCHEMY_DOMAINS: Record<string, string> = {
+  "1": "eth-mainnet.g.alchemy.com",
+  "11155111": "eth-sepolia.g.alchemy.com",
+  "8453": "base-mainnet.g.alchemy.com",
+  "84532": "base-sepolia.g.alchemy.com",
+  "10": "opt-mainnet.g.alchemy.com",
+  "11155420": "opt-sepolia.g.alchemy.com",
+  "42161": "arb-mainnet.g.alchemy.com",
+  "421614": "arb-sepolia.g.alchemy.com",
+};
+
+// How long cached token metadata is used before it is fetched again
+const TOKEN_METADATA_TTL_MS = 24 * 60 * 60 * 1000;
+// Requests per JSON-RPC batch, well under Alchemy's limit
+const METADATA_BATCH_SIZE = 100;
+
+// Airdropped spam tokens and NFTs advertise phishing sites in their names
+const SPAM_PATTERN =
+  /https?:|www\.|\.(com|io|xyz|org|net|app|site|online|gg|finance)\b|t\.me|claim|visit|airdrop|voucher/i;
+
+/**
+ * Flags tokens that are most likely unsolicited spam.
+ * @param metadata - The token name and symbol
+ * @returns True if the token looks like spam
+ */
+const isSpamToken = ({
+  name,
+  symbol,
+}: {
+  name: string | null;
+  symbol: string | null;
+}) => !name || !symbol || SPAM_PATTERN.test(`${name} ${symbol}`);
+
+/**
+ * Formats a transfer returned by alchemy_getAssetTransfers.
+ * @param transfer - The transfer as returned by Alchemy
+ * @param direction - Whether the address received or sent the transfer
+ * @returns The transfer with its amount in whole units and a summary
+ */
+const formatAssetTransfer = (
+  transfer: any,
+  direction: "in" | "out"
+): AssetTransfer => {
+  const { rawContract, erc1155Metadata } = transfer;
+  const tokenId =
+    transfer.erc721TokenId ?? transfer.tokenId ?? erc1155Metadata?.[0]?.tokenId;
+  const amount =
+    rawContract?.value && rawContract?.decimal
+      ? formatUnits(BigInt(rawContract.value), Number(rawContract.decimal))
+      : transfer.value !== null && transfer.value !== undefined
+      ? String(transfer.value)
+      : erc1155Metadata?.[0]?.value
+      ? String(BigInt(erc1155Metadata[0].value))
+      : null;
+  const asset = transfer.asset ?? (tokenId ? "NFT" : null);
+  const what = [amount, asset, tokenId ? `#${BigInt(tokenId)}` : null]
+    .filter(Boolean)
+    .join(" ");
+  const counterparty = direction === "in" ? transfer.from : transfer.to;
+
+  return {
+    hash: transfer.hash,
+    direction,
+    category: transfer.category,
+    from: transfer.from,
+    to: transfer.to,
+    asset,
+    amount,
+    tokenId: tokenId ? BigInt(tokenId).toString() : undefined,
+    contractAddress: rawContract?.address ?? undefined,
+    timestamp: transfer.metadata?.blockTimestamp,
+    summary: `${direction === "in" ? "Received" : "Sent"} ${what || "assets"} ${
+      direction === "in" ? "from" : "to"
+    } ${counterparty}`,
+  };
+};
 
 /**
  * AlchemyActionProvider provides actions for interacting with Alchemy APIs.
  */
+export interface AlchemyActionProviderConfig {
+  /**
+   * The fetch used to call Alchemy, replaceable with recorded responses in tests
+   */
+  fetch?: typeof fetch;
+  /**
+   * Where token metadata is cached, not cached if omitted
+   */
+  metadataCache?: TokenMetadataCache;
+}
+
 export class AlchemyActionProvider extends ActionProvider {
   private apiKey: string;
+  private fetch: typeof fetch;
+  private metadataCache?: TokenMetadataCache;
 
   /**
    * Constructor for the AlchemyActionProvider.
    * @param apiKey - The Alchemy API key
+   * @param config - The fetch to call Alchemy with and the metadata cache
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, config: AlchemyActionProviderConfig = {}) {
     super("alchemy", []);
     this.apiKey = apiKey;
+    this.fetch = config.fetch ?? ((input, init) => fetch(input, init));
+    this.metadataCache = config.metadataCache;
   }
 
   /**
@@ -33,13 +142,7 @@ export class AlchemyActionProvider extends ActionProvider {
    * @returns The Alchemy base URL for the chain
    */
   private getBaseUrl(chainId: string): string {
-    const urls: Record<string, string> = {
-      "1": "eth-mainnet.g.alchemy.com",
-      "8453": "base-mainnet.g.alchemy.com",
-      "84532": "base-sepolia.g.alchemy.com",
-    };
-
-    const domain = urls[chainId];
+    const domain = ALCHEMY_DOMAINS[chainId];
     if (!domain) {
       throw new Error(`Chain ID ${chainId} not supported by Alchemy`);
     }
@@ -61,7 +164,9 @@ export class AlchemyActionProvider extends ActionProvider {
     It takes the following inputs:
       - address: The wallet address to get token balances for
       - includeZeroBalances: (Optional) Whether to include tokens with zero balance
-    Returns an array of token balances with metadata including name, symbol, and balance.
+      - includeSpam: (Optional) Whether to include tokens that look like spam airdrops (default: false)
+    Returns an array of token balances with metadata including name, symbol, and balance in whole units.
+    Never encourage users to interact with spam tokens, they often link to phishing sites.
     `,
     schema: getTokenBalancesSchema,
   })
@@ -72,7 +177,7 @@ export class AlchemyActionProvider extends ActionProvider {
     try {
       const chainId = String(walletProvider.getNetwork().chainId);
       const baseURL = this.getBaseUrl(chainId);
-      const balancesResponse = await fetch(baseURL, {
+      const balancesResponse = await this.fetch(baseURL, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -84,45 +189,52 @@ export class AlchemyActionProvider extends ActionProvider {
       });
 
       const balancesData = await balancesResponse.json();
-      const balances = balancesData.result.tokenBalances;
+      if (balancesData.error) {
+        throw new Error(balancesData.error.message);
+      }
+      const balances: Array<{ contractAddress: string; tokenBalance: string }> =
+        balancesData.result.tokenBalances;
 
       // Filter out zero balances if requested
       const filteredBalances = args.includeZeroBalances
         ? balances
-        : balances.filter((token: any) => token.tokenBalance !== "0");
+        : balances.filter((token) => BigInt(token.tokenBalance ?? 0) !== 0n);
 
-      // Get metadata for each token
-      const tokenBalancesWithMetadata: TokenBalanceWithMetadata[] =
-        await Promise.all(
-          filteredBalances.map(async (token: any) => {
-            const metadataResponse = await fetch(baseURL, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                jsonrpc: "2.0",
-                method: "alchemy_getTokenMetadata",
-                params: [token.contractAddress],
-                id: 42,
-              }),
-            });
+      const metadata = await this.getTokenMetadata(
+        Number(chainId),
+        filteredBalances.map((token) => token.contractAddress)
+      );
 
-            const metadataData = await metadataResponse.json();
-            const metadata = metadataData.result;
+      const tokenBalancesWithMetadata: TokenBalanceWithMetadata[] = [];
+      for (const token of filteredBalances) {
+        const tokenMetadata = metadata.get(token.contractAddress.toLowerCase());
+        const rawBalance = BigInt(token.tokenBalance ?? 0);
 
-            // Convert balance to human readable format
-            const balance = (
-              parseInt(token.tokenBalance) / Math.pow(10, metadata.decimals)
-            ).toFixed(2);
+        if (!tokenMetadata || tokenMetadata.decimals === null) {
+          // Still report the token, in base units
+          tokenBalancesWithMetadata.push({
+            name: "Unknown token",
+            symbol: "",
+            balance: rawBalance.toString(),
+            decimals: 0,
+            contractAddress: token.contractAddress,
+            error: "Token metadata unavailable, balance is in base units",
+          });
+          continue;
+        }
+        if (tokenMetadata.isSpam && !args.includeSpam) {
+          continue;
+        }
 
-            return {
-              name: metadata.name,
-              symbol: metadata.symbol,
-              balance,
-              decimals: metadata.decimals,
-              contractAddress: token.contractAddress,
-            };
-          })
-        );
+        tokenBalancesWithMetadata.push({
+          name: tokenMetadata.name ?? "",
+          symbol: tokenMetadata.symbol ?? "",
+          balance: formatUnits(rawBalance, tokenMetadata.decimals),
+          decimals: tokenMetadata.decimals,
+          contractAddress: token.contractAddress,
+          ...(tokenMetadata.isSpam && { isSpam: true }),
+        });
+      }
 
       return tokenBalancesWithMetadata;
     } catch (error) {
@@ -133,28 +245,32 @@ export class AlchemyActionProvider extends ActionProvider {
   }
 
   /**
-   * Gets NFTs owned by a wallet address.
+   * Gets NFTs owned by a wallet address, grouped by collection.
    *
-   * @param walletProvider - The wallet provider to get NFTs from.
+   * @param walletProvider - The wallet provider, used to determine the network.
    * @param args - The query parameters.
-   * @returns Array of NFTs with metadata.
+   * @returns A page of NFTs grouped by collection, with a pageKey if there are more.
    */
   @CreateAction({
     name: "get_nfts_for_owner",
     description: `
-    This tool will get all NFTs owned by a specified wallet address.
+    This tool will get the NFTs owned by a specified wallet address, grouped by collection.
     It takes the following inputs:
       - owner: The wallet address to get NFTs for
-      - withMetadata: (Optional) Whether to include NFT metadata (default: true)
-      - pageSize: (Optional) Number of NFTs to return per page (default: 100)
-    Returns an array of NFTs with metadata including contract info, token IDs, and media.
+      - contractAddresses: (Optional) Only include NFTs from these collections
+      - pageSize: (Optional) Number of NFTs to return per page (default: 50, max: 100)
+      - pageKey: (Optional) The pageKey from a previous call, to get the next page
+      - includeSpam: (Optional) Whether to include NFTs that look like spam (default: false)
+      - excludeAirdrops: (Optional) Whether to leave out NFTs that were airdropped to the owner (default: false)
+    Returns the total count, the collections with their NFTs on this page, how many spam NFTs were left out, and a pageKey if there are more.
+    Show NFTs to the user with the show-nft-gallery userAction.
     `,
     schema: getNFTsForOwnerSchema,
   })
   async getNFTsForOwner(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof getNFTsForOwnerSchema>
-  ): Promise<NFTWithMetadata[]> {
+  ): Promise<NFTsForOwnerPage | { error: string }> {
     try {
       const chainId = String(walletProvider.getNetwork().chainId);
       const baseURL = this.getBaseUrl(chainId);
@@ -162,11 +278,20 @@ export class AlchemyActionProvider extends ActionProvider {
 
       const queryParams = new URLSearchParams({
         owner: args.owner,
-        withMetadata: String(args.withMetadata),
-        pageSize: String(args.pageSize),
+        withMetadata: "true",
+        pageSize: String(Math.min(args.pageSize, 100)),
       });
+      if (args.pageKey) {
+        queryParams.set("pageKey", args.pageKey);
+      }
+      for (const contractAddress of args.contractAddresses ?? []) {
+        queryParams.append("contractAddresses[]", contractAddress);
+      }
+      if (args.excludeAirdrops) {
+        queryParams.append("excludeFilters[]", "AIRDROPS");
+      }
 
-      const response = await fetch(
+      const response = await this.fetch(
         `${nftBaseUrl}/getNFTsForOwner?${queryParams}`,
         {
           method: "GET",
@@ -180,22 +305,372 @@ export class AlchemyActionProvider extends ActionProvider {
         throw new Error(data.error.message || "Failed to fetch NFTs");
       }
 
-      return data.ownedNfts;
+      const collections = new Map<string, NFTCollection>();
+      let spamFiltered = 0;
+      for (const nft of data.ownedNfts as Array<any>) {
+        const collectionName: string | undefined =
+          nft.contract.name ?? nft.collection?.name ?? undefined;
+        const isSpam =
+          nft.contract.isSpam === true ||
+          SPAM_PATTERN.test(`${collectionName ?? ""} ${nft.name ?? ""}`);
+        if (isSpam && !args.includeSpam) {
+          spamFiltered++;
+          continue;
+        }
+
+        const contractAddress = nft.contract.address;
+        const collection: NFTCollection = collections.get(contractAddress) ?? {
+          contractAddress,
+          name: collectionName,
+          tokenType: nft.contract.tokenType ?? nft.tokenType,
+          count: 0,
+          nfts: [],
+        };
+        collection.count++;
+        collection.nfts.push({
+          tokenId: nft.tokenId,
+          name: nft.name ?? undefined,
+          image: nft.image?.thumbnailUrl ?? nft.image?.cachedUrl ?? undefined,
+          balance: String(nft.balance ?? "1"),
+        });
+        collections.set(contractAddress, collection);
+      }
+
+      return {
+        totalCount: data.totalCount,
+        collections: Array.from(collections.values()).sort(
+          (a, b) => b.count - a.count
+        ),
+        spamFiltered,
+        pageKey: data.pageKey ?? undefined,
+      };
+    } catch (error) {
+      return {
+        error: `Error getting NFTs: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Lists the outstanding ERC20 approvals granted by a wallet address.
+   *
+   * @param walletProvider - The wallet provider to read allowances with.
+   * @param args - The query parameters.
+   * @returns Array of approvals with a non-zero allowance.
+   */
+  @CreateAction({
+    name: "list_allowances",
+    description: `
+    This tool will list the ERC20 approvals a wallet address has granted that can still be spent.
+    It takes the following inputs:
+      - owner: The wallet address to list approvals for
+    Returns an array of approvals with the token, spender and remaining allowance (or "unlimited").
+    Approvals can be revoked by the user with the revoke-approvals userAction.
+    `,
+    schema: listAllowancesSchema,
+  })
+  async listAllowances(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof listAllowancesSchema>
+  ): Promise<AllowanceWithMetadata[] | { error: string }> {
+    try {
+      const chainId = String(walletProvider.getNetwork().chainId);
+      const baseURL = this.getBaseUrl(chainId);
+      const logsResponse = await this.fetch(baseURL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          method: "eth_getLogs",
+          params: [
+            {
+              fromBlock: "0x0",
+              toBlock: "latest",
+              topics: [APPROVAL_TOPIC, pad(args.owner as Hex)],
+            },
+          ],
+          id: 42,
+        }),
+      });
+
+      const logsData = await logsResponse.json();
+      if (logsData.error) {
+        throw new Error(logsData.error.message);
+      }
+
+      // ERC721 approvals share the topic but also index the token id
+      const approvals = new Map<
+        string,
+        { contractAddress: Hex; spender: Hex }
+      >();
+      for (const log of logsData.result as Array<{
+        address: Hex;
+        topics: Hex[];
+      }>) {
+        if (log.topics.length !== 3) {
+          continue;
+        }
+        const contractAddress = getAddress(log.address);
+        const spender = getAddress(`0x${log.topics[2].slice(26)}`);
+        approvals.set(`${contractAddress}:${spender}`, {
+          contractAddress,
+          spender,
+        });
+      }
+
+      // Approvals may have been spent or revoked since they were granted.
+      // Contracts that cannot be read, like ERC721 collections with an
+      // ERC20 style approval, are skipped rather than failing the listing.
+      const reads = await Promise.allSettled(
+        Array.from(approvals.values()).map(
+          async ({ contractAddress, spender }) => {
+            const allowance = (await walletProvider.readContract({
+              address: contractAddress,
+              abi: erc20Abi,
+              functionName: "allowance",
+              args: [args.owner as Hex, spender],
+            })) as bigint;
+            return { contractAddress, spender, allowance };
+          }
+        )
+      );
+
+      const outstanding = reads.flatMap((read) =>
+        read.status === "fulfilled" && read.value.allowance > 0n
+          ? [read.value]
+          : []
+      );
+      const metadata = await this.getTokenMetadata(
+        Number(chainId),
+        outstanding.map(({ contractAddress }) => contractAddress)
+      );
+
+      return outstanding.map(({ contractAddress, spender, allowance }) => {
+        const tokenMetadata = metadata.get(contractAddress.toLowerCase());
+
+        return {
+          contractAddress,
+          name: tokenMetadata?.name ?? "Unknown token",
+          symbol: tokenMetadata?.symbol ?? "",
+          spender,
+          allowance: formatAllowance(allowance, tokenMetadata?.decimals ?? 18),
+          unlimited: isUnlimitedAllowance(allowance),
+          chainId: Number(chainId),
+        };
+      });
+    } catch (error) {
+      return {
+        error: `Error listing allowances: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Gets the transfers of ETH, tokens and NFTs to and from a wallet address.
+   *
+   * @param walletProvider - The wallet provider, used to determine the network.
+   * @param args - The query parameters.
+   * @returns A page of transfers, newest first, with a pageKey if there are more.
+   */
+  @CreateAction({
+    name: "get_asset_transfers",
+    description: `
+    This tool will get the recent transfers of ETH, tokens and NFTs to and from a wallet address, newest first.
+    It takes the following inputs:
+      - address: The wallet address to get transfers for
+      - direction: (Optional) "in" for received, "out" for sent, or "both" (default)
+      - categories: (Optional) Kinds of transfers: external (ETH), erc20, erc721, erc1155, specialnft, or internal (Ethereum mainnet only)
+      - contractAddresses: (Optional) Only include transfers of these token contracts
+      - pageSize: (Optional) Number of transfers per page (default: 20, max: 100)
+      - pageKey: (Optional) The pageKey from a previous call, to get the next page
+    Returns the transfers with a human readable summary of each, and a pageKey if there are more.
+    Use it to check whether a transfer arrived, or to explain past transactions.
+    `,
+    schema: getAssetTransfersSchema,
+  })
+  async getAssetTransfers(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof getAssetTransfersSchema>
+  ): Promise<AssetTransfersPage | { error: string }> {
+    try {
+      const chainId = String(walletProvider.getNetwork().chainId);
+      const baseURL = this.getBaseUrl(chainId);
+      const directions: Array<"in" | "out"> =
+        args.direction === "both" ? ["in", "out"] : [args.direction];
+      const pageKeys: Partial<Record<"in" | "out", string>> = args.pageKey
+        ? JSON.parse(Buffer.from(args.pageKey, "base64url").toString())
+        : {};
+
+      const pages = await Promise.all(
+        directions
+          // A direction that was exhausted on a previous page has no key
+          .filter((direction) => !args.pageKey || pageKeys[direction])
+          .map(async (direction) => {
+            const response = await this.fetch(baseURL, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                jsonrpc: "2.0",
+                method: "alchemy_getAssetTransfers",
+                params: [
+                  {
+                    fromBlock: "0x0",
+                    toBlock: "latest",
+                    [direction === "in" ? "toAddress" : "fromAddress"]:
+                      args.address,
+                    category: args.categories,
+                    contractAddresses: args.contractAddresses,
+                    withMetadata: true,
+                    excludeZeroValue: true,
+                    order: "desc",
+                    maxCount: `0x${Math.min(args.pageSize, 100).toString(16)}`,
+                    pageKey: pageKeys[direction],
+                  },
+                ],
+                id: 42,
+              }),
+            });
+
+            const data = await response.json();
+            if (data.error) {
+              throw new Error(data.error.message);
+            }
+
+            return {
+              direction,
+              transfers: data.result.transfers as Array<any>,
+              pageKey: data.result.pageKey as string | undefined,
+            };
+          })
+      );
+
+      const transfers = pages
+        .flatMap(({ direction, transfers }) =>
+          transfers.map((transfer) => ({
+            blockNumber: BigInt(transfer.blockNum),
+            transfer: formatAssetTransfer(transfer, direction),
+          }))
+        )
+        .sort((a, b) => (b.blockNumber > a.blockNumber ? 1 : -1))
+        .map(({ transfer }) => transfer);
+
+      const nextPageKeys = Object.fromEntries(
+        pages
+          .filter(({ pageKey }) => pageKey)
+          .map(({ direction, pageKey }) => [direction, pageKey])
+      );
+
+      return {
+        transfers,
+        pageKey:
+          Object.keys(nextPageKeys).length > 0
+            ? Buffer.from(JSON.stringify(nextPageKeys)).toString("base64url")
+            : undefined,
+      };
     } catch (error) {
-      throw new Error(`Error getting NFTs: ${error}`);
+      return {
+        error: `Error getting asset transfers: ${error}`,
+      };
     }
   }
 
+  /**
+   * Gets the metadata of tokens from the cache, fetching what is missing or
+   * stale with batched alchemy_getTokenMetadata calls. Tokens whose metadata
+   * cannot be fetched are left out rather than failing the lookup.
+   * @param chainId - The chain ID
+   * @param addresses - The token contract addresses
+   * @returns The metadata, keyed by lowercased address
+   */
+  private async getTokenMetadata(
+    chainId: number,
+    addresses: Array<string>
+  ): Promise<Map<string, TokenMetadata>> {
+    const unique = Array.from(
+      new Set(addresses.map((address) => address.toLowerCase()))
+    );
+    const cached = this.metadataCache
+      ? await this.metadataCache
+          .get({
+            chainId,
+            addresses: unique,
+            since: new Date(Date.now() - TOKEN_METADATA_TTL_MS),
+          })
+          .catch((error) => {
+            console.error("Failed to read cached token metadata", error);
+            return [];
+          })
+      : [];
+    const metadata = new Map(cached.map((entry) => [entry.address, entry]));
+
+    const missing = unique.filter((address) => !metadata.has(address));
+    const fetched: Array<TokenMetadata> = [];
+    for (let i = 0; i < missing.length; i += METADATA_BATCH_SIZE) {
+      const batch = missing.slice(i, i + METADATA_BATCH_SIZE);
+      try {
+        const response = await this.fetch(this.getBaseUrl(String(chainId)), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            batch.map((address, id) => ({
+              jsonrpc: "2.0",
+              method: "alchemy_getTokenMetadata",
+              params: [address],
+              id,
+            }))
+          ),
+        });
+        const results: Array<{
+          id: number;
+          result?: {
+            name: string | null;
+            symbol: string | null;
+            decimals: number | null;
+            logo: string | null;
+          } | null;
+        }> = await response.json();
+
+        for (const { id, result } of Array.isArray(results) ? results : []) {
+          if (!result || result.decimals === null || !batch[id]) {
+            continue;
+          }
+          fetched.push({
+            chainId,
+            address: batch[id],
+            name: result.name,
+            symbol: result.symbol,
+            decimals: result.decimals,
+            logo: result.logo,
+            isSpam: isSpamToken(result),
+            fetchedAt: new Date(),
+          });
+        }
+      } catch (error) {
+        console.error("Failed to fetch token metadata batch", error);
+      }
+    }
+
+    if (this.metadataCache && fetched.length > 0) {
+      await this.metadataCache.set(fetched).catch((error) => {
+        console.error("Failed to cache token metadata", error);
+      });
+    }
+    for (const entry of fetched) {
+      metadata.set(entry.address, entry);
+    }
+    return metadata;
+  }
+
   /**
    * Checks if the network is supported by Alchemy.
    * @param network - The network to check.
    * @returns True if the network is supported.
    */
-  supportsNetwork = (network: Network) => {
-    // Supported networks: Ethereum mainnet, Base mainnet, Base Sepolia
-    const supportedChainIds = ["1", "8453", "84532"];
-    return supportedChainIds.includes(String(network.chainId));
-  };
+  supportsNetwork = (network: Network) =>
+    String(network.chainId) in ALCHEMY_DOMAINS;
 }
 
-export const alchemyActionProvider = (apiKey: string) => new AlchemyActionProvider(apiKey); 
\ No newline at end of file
+export const alchemyActionProvider = (
+  apiKey: string,
+  config?: AlchemyActionProviderConfig
+) => new AlchemyActionProvider(apiKey, config);
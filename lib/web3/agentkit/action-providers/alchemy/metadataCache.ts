@@ -0,0 +1,51 @@
+import { getTokenMetadata, saveTokenMetadata } from "@/lib/db/queries";
+import type { TokenMetadata } from "@/lib/db/schema";
+
+/**
+ * Caches token metadata so that wallets holding many tokens do not need a
+ * metadata lookup per token on every request.
+ */
+export interface TokenMetadataCache {
+  get(query: {
+    chainId: number;
+    addresses: Array<string>;
+    since: Date;
+  }): Promise<Array<TokenMetadata>>;
+  set(entries: Array<TokenMetadata>): Promise<void>;
+}
+
+/**
+ * Caches metadata in the TokenMetadata table.
+ */
+export const databaseTokenMetadataCache: TokenMetadataCache = {
+  get: (query) => getTokenMetadata(query),
+  set: async (entries) => {
+    await saveTokenMetadata(entries);
+  },
+};
+
+/**
+ * Caches metadata in memory, for tests and local development.
+ */
+export const memoryTokenMetadataCache = (): TokenMetadataCache => {
+  const entries = new Map<string, TokenMetadata>();
+  const key = (chainId: number, address: string) =>
+    `${chainId}:${address.toLowerCase()}`;
+
+  return {
+    get: async ({ chainId, addresses, since }) =>
+      addresses
+        .map((address) => entries.get(key(chainId, address)))
+        .filter(
+          (entry): entry is TokenMetadata => !!entry && entry.fetchedAt >= since
+        ),
+    set: async (updates) => {
+      for (const entry of updates) {
+        entries.set(key(entry.chainId, entry.address), {
+          ...entry,
+          address: entry.address.toLowerCase(),
+        });
+      }
+    },
+  };
+};
@@ -12,6 +12,11 @@ export const getTokenBalancesSchema = z.object({
     .optional()
     .default(false)
     .describe("Whether to include tokens with zero balance"),
+  includeSpam: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Whether to include tokens that look like spam airdrops"),
 });
 
 /**
@@ -23,6 +28,8 @@ export type TokenBalanceWithMetadata = {
   balance: string;
   decimals: number;
   contractAddress: string;
+  isSpam?: boolean;
+  error?: string;
 };
 
 /**
@@ -32,34 +39,137 @@ export const getNFTsForOwnerSchema = z.object({
   owner: z
     .string()
     .describe("The wallet address to get NFTs for"),
-  withMetadata: z
-    .boolean()
+  contractAddresses: z
+    .array(z.string())
     .optional()
-    .default(true)
-    .describe("Whether to include NFT metadata"),
+    .describe("Only include NFTs from these collections"),
   pageSize: z
     .number()
     .optional()
-    .default(100)
-    .describe("Number of NFTs to return per page"),
+    .default(50)
+    .describe("Number of NFTs to return per page, at most 100"),
+  pageKey: z
+    .string()
+    .optional()
+    .describe("The pageKey returned by a previous call, to get the next page"),
+  includeSpam: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Whether to include NFTs that look like spam"),
+  excludeAirdrops: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Whether to leave out NFTs that were airdropped rather than minted or bought by the owner"),
 });
 
 /**
- * NFT with metadata response type
+ * NFT response type, with only what is needed to describe or show it
  */
-export type NFTWithMetadata = {
-  contract: {
-    address: string;
-    name?: string;
-    symbol?: string;
-    tokenType: string;
-  };
+export type NFTSummary = {
   tokenId: string;
+  name?: string;
+  image?: string;
+  balance: string;
+};
+
+/**
+ * NFTs of one collection response type
+ */
+export type NFTCollection = {
+  contractAddress: string;
+  name?: string;
   tokenType: string;
-  title?: string;
-  description?: string;
-  image?: {
-    originalUrl?: string;
-    thumbnailUrl?: string;
-  };
-}; 
\ No newline at end of file
+  count: number;
+  nfts: NFTSummary[];
+};
+
+/**
+ * Page of NFTs grouped by collection response type
+ */
+export type NFTsForOwnerPage = {
+  totalCount: number;
+  collections: NFTCollection[];
+  spamFiltered: number;
+  pageKey?: string;
+};
+
+/**
+ * Input schema for listAllowances action
+ */
+export const listAllowancesSchema = z.object({
+  owner: z
+    .string()
+    .describe("The wallet address to list ERC20 approvals for"),
+});
+
+/**
+ * Outstanding ERC20 allowance response type
+ */
+export type AllowanceWithMetadata = {
+  contractAddress: string;
+  name: string;
+  symbol: string;
+  spender: string;
+  allowance: string;
+  unlimited: boolean;
+  chainId: number;
+};
+
+/**
+ * Input schema for getAssetTransfers action
+ */
+export const getAssetTransfersSchema = z.object({
+  address: z
+    .string()
+    .describe("The wallet address to get transfers for"),
+  direction: z
+    .enum(["in", "out", "both"])
+    .optional()
+    .default("both")
+    .describe("Whether to get transfers received (in), sent (out) or both"),
+  categories: z
+    .array(z.enum(["external", "internal", "erc20", "erc721", "erc1155", "specialnft"]))
+    .optional()
+    .default(["external", "erc20", "erc721", "erc1155"])
+    .describe("The kinds of transfers to include: external (ETH), internal (ETH sent by contracts, Ethereum mainnet only), erc20, erc721, erc1155 or specialnft"),
+  contractAddresses: z
+    .array(z.string())
+    .optional()
+    .describe("Only include transfers of these token contracts"),
+  pageSize: z
+    .number()
+    .optional()
+    .default(20)
+    .describe("Number of transfers to return per page, at most 100"),
+  pageKey: z
+    .string()
+    .optional()
+    .describe("The pageKey returned by a previous call, to get the next page"),
+});
+
+/**
+ * Asset transfer response type
+ */
+export type AssetTransfer = {
+  hash: string;
+  direction: "in" | "out";
+  category: string;
+  from: string;
+  to: string | null;
+  asset: string | null;
+  amount: string | null;
+  tokenId?: string;
+  contractAddress?: string;
+  timestamp?: string;
+  summary: string;
+};
+
+/**
+ * Page of asset transfers response type
+ */
+export type AssetTransfersPage = {
+  transfers: AssetTransfer[];
+  pageKey?: string;
+};
@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { isActionFailure } from "../../framework-extensions/results";
+import { type LocalChain, startLocalChain } from "@/test/harness/chain";
+import { setContractCode } from "@/test/harness/contracts";
+import { BasenameActionProvider } from "./basenameActionProvider";
+import { BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_TESTNET } from "./constants";
+import { memoryBasenameTransferStore } from "./transfers";
+
+describe("BasenameActionProvider", () => {
+  const provider = new BasenameActionProvider();
+  let chain: LocalChain;
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+    const controller = await setContractCode(
+      chain,
+      "MockRegistrarController",
+      BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_TESTNET
+    );
+    await chain.walletClient.writeContract({
+      ...controller,
+      functionName: "setTaken",
+      args: ["alice"],
+      account: chain.accounts[0],
+      chain: chain.chain,
+    });
+  });
+
+  afterAll(() => chain?.stop());
+
+  it("reports available basenames", async () => {
+    const result = await provider.checkAvailability(chain.walletProvider(), {
+      basename: "bob",
+    });
+
+    expect(result).toBe("Basename bob.basetest.eth is available");
+  });
+
+  it("suggests alternatives for taken basenames", async () => {
+    const result = await provider.checkAvailability(chain.walletProvider(), {
+      basename: "alice.basetest.eth",
+    });
+
+    expect(result).toMatch(
+      /^Basename alice\.basetest\.eth is not available\. Available alternatives: aliceonchain\.basetest\.eth, /
+    );
+  });
+
+  it("quotes the registration price with the buffer", async () => {
+    const result = await provider.getPrice(chain.walletProvider(), {
+      basename: "dave",
+    });
+
+    expect(result).toBe(
+      "Registering dave.basetest.eth for one year costs 0.01 ETH. Registration will send 0.0105 ETH and the excess is refunded."
+    );
+  });
+
+  it("reports a transfer that cannot be started as a failure", async () => {
+    const failing = new BasenameActionProvider({
+      transferStore: {
+        ...memoryBasenameTransferStore(),
+        create: async () => {
+          throw new Error("Database unavailable");
+        },
+      },
+    });
+
+    const result = await failing.transfer(chain.walletProvider(), {
+      basename: "bob",
+      contractAddress: BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_TESTNET,
+      destination: chain.accounts[1].address,
+    });
+
+    expect(result).toBe("Error transferring basename: Database unavailable");
+  });
+
+  it("reports a registration whose transfer failed as a failure", async () => {
+    const transferStore = memoryBasenameTransferStore();
+    const registering = new BasenameActionProvider({ transferStore });
+    const destination = chain.accounts[1].address;
+
+    // The base registrar is not deployed, so the transfer cannot start
+    const result = await registering.registerAndTransfer(
+      chain.walletProvider(),
+      { basename: "carol", destination }
+    );
+
+    expect(result).toMatch(
+      /^Error in register and transfer process: Successfully registered basename carol\.basetest\.eth .*, but the transfer failed\n/
+    );
+    expect(isActionFailure(result)).toBe(true);
+    expect(
+      await transferStore.findLatest({
+        basename: "carol.basetest.eth",
+        networkId: "base-sepolia",
+      })
+    ).toMatchObject({
+      destination: destination.toLowerCase(),
+      status: "FAILED",
+    });
+  });
+});
@@ -1,10 +1,13 @@
 import {
   encodeFunctionData,
   Hex,
+  isAddressEqual,
   namehash,
+  formatEther,
   parseEther,
   keccak256,
   toBytes,
+  type TransactionRequest,
 } from "viem";
 import { z } from "zod";
 import {
@@ -25,22 +28,170 @@ import {
   BASENAMES_BASE_REGISTRAR_ADDRESS_TESTNET,
   REGISTRAR_ABI,
   BASE_REGISTRAR_TRANSFER_ABI,
+  DEFAULT_PRICE_BUFFER_BPS,
+  BASENAME_TEXT_RECORD_KEYS,
 } from "./constants";
 import {
   RegisterBasenameSchema,
   TransferBasenameSchema,
   RegisterAndTransferBasenameSchema,
+  ResumeBasenameTransferSchema,
+  CheckBasenameAvailabilitySchema,
+  GetBasenamePriceSchema,
+  GetBasenameProfileSchema,
+  SetBasenameTextRecordsSchema,
+  RenewBasenameSchema,
 } from "./schemas";
+import {
+  isBasenameAvailable,
+  parseBasename,
+  quoteBasename,
+  suggestBasenames,
+} from "./pricing";
+import {
+  memoryBasenameTransferStore,
+  type BasenameTransferStore,
+} from "./transfers";
+import type { BasenameTransfer, BasenameTransferStep } from "@/lib/db/schema";
+
+const TRANSFER_STEPS: Array<BasenameTransferStep["name"]> = [
+  "set_addr",
+  "set_name",
+  "reclaim",
+  "transfer",
+];
+
+const TRANSFER_STEP_LABELS: Record<BasenameTransferStep["name"], string> = {
+  set_addr: "Set address record",
+  set_name: "Set name record",
+  reclaim: "Reclaim registry ownership",
+  transfer: "Transfer token",
+};
+
+/**
+ * Formats the progress of a transfer as one line per step.
+ *
+ * @param steps - The steps of the transfer.
+ * @returns The progress of each step.
+ */
+const formatTransferSteps = (steps: Array<BasenameTransferStep>) =>
+  steps
+    .map(
+      (step, index) =>
+        `${index + 1}. ${TRANSFER_STEP_LABELS[step.name]}: ${
+          step.status === "CONFIRMED" ? "done" : "pending"
+        }${step.transactionHash ? ` (tx: ${step.transactionHash})` : ""}`
+    )
+    .join("\n");
+
+/**
+ * Configuration options for the BasenameActionProvider.
+ */
+export interface BasenameActionProviderConfig {
+  /**
+   * Where transfer progress is persisted. Defaults to memory.
+   */
+  transferStore?: BasenameTransferStore;
+
+  /**
+   * The buffer paid on top of the quoted registration price, in basis points.
+   */
+  priceBufferBps?: bigint;
+}
 
 /**
  * Action provider for registering Basenames.
  */
 export class BasenameActionProvider extends ActionProvider<EvmWalletProvider> {
+  private readonly transferStore: BasenameTransferStore;
+  private readonly priceBufferBps: bigint;
+
   /**
    * Constructs a new BasenameActionProvider.
+   *
+   * @param config - The configuration options for the BasenameActionProvider.
    */
-  constructor() {
+  constructor(config: BasenameActionProviderConfig = {}) {
     super("basename", []);
+    this.transferStore = config.transferStore ?? memoryBasenameTransferStore();
+    this.priceBufferBps = config.priceBufferBps ?? DEFAULT_PRICE_BUFFER_BPS;
+  }
+
+  /**
+   * Checks whether a Basename can be registered.
+   *
+   * @param wallet - The wallet to read the registrar with.
+   * @param args - The Basename to check.
+   * @returns A string indicating whether the Basename is available, with available variants if it is not.
+   */
+  @CreateAction({
+    name: "check_basename_availability",
+    description: `
+This tool will check whether a Basename is available to register.
+If the Basename is taken, it suggests available variants that can be offered to the user instead.
+Always check availability before registering a Basename.
+`,
+    schema: CheckBasenameAvailabilitySchema,
+  })
+  async checkAvailability(
+    wallet: EvmWalletProvider,
+    args: z.infer<typeof CheckBasenameAvailabilitySchema>
+  ): Promise<string> {
+    try {
+      const { basename, label, suffix } = parseBasename(wallet, args.basename);
+      if (await isBasenameAvailable(wallet, label)) {
+        return `Basename ${basename} is available`;
+      }
+
+      const suggestions = await suggestBasenames(wallet, label);
+      return `Basename ${basename} is not available${
+        suggestions.length > 0
+          ? `. Available alternatives: ${suggestions
+              .map((suggestion) => `${suggestion}${suffix}`)
+              .join(", ")}`
+          : ""
+      }`;
+    } catch (error) {
+      return `Error checking basename availability: ${error}`;
+    }
+  }
+
+  /**
+   * Gets the price of registering a Basename.
+   *
+   * @param wallet - The wallet to read the registrar with.
+   * @param args - The Basename to price.
+   * @returns A string with the price of the Basename.
+   */
+  @CreateAction({
+    name: "get_basename_price",
+    description: `
+This tool will get the price in ETH of registering a Basename for one year.
+Shorter names cost more. Registration pays this price plus a small buffer, and any excess is refunded by the registrar.
+`,
+    schema: GetBasenamePriceSchema,
+  })
+  async getPrice(
+    wallet: EvmWalletProvider,
+    args: z.infer<typeof GetBasenamePriceSchema>
+  ): Promise<string> {
+    try {
+      const quote = await quoteBasename(
+        wallet,
+        args.basename,
+        this.priceBufferBps
+      );
+
+      return `Registering ${quote.basename} for one year costs ${formatEther(
+        quote.price
+      )} ETH. Registration will send ${formatEther(
+        quote.value
+      )} ETH and the excess is refunded.${
+        quote.available ? "" : ` Note that ${quote.basename} is not available.`
+      }`;
+    } catch (error) {
+      return `Error getting basename price: ${error}`;
+    }
   }
 
   /**
@@ -55,8 +206,8 @@ export class BasenameActionProvider extends ActionProvider<EvmWalletProvider> {
     description: `
 This tool will register a Basename for the agent. The agent should have a wallet associated to register a Basename.
 When your network ID is 'base-mainnet' (also sometimes known simply as 'base'), the name must end with .base.eth, and when your network ID is 'base-sepolia', it must ends with .basetest.eth.
-Do not suggest any alternatives and never try to register a Basename with another postfix. The prefix of the name must be unique so if the registration of the
-Basename fails, you should prompt to try again with a more unique name.
+Never try to register a Basename with another postfix. Check the Basename is available with check_basename_availability first, and if it is not, offer the suggested alternatives.
+The registration pays the price quoted by the registrar, so no amount is needed.
 `,
     schema: RegisterBasenameSchema,
   })
@@ -67,27 +218,52 @@ Basename fails, you should prompt to try again with a more unique name.
     const address = wallet.getAddress();
     const isMainnet = wallet.getNetwork().networkId === "base-mainnet";
 
-    const suffix = isMainnet ? ".base.eth" : ".basetest.eth";
-    if (!args.basename.endsWith(suffix)) {
-      args.basename += suffix;
-    }
-
     const l2ResolverAddress = isMainnet
       ? L2_RESOLVER_ADDRESS_MAINNET
       : L2_RESOLVER_ADDRESS_TESTNET;
 
-    const addressData = encodeFunctionData({
-      abi: L2_RESOLVER_ABI,
-      functionName: "setAddr",
-      args: [namehash(args.basename), address],
-    });
-    const nameData = encodeFunctionData({
-      abi: L2_RESOLVER_ABI,
-      functionName: "setName",
-      args: [namehash(args.basename), args.basename],
-    });
-
     try {
+      const quote = await quoteBasename(
+        wallet,
+        args.basename,
+        this.priceBufferBps
+      );
+
+      if (!quote.available) {
+        const suggestions = await suggestBasenames(wallet, quote.label);
+        return `Error registering basename: ${quote.basename} is not available${
+          suggestions.length > 0
+            ? `. Available alternatives: ${suggestions
+                .map((suggestion) => `${suggestion}${quote.suffix}`)
+                .join(", ")}`
+            : ""
+        }`;
+      }
+
+      if (args.amount && parseEther(args.amount) < quote.price) {
+        return `Error registering basename: ${
+          quote.basename
+        } costs ${formatEther(quote.price)} ETH, more than the maximum of ${
+          args.amount
+        } ETH`;
+      }
+
+      const value =
+        args.amount && parseEther(args.amount) < quote.value
+          ? parseEther(args.amount)
+          : quote.value;
+
+      const addressData = encodeFunctionData({
+        abi: L2_RESOLVER_ABI,
+        functionName: "setAddr",
+        args: [namehash(quote.basename), address as Hex],
+      });
+      const nameData = encodeFunctionData({
+        abi: L2_RESOLVER_ABI,
+        functionName: "setName",
+        args: [namehash(quote.basename), quote.basename],
+      });
+
       const contractAddress = isMainnet
         ? BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_MAINNET
         : BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_TESTNET;
@@ -99,7 +275,7 @@ Basename fails, you should prompt to try again with a more unique name.
           functionName: "register",
           args: [
             {
-              name: args.basename.replace(suffix, ""),
+              name: quote.label,
               owner: address as Hex,
               duration: REGISTRATION_DURATION,
               resolver: l2ResolverAddress,
@@ -108,12 +284,14 @@ Basename fails, you should prompt to try again with a more unique name.
             },
           ],
         }),
-        value: parseEther(args.amount),
+        value,
       });
 
       await wallet.waitForTransactionReceipt(hash);
 
-      return `Successfully registered basename ${args.basename} for address ${address}`;
+      return `Successfully registered basename ${
+        quote.basename
+      } for address ${address}, paying ${formatEther(quote.price)} ETH`;
     } catch (error) {
       return `Error registering basename: Error: ${error}`;
     }
@@ -146,118 +324,233 @@ The agent must have a wallet connected that owns the Basename. The transfer will
     wallet: EvmWalletProvider,
     args: z.infer<typeof TransferBasenameSchema>
   ): Promise<string> {
-    const agentAddress = wallet.getAddress();
-    const isMainnet = wallet.getNetwork().networkId === "base-mainnet";
+    try {
+      const agentAddress = wallet.getAddress();
+      const { basename } = parseBasename(wallet, args.basename);
+
+      const transfer = await this.transferStore.create({
+        basename,
+        networkId: wallet.getNetwork().networkId as string,
+        owner: agentAddress,
+        destination: args.destination,
+        steps: TRANSFER_STEPS.map((name) => ({ name, status: "PENDING" })),
+      });
+
+      return await this.runTransfer(wallet, transfer);
+    } catch (error) {
+      return `Error transferring basename: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+    }
+  }
+
+  /**
+   * Resumes a Basename transfer that failed midway.
+   *
+   * @param wallet - The wallet to use for the transfer.
+   * @param args - The arguments for resuming the transfer.
+   * @returns A string with the progress of each transfer step.
+   */
+  @CreateAction({
+    name: "resume_basename_transfer",
+    description: `
+This tool will resume the latest transfer of a Basename from the agent's wallet that failed before completing.
+It checks the onchain state of the Basename and continues from the first step that has not completed, so steps are never sent twice.
+
+It takes the following inputs:
+- basename: The Basename whose transfer should be resumed
 
-    const suffix = isMainnet ? ".base.eth" : ".basetest.eth";
-    if (!args.basename.endsWith(suffix)) {
-      args.basename += suffix;
+Use this when register_and_transfer_basename reports that the transfer failed after the Basename was registered.
+`,
+    schema: ResumeBasenameTransferSchema,
+  })
+  async resumeTransfer(
+    wallet: EvmWalletProvider,
+    args: z.infer<typeof ResumeBasenameTransferSchema>
+  ): Promise<string> {
+    try {
+      const { basename } = parseBasename(wallet, args.basename);
+
+      const transfer = await this.transferStore.findLatest({
+        basename,
+        networkId: wallet.getNetwork().networkId as string,
+      });
+
+      if (!transfer) {
+        return `Error resuming basename transfer: no transfer of ${basename} was started`;
+      }
+
+      if (transfer.status === "COMPLETED") {
+        return `Basename ${basename} was already transferred to ${
+          transfer.destination
+        }\n${formatTransferSteps(transfer.steps)}`;
+      }
+
+      return await this.runTransfer(wallet, transfer);
+    } catch (error) {
+      return `Error resuming basename transfer: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
     }
+  }
+
+  /**
+   * Runs the steps of a transfer in order, skipping steps that are already
+   * complete onchain and persisting each transaction hash as it is sent.
+   *
+   * @param wallet - The wallet that owns the Basename.
+   * @param transfer - The transfer to run.
+   * @returns A string with the progress of each transfer step.
+   */
+  private async runTransfer(
+    wallet: EvmWalletProvider,
+    transfer: BasenameTransfer
+  ): Promise<string> {
+    const isMainnet = wallet.getNetwork().networkId === "base-mainnet";
 
     const l2ResolverAddress = isMainnet
       ? L2_RESOLVER_ADDRESS_MAINNET
       : L2_RESOLVER_ADDRESS_TESTNET;
+    const baseRegistrarAddress = isMainnet
+      ? BASENAMES_BASE_REGISTRAR_ADDRESS_MAINNET
+      : BASENAMES_BASE_REGISTRAR_ADDRESS_TESTNET;
+
+    const agentAddress = wallet.getAddress() as Hex;
+    const destination = transfer.destination as Hex;
+    const nameHash = namehash(transfer.basename);
+    const { label } = parseBasename(wallet, transfer.basename);
+    const tokenId = BigInt(keccak256(toBytes(label)));
+
+    const steps = transfer.steps.map((step) => ({ ...step }));
+    await this.transferStore.update({
+      id: transfer.id,
+      status: "IN_PROGRESS",
+      error: null,
+    });
 
-    // Set the address record for the basename
     try {
-      // Step 1: Set the address record
-      const nameHash = namehash(args.basename);
-      const setAddrHash = await wallet.sendTransaction({
-        to: l2ResolverAddress,
-        data: encodeFunctionData({
-          abi: L2_RESOLVER_ABI,
-          functionName: "setAddr",
-          args: [nameHash, args.destination as `0x${string}`],
-        }),
-      });
-      const addrReceipt = await wallet.waitForTransactionReceipt(setAddrHash);
-      console.log(
-        "Set address record transaction completed in block",
-        addrReceipt.blockNumber,
-        "with tx:",
-        setAddrHash
-      );
+      const owner = (await wallet.readContract({
+        address: baseRegistrarAddress,
+        abi: BASE_REGISTRAR_TRANSFER_ABI,
+        functionName: "ownerOf",
+        args: [tokenId],
+      })) as Hex;
+      const tokenTransferred = isAddressEqual(owner, destination);
 
-      // Step 2: Set the name record after address record completes
-      const setNameHash = await wallet.sendTransaction({
-        to: l2ResolverAddress,
-        data: encodeFunctionData({
-          abi: L2_RESOLVER_ABI,
-          functionName: "setName",
-          args: [nameHash, args.basename],
-        }),
-      });
-      const nameReceipt = await wallet.waitForTransactionReceipt(setNameHash);
-      console.log(
-        "Set name record transaction completed in block",
-        nameReceipt.blockNumber,
-        "with tx:",
-        setNameHash
-      );
+      if (!tokenTransferred && !isAddressEqual(owner, agentAddress)) {
+        throw new Error(
+          `${transfer.basename} is owned by ${owner}, not the agent`
+        );
+      }
 
-      // Step 3: Reclaim the basename after name record completes
-      const baseRegistrarAddress = isMainnet
-        ? BASENAMES_BASE_REGISTRAR_ADDRESS_MAINNET
-        : BASENAMES_BASE_REGISTRAR_ADDRESS_TESTNET;
+      const isComplete = async (name: BasenameTransferStep["name"]) => {
+        switch (name) {
+          case "set_addr": {
+            const addr = (await wallet.readContract({
+              address: l2ResolverAddress,
+              abi: L2_RESOLVER_ABI,
+              functionName: "addr",
+              args: [nameHash],
+            })) as Hex;
+            return isAddressEqual(addr, destination);
+          }
+          case "set_name":
+            return (
+              (await wallet.readContract({
+                address: l2ResolverAddress,
+                abi: L2_RESOLVER_ABI,
+                functionName: "name",
+                args: [nameHash],
+              })) === transfer.basename
+            );
+          case "reclaim":
+          case "transfer":
+            return tokenTransferred;
+        }
+      };
 
-      // Get just the label (remove .base.eth or .basetest.eth)
-      const label = args.basename.replace(suffix, "");
-      const tokenId = BigInt(keccak256(toBytes(label)));
-      console.log("Label:", label);
-      console.log("Token ID:", tokenId.toString());
+      const transactions: Record<
+        BasenameTransferStep["name"],
+        TransactionRequest
+      > = {
+        set_addr: {
+          to: l2ResolverAddress,
+          data: encodeFunctionData({
+            abi: L2_RESOLVER_ABI,
+            functionName: "setAddr",
+            args: [nameHash, destination],
+          }),
+        },
+        set_name: {
+          to: l2ResolverAddress,
+          data: encodeFunctionData({
+            abi: L2_RESOLVER_ABI,
+            functionName: "setName",
+            args: [nameHash, transfer.basename],
+          }),
+        },
+        reclaim: {
+          to: baseRegistrarAddress,
+          data: encodeFunctionData({
+            abi: BASE_REGISTRAR_TRANSFER_ABI,
+            functionName: "reclaim",
+            args: [tokenId, destination],
+          }),
+          gas: 100000n,
+        },
+        transfer: {
+          to: baseRegistrarAddress,
+          data: encodeFunctionData({
+            abi: BASE_REGISTRAR_TRANSFER_ABI,
+            functionName: "safeTransferFrom",
+            args: [agentAddress, destination, tokenId],
+          }),
+          gas: 100000n,
+        },
+      };
 
-      const reclaimHash = await wallet.sendTransaction({
-        to: baseRegistrarAddress,
-        data: encodeFunctionData({
-          abi: BASE_REGISTRAR_TRANSFER_ABI,
-          functionName: "reclaim",
-          args: [tokenId, args.destination as `0x${string}`],
-        }),
-        gas: 100000n,
-      });
+      for (const step of steps) {
+        if (step.status === "CONFIRMED") {
+          continue;
+        }
 
-      const reclaimReceipt = await wallet.waitForTransactionReceipt(
-        reclaimHash
-      );
-      console.log(
-        "Reclaim transaction completed in block",
-        reclaimReceipt.blockNumber,
-        "with tx:",
-        reclaimHash
-      );
+        if (!(await isComplete(step.name))) {
+          const hash = await wallet.sendTransaction(transactions[step.name]);
+          step.transactionHash = hash;
+          await this.transferStore.update({ id: transfer.id, steps });
 
-      // Step 4: Transfer the ENS name
-      const transferHash = await wallet.sendTransaction({
-        to: baseRegistrarAddress,
-        data: encodeFunctionData({
-          abi: BASE_REGISTRAR_TRANSFER_ABI,
-          functionName: "safeTransferFrom",
-          args: [
-            agentAddress as `0x${string}`,
-            args.destination as `0x${string}`,
-            tokenId,
-          ],
-        }),
-        gas: 100000n,
-      });
+          const receipt = await wallet.waitForTransactionReceipt(hash);
+          if (receipt.status === "reverted") {
+            throw new Error(`${TRANSFER_STEP_LABELS[step.name]} reverted`);
+          }
+        }
 
-      const transferReceipt = await wallet.waitForTransactionReceipt(
-        transferHash
-      );
-      console.log(
-        "Transfer transaction completed in block",
-        transferReceipt.blockNumber,
-        "with tx:",
-        transferHash
-      );
+        step.status = "CONFIRMED";
+        await this.transferStore.update({ id: transfer.id, steps });
+      }
+
+      await this.transferStore.update({
+        id: transfer.id,
+        status: "COMPLETED",
+        steps,
+      });
 
-      return `Successfully transferred basename ${args.basename} to ${args.destination}`;
+      return `Successfully transferred basename ${transfer.basename} to ${
+        transfer.destination
+      }\n${formatTransferSteps(steps)}`;
     } catch (error) {
-      console.error("Error in transfer process:", error);
+      const message = error instanceof Error ? error.message : String(error);
+      await this.transferStore.update({
+        id: transfer.id,
+        status: "FAILED",
+        steps,
+        error: message,
+      });
+
       throw new Error(
-        `Transfer failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+        `Transfer failed: ${message}\n${formatTransferSteps(
+          steps
+        )}\nUse resume_basename_transfer to continue from the first incomplete step.`
       );
     }
   }
@@ -275,6 +568,7 @@ The agent must have a wallet connected that owns the Basename. The transfer will
     description: `
 This tool will register a Basename and immediately transfer it to a new owner.
 When your network ID is 'base-mainnet', the name must end with .base.eth, and when your network ID is 'base-sepolia', it must end with .basetest.eth.
+Check the Basename is available with check_basename_availability first. The registration pays the price quoted by the registrar, so no amount is needed.
 The tool will:
 1. Register the Basename to the agent's wallet
 2. Transfer ownership to the specified destination address
@@ -306,6 +600,12 @@ The tool will:
           : BASENAMES_BASE_REGISTRAR_ADDRESS_TESTNET,
       });
 
+      // The basename stays registered to the agent until
+      // resume_basename_transfer completes the transfer
+      if (!transferResult.startsWith("Successfully")) {
+        return `Error in register and transfer process: ${registerResult}, but the transfer failed\n${transferResult}`;
+      }
+
       return `${registerResult}\n${transferResult}`;
     } catch (error) {
       return `Error in register and transfer process: ${
@@ -314,6 +614,247 @@ The tool will:
     }
   }
 
+  /**
+   * Reads the records, owner and expiry of a Basename.
+   *
+   * @param wallet - The wallet to read with.
+   * @param args - The Basename to read.
+   * @returns A JSON string with the profile of the Basename.
+   */
+  @CreateAction({
+    name: "get_basename_profile",
+    description: `
+This tool will read the profile of a Basename: its owner, the address it resolves to, its text records (description, twitter, url, avatar) and when it expires.
+The result can be shown to the user with the show-basename userAction.
+`,
+    schema: GetBasenameProfileSchema,
+  })
+  async getProfile(
+    wallet: EvmWalletProvider,
+    args: z.infer<typeof GetBasenameProfileSchema>
+  ): Promise<string> {
+    try {
+      const { basename, label } = parseBasename(wallet, args.basename);
+      const { l2ResolverAddress, baseRegistrarAddress } =
+        this.getAddresses(wallet);
+      const nameHash = namehash(basename);
+      const tokenId = BigInt(keccak256(toBytes(label)));
+
+      const [owner, address, expires, ...texts] = await Promise.all([
+        wallet.readContract({
+          address: baseRegistrarAddress,
+          abi: BASE_REGISTRAR_TRANSFER_ABI,
+          functionName: "ownerOf",
+          args: [tokenId],
+        }),
+        wallet.readContract({
+          address: l2ResolverAddress,
+          abi: L2_RESOLVER_ABI,
+          functionName: "addr",
+          args: [nameHash],
+        }),
+        wallet.readContract({
+          address: baseRegistrarAddress,
+          abi: BASE_REGISTRAR_TRANSFER_ABI,
+          functionName: "nameExpires",
+          args: [tokenId],
+        }),
+        ...Object.values(BASENAME_TEXT_RECORD_KEYS).map((key) =>
+          wallet.readContract({
+            address: l2ResolverAddress,
+            abi: L2_RESOLVER_ABI,
+            functionName: "text",
+            args: [nameHash, key],
+          })
+        ),
+      ]);
+
+      const records = Object.fromEntries(
+        Object.keys(BASENAME_TEXT_RECORD_KEYS)
+          .map((field, index) => [field, texts[index] as string])
+          .filter(([, value]) => value)
+      );
+
+      return JSON.stringify({
+        basename,
+        owner,
+        address,
+        records,
+        expiresAt: new Date(Number(expires as bigint) * 1000).toISOString(),
+      });
+    } catch (error) {
+      return `Error getting basename profile: ${error}`;
+    }
+  }
+
+  /**
+   * Sets text records on a Basename.
+   *
+   * @param wallet - The wallet to use if the agent owns the Basename.
+   * @param args - The Basename and the records to set.
+   * @returns A string indicating the success of the update, or a transaction for the owner to sign.
+   */
+  @CreateAction({
+    name: "set_basename_text_records",
+    description: `
+This tool will set text records on a Basename: description, twitter, url and avatar. Only the records that are given are changed.
+If the agent owns the Basename, the records are set straight away. Otherwise the owner must sign the update themselves: the tool returns a transaction that should be shown to the user with the transaction userAction.
+`,
+    schema: SetBasenameTextRecordsSchema,
+  })
+  async setTextRecords(
+    wallet: EvmWalletProvider,
+    args: z.infer<typeof SetBasenameTextRecordsSchema>
+  ): Promise<string> {
+    try {
+      const { basename, label } = parseBasename(wallet, args.basename);
+      const { l2ResolverAddress, baseRegistrarAddress } =
+        this.getAddresses(wallet);
+      const nameHash = namehash(basename);
+
+      const fields = (
+        Object.keys(BASENAME_TEXT_RECORD_KEYS) as Array<
+          keyof typeof BASENAME_TEXT_RECORD_KEYS
+        >
+      ).filter((field) => args[field] !== undefined);
+
+      if (fields.length === 0) {
+        return "Error setting basename records: no records were given";
+      }
+
+      const calls = fields.map((field) =>
+        encodeFunctionData({
+          abi: L2_RESOLVER_ABI,
+          functionName: "setText",
+          args: [
+            nameHash,
+            BASENAME_TEXT_RECORD_KEYS[field],
+            args[field] as string,
+          ],
+        })
+      );
+      const data =
+        calls.length === 1
+          ? calls[0]
+          : encodeFunctionData({
+              abi: L2_RESOLVER_ABI,
+              functionName: "multicall",
+              args: [calls],
+            });
+
+      const owner = (await wallet.readContract({
+        address: baseRegistrarAddress,
+        abi: BASE_REGISTRAR_TRANSFER_ABI,
+        functionName: "ownerOf",
+        args: [BigInt(keccak256(toBytes(label)))],
+      })) as Hex;
+
+      if (!isAddressEqual(owner, wallet.getAddress() as Hex)) {
+        return JSON.stringify({
+          status: "requires_user_transaction",
+          message: `${basename} is owned by ${owner}, so the owner must sign the update of ${fields.join(
+            ", "
+          )}. Show them this transaction with the transaction userAction.`,
+          transaction: {
+            to: l2ResolverAddress,
+            value: "0",
+            data,
+            chainId: Number(wallet.getNetwork().chainId),
+          },
+        });
+      }
+
+      const hash = await wallet.sendTransaction({
+        to: l2ResolverAddress,
+        data,
+      });
+      await wallet.waitForTransactionReceipt(hash);
+
+      return `Successfully set ${fields.join(
+        ", "
+      )} on basename ${basename} in transaction ${hash}`;
+    } catch (error) {
+      return `Error setting basename records: ${error}`;
+    }
+  }
+
+  /**
+   * Prepares the renewal of a Basename.
+   *
+   * @param wallet - The wallet to read the price with.
+   * @param args - The Basename and number of years.
+   * @returns A JSON string with the renewal transaction for the user to sign.
+   */
+  @CreateAction({
+    name: "renew_basename",
+    description: `
+This tool will prepare the renewal of a Basename for a number of years (1 by default), priced by the registrar.
+Anyone can renew a Basename, and the user pays for it: the tool returns a transaction that should be shown to the user with the transaction userAction.
+`,
+    schema: RenewBasenameSchema,
+  })
+  async renew(
+    wallet: EvmWalletProvider,
+    args: z.infer<typeof RenewBasenameSchema>
+  ): Promise<string> {
+    try {
+      const { basename, label } = parseBasename(wallet, args.basename);
+      const { registrarControllerAddress } = this.getAddresses(wallet);
+      const duration = REGISTRATION_DURATION * BigInt(args.years);
+
+      const price = (await wallet.readContract({
+        address: registrarControllerAddress,
+        abi: REGISTRAR_ABI,
+        functionName: "rentPrice",
+        args: [label, duration],
+      })) as { base: bigint; premium: bigint };
+      const value = price.base + (price.base * this.priceBufferBps) / 10000n;
+
+      return JSON.stringify({
+        status: "requires_user_transaction",
+        message: `Renewing ${basename} for ${args.years} year${
+          args.years === 1 ? "" : "s"
+        } costs ${formatEther(
+          price.base
+        )} ETH, and any excess sent is refunded. Show the user this transaction with the transaction userAction.`,
+        transaction: {
+          to: registrarControllerAddress,
+          value: formatEther(value),
+          data: encodeFunctionData({
+            abi: REGISTRAR_ABI,
+            functionName: "renew",
+            args: [label, duration],
+          }),
+          chainId: Number(wallet.getNetwork().chainId),
+        },
+      });
+    } catch (error) {
+      return `Error renewing basename: ${error}`;
+    }
+  }
+
+  /**
+   * Gets the Basenames contract addresses for the wallet's network.
+   *
+   * @param wallet - The wallet, used to determine the network.
+   * @returns The contract addresses.
+   */
+  private getAddresses(wallet: EvmWalletProvider) {
+    const isMainnet = wallet.getNetwork().networkId === "base-mainnet";
+
+    return {
+      l2ResolverAddress: isMainnet
+        ? L2_RESOLVER_ADDRESS_MAINNET
+        : L2_RESOLVER_ADDRESS_TESTNET,
+      baseRegistrarAddress: isMainnet
+        ? BASENAMES_BASE_REGISTRAR_ADDRESS_MAINNET
+        : BASENAMES_BASE_REGISTRAR_ADDRESS_TESTNET,
+      registrarControllerAddress: isMainnet
+        ? BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_MAINNET
+        : BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_TESTNET,
+    } as const;
+  }
+
   /**
    * Checks if the Basename action provider supports the given network.
    *
@@ -325,4 +866,5 @@ The tool will:
     network.networkId === "base-sepolia";
 }
 
-export const basenameActionProvider = () => new BasenameActionProvider();
+export const basenameActionProvider = (config?: BasenameActionProviderConfig) =>
+  new BasenameActionProvider(config);
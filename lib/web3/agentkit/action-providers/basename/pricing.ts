@@ -0,0 +1,138 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import {
+  BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_MAINNET,
+  BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_TESTNET,
+  DEFAULT_PRICE_BUFFER_BPS,
+  REGISTRAR_ABI,
+  REGISTRATION_DURATION,
+} from "./constants";
+
+/**
+ * A Basename split into its label and the suffix for the wallet's network.
+ */
+export interface ParsedBasename {
+  basename: string;
+  label: string;
+  suffix: string;
+}
+
+/**
+ * The price of registering a Basename for the default duration.
+ */
+export interface BasenameQuote extends ParsedBasename {
+  available: boolean;
+  /**
+   * The price quoted by the registrar controller, in wei
+   */
+  price: bigint;
+  /**
+   * The price plus the buffer, which is what registration sends, in wei
+   */
+  value: bigint;
+}
+
+/**
+ * Appends the network suffix to a Basename if it is missing.
+ *
+ * @param wallet - The wallet, used to determine the network.
+ * @param basename - The Basename, with or without suffix.
+ * @returns The Basename with suffix and its label.
+ */
+export const parseBasename = (
+  wallet: EvmWalletProvider,
+  basename: string
+): ParsedBasename => {
+  const isMainnet = wallet.getNetwork().networkId === "base-mainnet";
+  const suffix = isMainnet ? ".base.eth" : ".basetest.eth";
+  const name = basename.trim().toLowerCase();
+  const label = name.endsWith(suffix) ? name.slice(0, -suffix.length) : name;
+
+  return { basename: `${label}${suffix}`, label, suffix };
+};
+
+const registrarController = (wallet: EvmWalletProvider) =>
+  wallet.getNetwork().networkId === "base-mainnet"
+    ? BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_MAINNET
+    : BASENAMES_REGISTRAR_CONTROLLER_ADDRESS_TESTNET;
+
+/**
+ * Checks whether a Basename label can be registered.
+ *
+ * @param wallet - The wallet to read the registrar controller with.
+ * @param label - The label, without suffix.
+ * @returns True if the label is valid and not registered.
+ */
+export const isBasenameAvailable = async (
+  wallet: EvmWalletProvider,
+  label: string
+): Promise<boolean> =>
+  (await wallet.readContract({
+    address: registrarController(wallet),
+    abi: REGISTRAR_ABI,
+    functionName: "available",
+    args: [label],
+  })) as boolean;
+
+/**
+ * Quotes the registration of a Basename.
+ *
+ * @param wallet - The wallet to read the registrar controller with.
+ * @param basename - The Basename, with or without suffix.
+ * @param bufferBps - The buffer added to the price, in basis points.
+ * @returns The quote.
+ */
+export const quoteBasename = async (
+  wallet: EvmWalletProvider,
+  basename: string,
+  bufferBps: bigint = DEFAULT_PRICE_BUFFER_BPS
+): Promise<BasenameQuote> => {
+  const parsed = parseBasename(wallet, basename);
+  const [available, price] = await Promise.all([
+    isBasenameAvailable(wallet, parsed.label),
+    wallet.readContract({
+      address: registrarController(wallet),
+      abi: REGISTRAR_ABI,
+      functionName: "registerPrice",
+      args: [parsed.label, REGISTRATION_DURATION],
+    }) as Promise<bigint>,
+  ]);
+
+  return {
+    ...parsed,
+    available,
+    price,
+    value: price + (price * bufferBps) / 10000n,
+  };
+};
+
+/**
+ * Finds available variants of a Basename label.
+ *
+ * @param wallet - The wallet to read the registrar controller with.
+ * @param label - The label that is taken.
+ * @param limit - The maximum number of variants to return.
+ * @returns Available labels, without suffix.
+ */
+export const suggestBasenames = async (
+  wallet: EvmWalletProvider,
+  label: string,
+  limit = 3
+): Promise<Array<string>> => {
+  const year = new Date().getFullYear();
+  const candidates = [
+    `${label}onchain`,
+    `${label}${year}`,
+    `the${label}`,
+    `${label}-base`,
+    `${label}${Math.floor(Math.random() * 900) + 100}`,
+    `based${label}`,
+  ];
+
+  const available = await Promise.all(
+    candidates.map((candidate) =>
+      isBasenameAvailable(wallet, candidate).catch(() => false)
+    )
+  );
+
+  return candidates.filter((_, index) => available[index]).slice(0, limit);
+};
@@ -8,8 +8,10 @@ export const RegisterBasenameSchema = z
     basename: z.string().describe("The Basename to assign to the agent"),
     amount: z
       .string()
-      .default("0.002")
-      .describe("The amount of ETH to pay for registration"),
+      .optional()
+      .describe(
+        "The maximum amount of ETH to pay for registration. Defaults to the quoted price plus a buffer"
+      ),
   })
   .strip()
   .describe("Instructions for registering a Basename");
@@ -32,6 +34,85 @@ export const TransferBasenameSchema = z
 
 export const RegisterAndTransferBasenameSchema = z.object({
   basename: z.string().min(1),
-  amount: z.string(),
+  amount: z.string().optional(),
   destination: z.string(),
 });
+
+/**
+ * Input schema for checking availability.
+ */
+export const CheckBasenameAvailabilitySchema = z
+  .object({
+    basename: z.string().describe("The Basename to check"),
+  })
+  .strip()
+  .describe("Instructions for checking whether a basename is available");
+
+/**
+ * Input schema for pricing a Basename.
+ */
+export const GetBasenamePriceSchema = z
+  .object({
+    basename: z.string().describe("The Basename to price"),
+  })
+  .strip()
+  .describe("Instructions for getting the price of a basename");
+
+/**
+ * Input schema for resuming a transfer.
+ */
+export const ResumeBasenameTransferSchema = z
+  .object({
+    basename: z
+      .string()
+      .describe("The Basename whose failed transfer should be resumed"),
+  })
+  .strip()
+  .describe("Instructions for resuming a basename transfer");
+
+/**
+ * Input schema for reading a Basename profile.
+ */
+export const GetBasenameProfileSchema = z
+  .object({
+    basename: z.string().describe("The Basename to read"),
+  })
+  .strip()
+  .describe("Instructions for reading the records and expiry of a basename");
+
+/**
+ * Input schema for setting text records.
+ */
+export const SetBasenameTextRecordsSchema = z
+  .object({
+    basename: z.string().describe("The Basename to update"),
+    description: z.string().optional().describe("A short bio"),
+    twitter: z
+      .string()
+      .optional()
+      .describe("The X (Twitter) handle, without the @"),
+    url: z.string().url().optional().describe("A website URL"),
+    avatar: z
+      .string()
+      .optional()
+      .describe("An avatar image URL, ipfs:// URI or NFT URI"),
+  })
+  .strip()
+  .describe("Instructions for setting the text records of a basename");
+
+/**
+ * Input schema for renewing a Basename.
+ */
+export const RenewBasenameSchema = z
+  .object({
+    basename: z.string().describe("The Basename to renew"),
+    years: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .default(1)
+      .describe("The number of years to renew for"),
+  })
+  .strip()
+  .describe("Instructions for renewing a basename");
@@ -0,0 +1,76 @@
+import {
+  createBasenameTransfer,
+  getLatestBasenameTransfer,
+  updateBasenameTransfer,
+} from "@/lib/db/queries";
+import type { BasenameTransfer } from "@/lib/db/schema";
+
+export type BasenameTransferInput = Pick<
+  BasenameTransfer,
+  "basename" | "networkId" | "owner" | "destination" | "steps"
+>;
+
+export type BasenameTransferUpdate = Pick<BasenameTransfer, "id"> &
+  Partial<Pick<BasenameTransfer, "status" | "steps" | "error">>;
+
+/**
+ * Persists the progress of basename transfers so that a transfer that failed
+ * midway can be resumed.
+ */
+export interface BasenameTransferStore {
+  create(transfer: BasenameTransferInput): Promise<BasenameTransfer>;
+  findLatest(query: {
+    basename: string;
+    networkId: string;
+  }): Promise<BasenameTransfer | undefined>;
+  update(update: BasenameTransferUpdate): Promise<void>;
+}
+
+/**
+ * Stores transfers in the BasenameTransfer table.
+ */
+export const databaseBasenameTransferStore: BasenameTransferStore = {
+  create: (transfer) => createBasenameTransfer(transfer),
+  findLatest: (query) => getLatestBasenameTransfer(query),
+  update: async (update) => {
+    await updateBasenameTransfer(update);
+  },
+};
+
+/**
+ * Stores transfers in memory, for tests and local development.
+ */
+export const memoryBasenameTransferStore = (): BasenameTransferStore => {
+  const transfers = new Map<string, BasenameTransfer>();
+
+  return {
+    create: async (transfer) => {
+      const now = new Date();
+      const created: BasenameTransfer = {
+        ...transfer,
+        id: crypto.randomUUID(),
+        owner: transfer.owner.toLowerCase(),
+        destination: transfer.destination.toLowerCase(),
+        status: "IN_PROGRESS",
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      transfers.set(created.id, created);
+      return created;
+    },
+    findLatest: async ({ basename, networkId }) =>
+      Array.from(transfers.values())
+        .filter(
+          (transfer) =>
+            transfer.basename === basename && transfer.networkId === networkId
+        )
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0],
+    update: async ({ id, ...data }) => {
+      const transfer = transfers.get(id);
+      if (transfer) {
+        transfers.set(id, { ...transfer, ...data, updatedAt: new Date() });
+      }
+    },
+  };
+};
@@ -0,0 +1,99 @@
+import type { Abi, Address } from "viem";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { type LocalChain, startLocalChain } from "@/test/harness/chain";
+import { deployContract } from "@/test/harness/contracts";
+import { ERC20ActionProvider } from "./erc20ActionProvider";
+
+describe("ERC20ActionProvider", () => {
+  const provider = new ERC20ActionProvider();
+  let chain: LocalChain;
+  let token: { address: Address; abi: Abi };
+
+  const balanceOf = (address: Address) =>
+    chain.publicClient.readContract({
+      ...token,
+      functionName: "balanceOf",
+      args: [address],
+    });
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+    token = await deployContract(chain, "MockERC20", ["Test Token", "TST", 6]);
+    await chain.walletClient.writeContract({
+      ...token,
+      functionName: "mint",
+      args: [chain.accounts[0].address, 100_000_000n],
+      account: chain.accounts[0],
+      chain: chain.chain,
+    });
+  });
+
+  afterAll(() => chain?.stop());
+
+  it("gets balances in whole units", async () => {
+    const result = await provider.getBalance(chain.walletProvider(), {
+      contractAddress: token.address,
+    });
+
+    expect(result).toBe(`Balance of TST (${token.address}) is 100 TST`);
+  });
+
+  it("transfers an amount given in whole units", async () => {
+    const recipient = chain.accounts[1].address;
+
+    const result = await provider.transfer(chain.walletProvider(), {
+      amount: "1.5",
+      contractAddress: token.address,
+      destination: recipient,
+    });
+
+    expect(result).toContain(`Transferred 1.5 TST (${token.address})`);
+    expect(await balanceOf(recipient)).toBe(1_500_000n);
+  });
+
+  it("fails to transfer more than the balance", async () => {
+    const result = await provider.transfer(chain.walletProvider(2), {
+      amount: "1",
+      contractAddress: token.address,
+      destination: chain.accounts[1].address,
+    });
+
+    expect(result).toMatch(/^Error transferring the asset/);
+  });
+
+  it("refuses amounts with more decimals than the token", async () => {
+    const result = await provider.transfer(chain.walletProvider(), {
+      amount: "0.0000001",
+      contractAddress: token.address,
+      destination: chain.accounts[1].address,
+    });
+
+    expect(result).toContain("more than the 6 decimal places");
+  });
+
+  it("approves and revokes a spender", async () => {
+    const spender = chain.accounts[2].address;
+
+    expect(
+      await provider.approve(chain.walletProvider(), {
+        contractAddress: token.address,
+        spender,
+        amount: "10",
+      })
+    ).toContain(`Approved ${spender} to spend 10 TST`);
+    expect(
+      await provider.getAllowance(chain.walletProvider(), {
+        contractAddress: token.address,
+        spender,
+      })
+    ).toContain("may spend 10 TST");
+
+    expect(
+      await provider.approve(chain.walletProvider(), {
+        contractAddress: token.address,
+        spender,
+        amount: "0",
+      })
+    ).toContain(`Revoked the approval of ${spender}`);
+  });
+});
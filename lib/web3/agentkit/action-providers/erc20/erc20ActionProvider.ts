@@ -5,9 +5,15 @@ import {
   EvmWalletProvider,
 } from "@coinbase/agentkit";
 import type { Network } from "../types";
-import { GetBalanceSchema, TransferSchema } from "./schemas";
+import {
+  ApproveSchema,
+  GetAllowanceSchema,
+  GetBalanceSchema,
+  TransferSchema,
+} from "./schemas";
 import { abi } from "./constants";
-import { encodeFunctionData, type Hex } from "viem";
+import { encodeFunctionData, formatUnits, type Hex } from "viem";
+import { formatAllowance, getTokenDetails, parseTokenAmount } from "./utils";
 
 /**
  * ERC20ActionProvider is an action provider for ERC20 tokens.
@@ -25,7 +31,7 @@ export class ERC20ActionProvider extends ActionProvider {
    *
    * @param walletProvider - The wallet provider to get the balance from.
    * @param args - The input arguments for the action.
-   * @returns A message containing the balance.
+   * @returns A message containing the balance in whole units.
    */
   @CreateAction({
     name: "get_balance",
@@ -34,6 +40,7 @@ export class ERC20ActionProvider extends ActionProvider {
     It takes the following inputs, both are addresses:
       - address: The user address to get the balance for
       - contractAddress: The contract address of the token which the balance is being checked for
+    The balance is returned in whole units of the token, e.g. 0.1 AERO.
     `,
     schema: GetBalanceSchema,
   })
@@ -42,14 +49,20 @@ export class ERC20ActionProvider extends ActionProvider {
     args: z.infer<typeof GetBalanceSchema>
   ): Promise<string> {
     try {
-      const balance = await walletProvider.readContract({
-        address: args.contractAddress as Hex,
-        abi,
-        functionName: "balanceOf",
-        args: [args.address || walletProvider.getAddress()],
-      });
+      const [balance, { symbol, decimals }] = await Promise.all([
+        walletProvider.readContract({
+          address: args.contractAddress as Hex,
+          abi,
+          functionName: "balanceOf",
+          args: [args.address || walletProvider.getAddress()],
+        }) as Promise<bigint>,
+        getTokenDetails(walletProvider, args.contractAddress),
+      ]);
 
-      return `Balance of ${args.contractAddress} is ${balance}`;
+      return `Balance of ${symbol} (${args.contractAddress}) is ${formatUnits(
+        balance,
+        decimals
+      )} ${symbol}`;
     } catch (error) {
       return `Error getting balance: ${error}`;
     }
@@ -68,7 +81,7 @@ export class ERC20ActionProvider extends ActionProvider {
     This tool will transfer an ERC20 token from the wallet to another onchain address.
 
 It takes the following inputs:
-- amount: The amount to transfer
+- amount: The amount to transfer in whole units of the token, e.g. '1000' or '0.1' (not base units)
 - contractAddress: The contract address of the token to transfer
 - destination: Where to send the funds (can be an onchain address, ENS 'example.eth', or Basename 'example.base.eth')
 
@@ -83,23 +96,128 @@ Important notes:
     args: z.infer<typeof TransferSchema>
   ): Promise<string> {
     try {
+      const { symbol, decimals } = await getTokenDetails(
+        walletProvider,
+        args.contractAddress
+      );
+      const amount = parseTokenAmount(args.amount, decimals);
+
       const hash = await walletProvider.sendTransaction({
         to: args.contractAddress as Hex,
         data: encodeFunctionData({
           abi,
           functionName: "transfer",
-          args: [args.destination as Hex, BigInt(args.amount)],
+          args: [args.destination as Hex, amount],
         }),
       });
 
       await walletProvider.waitForTransactionReceipt(hash);
 
-      return `Transferred ${args.amount} of ${args.contractAddress} to ${args.destination}.\nTransaction hash for the transfer: ${hash}`;
+      return `Transferred ${formatUnits(amount, decimals)} ${symbol} (${
+        args.contractAddress
+      }) to ${args.destination}.\nTransaction hash for the transfer: ${hash}`;
     } catch (error) {
       return `Error transferring the asset: ${error}`;
     }
   }
 
+  /**
+   * Approves a spender to spend an ERC20 token from the wallet.
+   *
+   * @param walletProvider - The wallet provider to approve from.
+   * @param args - The input arguments for the action.
+   * @returns A message containing the approval details.
+   */
+  @CreateAction({
+    name: "approve",
+    description: `
+    This tool will approve an address to spend an ERC20 token held by the wallet.
+
+It takes the following inputs:
+- contractAddress: The contract address of the token
+- spender: The address allowed to spend the tokens, usually a protocol contract
+- amount: The maximum amount the spender may spend in whole units of the token, e.g. '1000' or '0.1'. Use '0' to revoke an approval
+
+Important notes:
+- An approval lets the spender move the tokens at any time until it is revoked, so only approve what is needed
+    `,
+    schema: ApproveSchema,
+  })
+  async approve(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof ApproveSchema>
+  ): Promise<string> {
+    try {
+      const { symbol, decimals } = await getTokenDetails(
+        walletProvider,
+        args.contractAddress
+      );
+      const amount = parseTokenAmount(args.amount, decimals);
+
+      const hash = await walletProvider.sendTransaction({
+        to: args.contractAddress as Hex,
+        data: encodeFunctionData({
+          abi,
+          functionName: "approve",
+          args: [args.spender as Hex, amount],
+        }),
+      });
+
+      await walletProvider.waitForTransactionReceipt(hash);
+
+      return `${amount === 0n ? "Revoked the approval of" : "Approved"} ${
+        args.spender
+      } to spend ${formatUnits(amount, decimals)} ${symbol} (${
+        args.contractAddress
+      }).\nTransaction hash for the approval: ${hash}`;
+    } catch (error) {
+      return `Error approving the spender: ${error}`;
+    }
+  }
+
+  /**
+   * Gets the amount of an ERC20 token a spender may spend on behalf of an owner.
+   *
+   * @param walletProvider - The wallet provider to read the allowance with.
+   * @param args - The input arguments for the action.
+   * @returns A message containing the allowance in whole units.
+   */
+  @CreateAction({
+    name: "get_allowance",
+    description: `
+    This tool will get the amount of an ERC20 token a spender is approved to spend on behalf of an owner.
+    It takes the following inputs, all are addresses:
+      - contractAddress: The contract address of the token
+      - spender: The address allowed to spend the tokens
+      - owner: The address that granted the allowance (optional, defaults to the wallet's address)
+    `,
+    schema: GetAllowanceSchema,
+  })
+  async getAllowance(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof GetAllowanceSchema>
+  ): Promise<string> {
+    try {
+      const owner = args.owner || walletProvider.getAddress();
+      const [allowance, { symbol, decimals }] = await Promise.all([
+        walletProvider.readContract({
+          address: args.contractAddress as Hex,
+          abi,
+          functionName: "allowance",
+          args: [owner as Hex, args.spender as Hex],
+        }) as Promise<bigint>,
+        getTokenDetails(walletProvider, args.contractAddress),
+      ]);
+
+      return `${args.spender} may spend ${formatAllowance(
+        allowance,
+        decimals
+      )} ${symbol} (${args.contractAddress}) on behalf of ${owner}`;
+    } catch (error) {
+      return `Error getting allowance: ${error}`;
+    }
+  }
+
   /**
    * Checks if the ERC20 action provider supports the given network.
    *
@@ -5,7 +5,12 @@ import { z } from "zod";
  */
 export const TransferSchema = z
   .object({
-    amount: z.custom<bigint>().describe("The amount of the asset to transfer"),
+    amount: z
+      .string()
+      .regex(/^\d+(\.\d+)?$/, "Amount must be a decimal number like 0.1")
+      .describe(
+        "The amount of the asset to transfer in whole units, e.g. '1000' or '0.1'"
+      ),
     contractAddress: z
       .string()
       .describe("The contract address of the token to transfer"),
@@ -31,3 +36,41 @@ export const GetBalanceSchema = z
   })
   .strip()
   .describe("Instructions for getting wallet balance");
+
+/**
+ * Input schema for approve action.
+ */
+export const ApproveSchema = z
+  .object({
+    contractAddress: z
+      .string()
+      .describe("The contract address of the token to approve"),
+    spender: z.string().describe("The address allowed to spend the tokens"),
+    amount: z
+      .string()
+      .regex(/^\d+(\.\d+)?$/, "Amount must be a decimal number like 0.1")
+      .describe(
+        "The amount the spender may spend in whole units, e.g. '1000' or '0.1'. Use '0' to revoke"
+      ),
+  })
+  .strip()
+  .describe("Instructions for approving a spender");
+
+/**
+ * Input schema for get allowance action.
+ */
+export const GetAllowanceSchema = z
+  .object({
+    contractAddress: z
+      .string()
+      .describe("The contract address of the token to check the allowance of"),
+    spender: z.string().describe("The address allowed to spend the tokens"),
+    owner: z
+      .string()
+      .optional()
+      .describe(
+        "The address that granted the allowance. Defaults to the connected wallet's address"
+      ),
+  })
+  .strip()
+  .describe("Instructions for getting an allowance");
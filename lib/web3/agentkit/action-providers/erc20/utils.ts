@@ -0,0 +1,85 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import { formatUnits, maxUint256, parseUnits, type Hex } from "viem";
+import { abi } from "./constants";
+
+/**
+ * The details of a token needed to convert between whole and base units.
+ */
+export interface TokenDetails {
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Reads the symbol and decimals of an ERC20 token.
+ *
+ * @param wallet - The wallet to read the contract with.
+ * @param contractAddress - The token contract address.
+ * @returns The token symbol and decimals.
+ */
+export const getTokenDetails = async (
+  wallet: EvmWalletProvider,
+  contractAddress: string
+): Promise<TokenDetails> => {
+  const [symbol, decimals] = await Promise.all([
+    wallet.readContract({
+      address: contractAddress as Hex,
+      abi,
+      functionName: "symbol",
+      args: [],
+    }) as Promise<string>,
+    wallet.readContract({
+      address: contractAddress as Hex,
+      abi,
+      functionName: "decimals",
+      args: [],
+    }),
+  ]);
+
+  return { symbol, decimals: Number(decimals) };
+};
+
+/**
+ * Converts an amount in whole units, like "1000" or "0.1", to base units.
+ *
+ * @param amount - The amount in whole units.
+ * @param decimals - The token decimals.
+ * @returns The amount in base units.
+ * @throws If the amount is not a positive decimal number, or has more
+ * fractional digits than the token supports.
+ */
+export const parseTokenAmount = (amount: string, decimals: number): bigint => {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(amount.trim());
+  if (!match) {
+    throw new Error(`Invalid amount ${amount}, expected a number like 0.1`);
+  }
+  if ((match[2]?.length ?? 0) > decimals) {
+    throw new Error(
+      `Amount ${amount} has more than the ${decimals} decimal places the token supports`
+    );
+  }
+
+  return parseUnits(amount.trim(), decimals);
+};
+
+/**
+ * Whether an allowance is effectively unlimited. Apps usually approve the
+ * maximum uint256, which some tokens decrease as it is spent.
+ *
+ * @param allowance - The allowance in base units.
+ * @returns True if the allowance is at least half the maximum uint256.
+ */
+export const isUnlimitedAllowance = (allowance: bigint): boolean =>
+  allowance >= maxUint256 / 2n;
+
+/**
+ * Formats an allowance in whole units, or as "unlimited".
+ *
+ * @param allowance - The allowance in base units.
+ * @param decimals - The token decimals.
+ * @returns The formatted allowance.
+ */
+export const formatAllowance = (allowance: bigint, decimals: number): string =>
+  isUnlimitedAllowance(allowance)
+    ? "unlimited"
+    : formatUnits(allowance, decimals);
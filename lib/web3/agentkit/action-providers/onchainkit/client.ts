@@ -0,0 +1,35 @@
+import { setOnchainKitConfig } from "@coinbase/onchainkit";
+import {
+  getPortfolios,
+  getTokens,
+  type APIError,
+  type GetPortfoliosParams,
+  type GetPortfoliosResponse,
+  type GetTokensOptions,
+  type GetTokensResponse,
+} from "@coinbase/onchainkit/api";
+
+/**
+ * The OnchainKit API endpoints the action provider uses
+ */
+export interface OnchainKitClient {
+  getTokens: (options: GetTokensOptions) => Promise<GetTokensResponse>;
+  getPortfolios: (
+    params: GetPortfoliosParams
+  ) => Promise<GetPortfoliosResponse | APIError>;
+}
+
+/**
+ * A client calling the OnchainKit API with the given key. The key is set in
+ * OnchainKit's global config, which the API functions read.
+ * @param apiKey The OnchainKit API key
+ * @returns The client
+ */
+export const onchainKitApiClient = (apiKey: string): OnchainKitClient => {
+  setOnchainKitConfig({ apiKey });
+
+  return {
+    getTokens: (options) => getTokens(options),
+    getPortfolios: (params) => getPortfolios(params),
+  };
+};
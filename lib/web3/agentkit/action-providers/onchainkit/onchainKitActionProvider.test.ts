@@ -0,0 +1,178 @@
+import { setOnchainKitConfig } from "@coinbase/onchainkit";
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import type { Token } from "@coinbase/onchainkit/token";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  type FixtureServer,
+  startFixtureServer,
+} from "@/test/harness/fixture-server";
+import type { OnchainKitClient } from "./client";
+import { OnchainKitActionProvider } from "./onchainKitActionProvider";
+
+const WALLET = "0x00000000000000000000000000000000000000a1";
+const AERO: Token = {
+  address: "0x940181a94a35a4569e4529a3cdfb74e38fd98631",
+  chainId: 8453,
+  decimals: 18,
+  image: null,
+  name: "Aerodrome Finance",
+  symbol: "AERO",
+};
+const USDC: Token = {
+  address: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+  chainId: 8453,
+  decimals: 6,
+  image: null,
+  name: "USDC",
+  symbol: "USDC",
+};
+
+// The API is not wallet specific
+const walletProvider = {} as EvmWalletProvider;
+
+describe("OnchainKitActionProvider", () => {
+  let onchainKit: FixtureServer;
+  let provider: OnchainKitActionProvider;
+
+  beforeAll(async () => {
+    onchainKit = await startFixtureServer({
+      rpc: {
+        cdp_listSwapAssets: (params) => {
+          const [{ search }] = params as Array<{ search: string }>;
+          if (search === "broken") {
+            throw new Error("search is unavailable");
+          }
+          return [AERO, USDC].filter(({ symbol }) => symbol === search);
+        },
+        cdp_getTokensForAddresses: (params) => ({
+          portfolios: (
+            params as Array<{ addresses: Array<string> }>
+          )[0].addresses.map((address) => ({
+            address,
+            portfolioBalanceInUsd: 15,
+            tokenBalances: [
+              { ...AERO, cryptoBalance: 10, fiatBalance: 5 },
+              { ...USDC, cryptoBalance: 10, fiatBalance: 10 },
+            ],
+          })),
+        }),
+      },
+    });
+    provider = new OnchainKitActionProvider("test-key");
+    // The API client calls OnchainKit's RPC, served by the fixture server
+    setOnchainKitConfig({
+      rpcUrl: `${onchainKit.url}/api.developer.coinbase.com/rpc/v1/base/test-key`,
+    });
+  });
+
+  afterAll(async () => {
+    setOnchainKitConfig({ rpcUrl: null });
+    await onchainKit?.stop();
+  });
+
+  it("searches tokens on Base", async () => {
+    expect(
+      await provider.searchBaseTokens(walletProvider, { search: "AERO" })
+    ).toEqual([AERO]);
+    expect(onchainKit.requests.at(-1)?.body).toMatchObject({
+      method: "cdp_listSwapAssets",
+      params: [{ search: "AERO", limit: "5", page: "1" }],
+    });
+  });
+
+  it("returns the API error when a search fails", async () => {
+    expect(
+      await provider.searchBaseTokens(walletProvider, { search: "broken" })
+    ).toMatchObject({
+      code: "AmGTa01",
+      message: "Error: search is unavailable",
+    });
+  });
+
+  it("keeps only the requested symbols of a portfolio", async () => {
+    const response = await provider.getPortfolios(walletProvider, {
+      addresses: [WALLET],
+      symbols: ["aero"],
+    });
+
+    expect(response).toEqual({
+      portfolios: [
+        {
+          address: WALLET,
+          portfolioBalanceInUsd: 15,
+          tokenBalances: [{ ...AERO, cryptoBalance: 10, fiatBalance: 5 }],
+        },
+      ],
+    });
+    expect(
+      await provider.getPortfolios(walletProvider, { addresses: [WALLET] })
+    ).toMatchObject({
+      portfolios: [{ tokenBalances: [{ symbol: "AERO" }, { symbol: "USDC" }] }],
+    });
+  });
+});
+
+describe("OnchainKitActionProvider with an injected client", () => {
+  const API_ERROR = {
+    code: "AmGPc01",
+    error: "Error fetching portfolio",
+    message: "Error: rate limited",
+  };
+
+  const providerWith = (client: Partial<OnchainKitClient>) =>
+    new OnchainKitActionProvider("unused-key", {
+      client: {
+        getTokens: vi.fn(async () => [AERO]),
+        getPortfolios: vi.fn(async () => API_ERROR),
+        ...client,
+      },
+    });
+
+  it("calls the injected client instead of the API", async () => {
+    const getTokens = vi.fn(async () => [USDC]);
+    const provider = providerWith({ getTokens });
+
+    expect(
+      await provider.searchBaseTokens(walletProvider, {
+        search: "USDC",
+        limit: "1",
+      })
+    ).toEqual([USDC]);
+    expect(getTokens).toHaveBeenCalledWith({ search: "USDC", limit: "1" });
+  });
+
+  it("returns API errors of portfolios without filtering them", async () => {
+    expect(
+      await providerWith({}).getPortfolios(walletProvider, {
+        addresses: [WALLET],
+        symbols: ["AERO"],
+      })
+    ).toEqual(API_ERROR);
+  });
+
+  it("returns an error result when the client throws", async () => {
+    const provider = providerWith({
+      getTokens: async () => {
+        throw new Error("socket hang up");
+      },
+      getPortfolios: async () => {
+        throw new Error("socket hang up");
+      },
+    });
+
+    expect(
+      await provider.searchBaseTokens(walletProvider, { search: "AERO" })
+    ).toEqual({
+      error: "Error searching for tokens: Error: socket hang up",
+      code: "error",
+      message: "Error searching for tokens",
+    });
+    expect(
+      await provider.getPortfolios(walletProvider, { addresses: [WALLET] })
+    ).toEqual({
+      error: "Error getting portfolios: Error: socket hang up",
+      code: "error",
+      message: "Error getting portfolios",
+    });
+  });
+});
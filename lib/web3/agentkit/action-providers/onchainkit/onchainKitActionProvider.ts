@@ -2,28 +2,47 @@ import type { z } from "zod";
 import {
   ActionProvider,
   CreateAction,
+  EvmWalletProvider,
 } from "@coinbase/agentkit";
 import type { Network } from "../types";
 import { searchBaseTokensSchema, getPortfoliosSchema } from "./schemas";
-import { getTokens, getPortfolios, GetTokensResponse, GetPortfoliosResponse, APIError } from "@coinbase/onchainkit/api";
-import { setOnchainKitConfig } from '@coinbase/onchainkit';
+import type {
+  APIError,
+  GetPortfoliosResponse,
+  GetTokensResponse,
+} from "@coinbase/onchainkit/api";
+import { onchainKitApiClient, type OnchainKitClient } from "./client";
+
+/**
+ * Configuration options for the OnchainKitActionProvider.
+ */
+export interface OnchainKitActionProviderConfig {
+  /**
+   * The OnchainKit API client, defaults to one calling the API with the key
+   */
+  client?: OnchainKitClient;
+}
 
 /**
  * OnchainKitActionProvider provides actions for interacting with Base tokens.
  */
 export class OnchainKitActionProvider extends ActionProvider {
+  private readonly client: OnchainKitClient;
+
   /**
    * Constructor for the OnchainKitActionProvider.
    * @param apiKey - The API key for OnchainKit
+   * @param config - The client to call the API with
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, config: OnchainKitActionProviderConfig = {}) {
     super("onchainkit", []);
-    setOnchainKitConfig({ apiKey });
+    this.client = config.client ?? onchainKitApiClient(apiKey);
   }
 
   /**
    * Gets tokens on Base by searching for name, symbol, or address.
    *
+   * @param _walletProvider - The wallet provider, unused as the API is not wallet specific.
    * @param args - The search parameters.
    * @returns A message containing the found tokens.
    */
@@ -38,15 +57,14 @@ export class OnchainKitActionProvider extends ActionProvider {
     schema: searchBaseTokensSchema,
   })
   async searchBaseTokens(
+    _walletProvider: EvmWalletProvider,
     args: z.infer<typeof searchBaseTokensSchema>
   ): Promise<GetTokensResponse> {
     try {
-      const tokens = await getTokens({
+      return await this.client.getTokens({
         search: args.search,
         limit: args.limit || "5",
       });
-
-      return tokens;
     } catch (error) {
       return {
         error: `Error searching for tokens: ${error}`,
@@ -59,30 +77,44 @@ export class OnchainKitActionProvider extends ActionProvider {
   /**
    * Gets portfolio information for specified wallet addresses.
    *
-   * @param args - The addresses to get portfolios for.
+   * @param _walletProvider - The wallet provider, unused as the API is not wallet specific.
+   * @param args - The addresses to get portfolios for, and optionally the token symbols to include.
    * @returns Portfolio information for the specified addresses.
    */
   @CreateAction({
     name: "get_portfolios",
     description: `
-    This tool will get portfolio information for specified wallet addresses.
-    It takes the following input:
+    This tool will get portfolio information for specified wallet addresses on Base.
+    It takes the following inputs:
       - addresses: Array of wallet addresses to get portfolios for
-    
+      - symbols: (Optional) Only include these token symbols
+
     Returns portfolio information including token holdings and fiat values.
+    Use it to answer questions like "what's AERO worth in my wallet?", with the user's wallet address and symbols ["AERO"].
     `,
     schema: getPortfoliosSchema,
   })
   async getPortfolios(
+    _walletProvider: EvmWalletProvider,
     args: z.infer<typeof getPortfoliosSchema>
   ): Promise<GetPortfoliosResponse | APIError> {
     try {
-        console.log("getting portfolios",args.addresses)
-        const portfolios = await getPortfolios({
-            addresses: args.addresses.map((address) => address as `0x${string}`),
-        });
+      const response = await this.client.getPortfolios({
+        addresses: args.addresses.map((address) => address as `0x${string}`),
+      });
+      if ("error" in response || !args.symbols?.length) {
+        return response;
+      }
 
-      return portfolios;
+      const symbols = args.symbols.map((symbol) => symbol.toUpperCase());
+      return {
+        portfolios: response.portfolios.map((portfolio) => ({
+          ...portfolio,
+          tokenBalances: portfolio.tokenBalances.filter((token) =>
+            symbols.includes(token.symbol.toUpperCase())
+          ),
+        })),
+      };
     } catch (error) {
       return {
         error: `Error getting portfolios: ${error}`,
@@ -96,17 +128,17 @@ export class OnchainKitActionProvider extends ActionProvider {
    * Checks if the OnchainKit action provider supports the given network.
    *
    * @param network - The network to check.
-   * @returns True if the network is Base, false otherwise.
+   * @returns True if the network is Base mainnet, the only network the API covers.
    */
-  supportsNetwork = (network: Network) => {
-    // Base mainnet chainId is 8453
-    console.log("checking",network.chainId)
-    return String(network.chainId) === "8453";
-  };
+  supportsNetwork = (network: Network) => network.networkId === "base-mainnet";
 }
 
 /**
  * Creates a new OnchainKitActionProvider instance.
  * @param apiKey - The API key for OnchainKit
+ * @param config - The client to call the API with
  */
-export const onchainKitActionProvider = (apiKey: string) => new OnchainKitActionProvider(apiKey); 
\ No newline at end of file
+export const onchainKitActionProvider = (
+  apiKey: string,
+  config?: OnchainKitActionProviderConfig
+) => new OnchainKitActionProvider(apiKey, config);
@@ -20,6 +20,13 @@ export const searchBaseTokensSchema = z
 export const getPortfoliosSchema = z
   .object({
     addresses: z
-      .array(z.string())
+      .array(z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address format"))
+      .min(1)
       .describe("Array of wallet addresses to get portfolios for"),
+    symbols: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Only include these token symbols, e.g. AERO, when the user asks about specific tokens"
+      ),
   })
\ No newline at end of file
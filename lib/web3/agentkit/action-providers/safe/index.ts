@@ -1,12 +1,21 @@
-import { ActionProvider, CreateAction, EvmWalletProvider, Network } from '@coinbase/agentkit';
+import { ActionProvider, CreateAction, EvmWalletProvider, NETWORK_ID_TO_VIEM_CHAIN, Network } from '@coinbase/agentkit';
 import Safe, {
+    EthSafeSignature,
     OnchainAnalyticsProps,
     PredictedSafeProps,
     SafeAccountConfig
 } from '@safe-global/protocol-kit'
+import { encodeFunctionData, erc20Abi, formatEther, hashTypedData, parseEther, parseUnits, type Hex } from 'viem'
 import { waitForTransactionReceipt } from 'viem/actions'
-import { baseSepolia } from 'viem/chains'
-import { CreateSafeSchema } from './schemas';
+import {
+    CreateSafeSchema,
+    GetSafeInfoSchema,
+    ProposeSafeTransactionSchema,
+    SafeProposalSchema,
+} from './schemas';
+import { memorySafeProposalStore, type SafeProposalStore } from './proposals';
+import { safeProposalTypedData } from './typedData';
+import { getRpcUrl } from '../../wallet-providers/network';
 import { z } from 'zod';
 
 const onchainAnalytics: OnchainAnalyticsProps = {
@@ -14,10 +23,38 @@ const onchainAnalytics: OnchainAnalyticsProps = {
     platform: 'WEB' // Optional
 };
 
+/**
+ * Gets the viem chain of the wallet's network, with the RPC URL configured
+ * for the agent on that network.
+ */
+const getChain = (walletProvider: EvmWalletProvider) => {
+    const networkId = walletProvider.getNetwork().networkId;
+    const chain = networkId && NETWORK_ID_TO_VIEM_CHAIN[networkId];
+    if (!chain) {
+        throw new Error(`Unsupported network ${networkId}`);
+    }
+    const rpcUrl = getRpcUrl(networkId);
+    return rpcUrl
+        ? { ...chain, rpcUrls: { ...chain.rpcUrls, default: { http: [rpcUrl] } } }
+        : chain;
+};
+
+/**
+ * Configuration options for the SafeActionProvider.
+ */
+export interface SafeActionProviderConfig {
+    /**
+     * Where proposals and their signatures are persisted. Defaults to memory.
+     */
+    proposalStore?: SafeProposalStore;
+}
+
 export class SafeActionProvider extends ActionProvider {
+    private readonly proposalStore: SafeProposalStore;
 
-    constructor() {
+    constructor(config: SafeActionProviderConfig = {}) {
         super("safe", []);
+        this.proposalStore = config.proposalStore ?? memorySafeProposalStore();
     }
 
     /**
@@ -53,8 +90,9 @@ export class SafeActionProvider extends ActionProvider {
                 // ...
             };
 
+            const chain = getChain(walletProvider);
             const protocolKit = await Safe.init({
-                provider: baseSepolia.rpcUrls.default.http[0],
+                provider: chain.rpcUrls.default.http[0],
                 signer: walletProvider.getAddress(),
                 predictedSafe,
                 onchainAnalytics // Optional
@@ -74,7 +112,7 @@ export class SafeActionProvider extends ActionProvider {
                 to: deploymentTransaction.to,
                 value: BigInt(deploymentTransaction.value),
                 data: deploymentTransaction.data as `0x${string}`,
-                chain: baseSepolia
+                chain
             });
 
             if (!tx) {
@@ -106,6 +144,337 @@ export class SafeActionProvider extends ActionProvider {
         }
     }
 
+    /**
+     * Reads the owners, threshold, nonce and balance of a safe.
+     *
+     * @param walletProvider - The wallet provider to read with.
+     * @param args - The input arguments for the action.
+     * @returns The safe details and its pending proposals.
+     */
+    @CreateAction({
+        name: "get_safe_info",
+        description: `
+      This tool will read the owners, signature threshold, nonce and ETH balance of a safe, along with the proposals waiting for signatures.
+      It takes the following input:
+        - safeAddress: The address of the safe
+      `,
+        schema: GetSafeInfoSchema,
+    })
+    async getSafeInfo(
+        walletProvider: EvmWalletProvider,
+        args: z.infer<typeof GetSafeInfoSchema>
+    ) {
+        try {
+            const chain = getChain(walletProvider);
+            const protocolKit = await this.initSafe(walletProvider, args.safeAddress);
+
+            const [owners, threshold, nonce, balance, pending] = await Promise.all([
+                protocolKit.getOwners(),
+                protocolKit.getThreshold(),
+                protocolKit.getNonce(),
+                protocolKit.getBalance(),
+                this.proposalStore.listPending({
+                    safeAddress: args.safeAddress,
+                    chainId: chain.id,
+                }),
+            ]);
+
+            return {
+                safeAddress: args.safeAddress,
+                owners,
+                threshold,
+                nonce,
+                balance: formatEther(balance),
+                pendingProposals: pending
+                    .filter((proposal) => proposal.nonce >= nonce)
+                    .map((proposal) => ({
+                        proposalId: proposal.id,
+                        nonce: proposal.nonce,
+                        description: proposal.description,
+                        signatures: proposal.signatures.length,
+                    })),
+            };
+        } catch (error) {
+            return { error: `Error reading safe: ${error}` };
+        }
+    }
+
+    /**
+     * Proposes a transaction from a safe.
+     *
+     * @param walletProvider - The wallet provider to read with.
+     * @param args - The input arguments for the action.
+     * @returns The proposal id and the signatures it needs.
+     */
+    @CreateAction({
+        name: "propose_safe_transaction",
+        description: `
+      This tool will propose a transaction from a safe, to be signed by its owners.
+      It takes the following inputs:
+        - safeAddress: The address of the safe
+        - kind: eth to send ETH, erc20 to send tokens, or call for an arbitrary contract call
+        - to: The recipient, or the contract to call
+        - amount: For eth and erc20, the amount in whole units
+        - tokenAddress: For erc20, the token contract
+        - data and value: For call, the calldata and the ETH to send
+        - description: A short description for the co-owners
+      The proposal is not signed by the agent: use sign_safe_transaction for that, and show co-owners the sign-safe-transaction userAction so they can sign from the chat.
+      `,
+        schema: ProposeSafeTransactionSchema,
+    })
+    async proposeTransaction(
+        walletProvider: EvmWalletProvider,
+        args: z.infer<typeof ProposeSafeTransactionSchema>
+    ) {
+        try {
+            const chain = getChain(walletProvider);
+            const protocolKit = await this.initSafe(walletProvider, args.safeAddress);
+
+            let call: { to: string; value: string; data: string };
+            switch (args.kind) {
+                case "eth":
+                    if (!args.amount) {
+                        throw new Error("amount is required to send ETH");
+                    }
+                    call = { to: args.to, value: parseEther(args.amount).toString(), data: "0x" };
+                    break;
+                case "erc20": {
+                    if (!args.amount || !args.tokenAddress) {
+                        throw new Error("amount and tokenAddress are required to send tokens");
+                    }
+                    const decimals = (await walletProvider.readContract({
+                        address: args.tokenAddress as Hex,
+                        abi: erc20Abi,
+                        functionName: "decimals",
+                    })) as number;
+                    call = {
+                        to: args.tokenAddress,
+                        value: "0",
+                        data: encodeFunctionData({
+                            abi: erc20Abi,
+                            functionName: "transfer",
+                            args: [args.to as Hex, parseUnits(args.amount, decimals)],
+                        }),
+                    };
+                    break;
+                }
+                case "call":
+                    call = {
+                        to: args.to,
+                        value: parseEther(args.value ?? "0").toString(),
+                        data: args.data ?? "0x",
+                    };
+                    break;
+            }
+
+            // Queue after the proposals that are still waiting to be executed
+            const [onchainNonce, pending, threshold] = await Promise.all([
+                protocolKit.getNonce(),
+                this.proposalStore.listPending({
+                    safeAddress: args.safeAddress,
+                    chainId: chain.id,
+                }),
+                protocolKit.getThreshold(),
+            ]);
+            const nonce = Math.max(
+                onchainNonce,
+                ...pending.map((proposal) => proposal.nonce + 1)
+            );
+
+            const safeTransaction = await protocolKit.createTransaction({
+                transactions: [call],
+                options: { nonce },
+            });
+            const safeTxHash = await protocolKit.getTransactionHash(safeTransaction);
+
+            const proposal = {
+                safeAddress: args.safeAddress,
+                chainId: chain.id,
+                safeVersion: protocolKit.getContractVersion(),
+                safeTxHash,
+                nonce,
+                transaction: {
+                    ...safeTransaction.data,
+                    operation: Number(safeTransaction.data.operation),
+                    nonce: Number(safeTransaction.data.nonce),
+                },
+                description: args.description ?? null,
+            };
+
+            // The typed data co-owners sign must hash to the same safe transaction
+            if (hashTypedData(safeProposalTypedData(proposal)) !== safeTxHash) {
+                throw new Error("Safe transaction hash mismatch");
+            }
+
+            const created = await this.proposalStore.create(proposal);
+
+            return {
+                proposalId: created.id,
+                safeTxHash,
+                nonce,
+                threshold,
+                signatures: 0,
+            };
+        } catch (error) {
+            return { error: `Error proposing safe transaction: ${error}` };
+        }
+    }
+
+    /**
+     * Adds the agent's signature to a safe proposal.
+     *
+     * @param walletProvider - The wallet provider to sign with.
+     * @param args - The input arguments for the action.
+     * @returns The number of signatures collected and whether the proposal can be executed.
+     */
+    @CreateAction({
+        name: "sign_safe_transaction",
+        description: `
+      This tool will sign a safe proposal with the agent's wallet. The agent must be an owner of the safe.
+      It takes the following input:
+        - proposalId: The id returned by propose_safe_transaction
+      `,
+        schema: SafeProposalSchema,
+    })
+    async signTransaction(
+        walletProvider: EvmWalletProvider,
+        args: z.infer<typeof SafeProposalSchema>
+    ) {
+        try {
+            const proposal = await this.getPendingProposal(walletProvider, args.proposalId);
+            const protocolKit = await this.initSafe(walletProvider, proposal.safeAddress);
+
+            const agentAddress = walletProvider.getAddress();
+            if (!(await protocolKit.isOwner(agentAddress))) {
+                throw new Error(`The agent ${agentAddress} is not an owner of the safe`);
+            }
+
+            const signature = await walletProvider.signTypedData(
+                safeProposalTypedData(proposal)
+            );
+            const signed = await this.proposalStore.addSignature({
+                id: proposal.id,
+                signer: agentAddress,
+                data: signature,
+            });
+            if (!signed) {
+                throw new Error("The agent has already signed this proposal");
+            }
+
+            const threshold = await protocolKit.getThreshold();
+            return {
+                proposalId: proposal.id,
+                signatures: signed.signatures.length,
+                threshold,
+                readyToExecute: signed.signatures.length >= threshold,
+            };
+        } catch (error) {
+            return { error: `Error signing safe transaction: ${error}` };
+        }
+    }
+
+    /**
+     * Executes a safe proposal that has enough owner signatures.
+     *
+     * @param walletProvider - The wallet provider to send the transaction from.
+     * @param args - The input arguments for the action.
+     * @returns The execution transaction hash.
+     */
+    @CreateAction({
+        name: "execute_safe_transaction",
+        description: `
+      This tool will execute a safe proposal once enough owners have signed it. The agent pays the gas, and does not need to be an owner.
+      It takes the following input:
+        - proposalId: The id returned by propose_safe_transaction
+      `,
+        schema: SafeProposalSchema,
+    })
+    async executeTransaction(
+        walletProvider: EvmWalletProvider,
+        args: z.infer<typeof SafeProposalSchema>
+    ) {
+        try {
+            const proposal = await this.getPendingProposal(walletProvider, args.proposalId);
+            const protocolKit = await this.initSafe(walletProvider, proposal.safeAddress);
+
+            const [owners, threshold, nonce] = await Promise.all([
+                protocolKit.getOwners(),
+                protocolKit.getThreshold(),
+                protocolKit.getNonce(),
+            ]);
+
+            const ownerSet = new Set(owners.map((owner) => owner.toLowerCase()));
+            const signatures = proposal.signatures.filter((signature) =>
+                ownerSet.has(signature.signer)
+            );
+            if (signatures.length < threshold) {
+                throw new Error(
+                    `The proposal has ${signatures.length} of the ${threshold} owner signatures it needs`
+                );
+            }
+            if (proposal.nonce !== nonce) {
+                throw new Error(
+                    `The proposal uses nonce ${proposal.nonce} but the safe is at nonce ${nonce}`
+                );
+            }
+
+            const { to, value, data, operation, ...options } = proposal.transaction;
+            const safeTransaction = await protocolKit.createTransaction({
+                transactions: [{ to, value, data, operation }],
+                options,
+            });
+            for (const signature of signatures) {
+                safeTransaction.addSignature(
+                    new EthSafeSignature(signature.signer, signature.data)
+                );
+            }
+
+            const transactionHash = await walletProvider.sendTransaction({
+                to: proposal.safeAddress as Hex,
+                data: (await protocolKit.getEncodedTransaction(safeTransaction)) as Hex,
+            });
+            const receipt = await walletProvider.waitForTransactionReceipt(transactionHash);
+            const executed = receipt.status === "success";
+
+            await this.proposalStore.settle({
+                id: proposal.id,
+                status: executed ? "EXECUTED" : "FAILED",
+                executionHash: transactionHash,
+            });
+
+            if (!executed) {
+                throw new Error(`Execution reverted in ${transactionHash}`);
+            }
+
+            return {
+                proposalId: proposal.id,
+                safeAddress: proposal.safeAddress,
+                transactionHash,
+            };
+        } catch (error) {
+            return { error: `Error executing safe transaction: ${error}` };
+        }
+    }
+
+    private async initSafe(walletProvider: EvmWalletProvider, safeAddress: string) {
+        return Safe.init({
+            provider: getChain(walletProvider).rpcUrls.default.http[0],
+            signer: walletProvider.getAddress(),
+            safeAddress,
+            onchainAnalytics
+        });
+    }
+
+    private async getPendingProposal(walletProvider: EvmWalletProvider, proposalId: string) {
+        const proposal = await this.proposalStore.get(proposalId);
+        if (!proposal || proposal.chainId !== getChain(walletProvider).id) {
+            throw new Error(`Safe proposal ${proposalId} not found`);
+        }
+        if (proposal.status !== "PENDING") {
+            throw new Error(`Safe proposal ${proposalId} is already ${proposal.status.toLowerCase()}`);
+        }
+        return proposal;
+    }
 
     /**
      * Checks if the Safe action provider supports the given network.
@@ -116,4 +485,5 @@ export class SafeActionProvider extends ActionProvider {
     supportsNetwork = (_: Network) => true;
 }
 
-export const safeActionProvider = () => new SafeActionProvider();
\ No newline at end of file
+export const safeActionProvider = (config?: SafeActionProviderConfig) =>
+    new SafeActionProvider(config);
\ No newline at end of file
@@ -0,0 +1,138 @@
+import {
+  addSafeProposalSignature,
+  createSafeProposal,
+  getPendingSafeProposals,
+  getSafeProposalById,
+  setSafeProposalProposer,
+  settleSafeProposal,
+} from "@/lib/db/queries";
+import type { SafeProposal } from "@/lib/db/schema";
+
+export type SafeProposalInput = Pick<
+  SafeProposal,
+  | "safeAddress"
+  | "chainId"
+  | "safeVersion"
+  | "safeTxHash"
+  | "nonce"
+  | "transaction"
+  | "description"
+>;
+
+/**
+ * Persists Safe transaction proposals and the signatures collected for them,
+ * so that co-owners can sign outside the conversation that proposed them.
+ */
+export interface SafeProposalStore {
+  create(proposal: SafeProposalInput): Promise<SafeProposal>;
+  get(id: string): Promise<SafeProposal | undefined>;
+  listPending(query: {
+    safeAddress: string;
+    chainId: number;
+  }): Promise<Array<SafeProposal>>;
+  /**
+   * Records the user who proposed the transaction, unless one is recorded.
+   */
+  setProposer(proposer: { id: string; proposerId: string }): Promise<void>;
+  addSignature(signature: {
+    id: string;
+    signer: string;
+    data: string;
+  }): Promise<SafeProposal | undefined>;
+  settle(settlement: {
+    id: string;
+    status: "EXECUTED" | "FAILED";
+    executionHash?: string;
+  }): Promise<void>;
+}
+
+/**
+ * Stores proposals in the SafeProposal table.
+ */
+export const databaseSafeProposalStore: SafeProposalStore = {
+  create: (proposal) => createSafeProposal(proposal),
+  get: (id) => getSafeProposalById(id),
+  listPending: (query) => getPendingSafeProposals(query),
+  setProposer: async (proposer) => {
+    await setSafeProposalProposer(proposer);
+  },
+  addSignature: (signature) => addSafeProposalSignature(signature),
+  settle: async (settlement) => {
+    await settleSafeProposal(settlement);
+  },
+};
+
+/**
+ * Stores proposals in memory, for tests and local development.
+ */
+export const memorySafeProposalStore = (): SafeProposalStore => {
+  const proposals = new Map<string, SafeProposal>();
+
+  return {
+    create: async (proposal) => {
+      const now = new Date();
+      const created: SafeProposal = {
+        ...proposal,
+        id: crypto.randomUUID(),
+        safeAddress: proposal.safeAddress.toLowerCase(),
+        proposerId: null,
+        signatures: [],
+        status: "PENDING",
+        executionHash: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      proposals.set(created.id, created);
+      return created;
+    },
+    get: async (id) => proposals.get(id),
+    listPending: async ({ safeAddress, chainId }) =>
+      Array.from(proposals.values())
+        .filter(
+          (proposal) =>
+            proposal.safeAddress === safeAddress.toLowerCase() &&
+            proposal.chainId === chainId &&
+            proposal.status === "PENDING"
+        )
+        .sort((a, b) => a.nonce - b.nonce),
+    setProposer: async ({ id, proposerId }) => {
+      const proposal = proposals.get(id);
+      if (proposal && !proposal.proposerId) {
+        proposals.set(id, { ...proposal, proposerId, updatedAt: new Date() });
+      }
+    },
+    addSignature: async ({ id, signer, data }) => {
+      const proposal = proposals.get(id);
+      if (
+        !proposal ||
+        proposal.status !== "PENDING" ||
+        proposal.signatures.some(
+          (signature) => signature.signer === signer.toLowerCase()
+        )
+      ) {
+        return undefined;
+      }
+      const updated = {
+        ...proposal,
+        signatures: [
+          ...proposal.signatures,
+          { signer: signer.toLowerCase(), data },
+        ],
+        updatedAt: new Date(),
+      };
+      proposals.set(id, updated);
+      return updated;
+    },
+    settle: async ({ id, status, executionHash }) => {
+      const proposal = proposals.get(id);
+      if (proposal) {
+        proposals.set(id, {
+          ...proposal,
+          status,
+          executionHash: executionHash ?? null,
+          updatedAt: new Date(),
+        });
+      }
+    },
+  };
+};
@@ -0,0 +1,140 @@
+import { parseEther } from "viem";
+import { optimismSepolia } from "viem/chains";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { type LocalChain, startLocalChain } from "@/test/harness/chain";
+import { deploySafe } from "@/test/harness/safe";
+import { SafeActionProvider } from ".";
+
+describe("SafeActionProvider", () => {
+  const provider = new SafeActionProvider();
+  let chain: LocalChain;
+  let safeAddress: string;
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+    vi.stubEnv("AGENT_RPC_URL_BASE_SEPOLIA", chain.url);
+    safeAddress = await deploySafe(chain, {
+      owners: [chain.accounts[0].address, chain.accounts[1].address],
+      threshold: 2,
+    });
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await chain?.stop();
+  });
+
+  it("proposes, signs and executes a transfer from the safe", async () => {
+    const soloSafe = await deploySafe(chain, {
+      owners: [chain.accounts[0].address],
+      threshold: 1,
+    });
+    await chain.testClient.setBalance({
+      address: soloSafe,
+      value: parseEther("1"),
+    });
+    const recipient = chain.accounts[2].address;
+    const before = await chain.publicClient.getBalance({ address: recipient });
+
+    const proposal = await provider.proposeTransaction(chain.walletProvider(), {
+      safeAddress: soloSafe,
+      kind: "eth",
+      to: recipient,
+      amount: "0.25",
+      description: "Pay account 2",
+    });
+    expect(proposal).toMatchObject({ nonce: 0, threshold: 1, signatures: 0 });
+    if (!proposal.proposalId) {
+      throw new Error(proposal.error);
+    }
+
+    expect(
+      await provider.signTransaction(chain.walletProvider(), {
+        proposalId: proposal.proposalId,
+      })
+    ).toMatchObject({ signatures: 1, readyToExecute: true });
+    expect(
+      await provider.executeTransaction(chain.walletProvider(1), {
+        proposalId: proposal.proposalId,
+      })
+    ).toHaveProperty("transactionHash");
+
+    expect(await chain.publicClient.getBalance({ address: recipient })).toBe(
+      before + parseEther("0.25")
+    );
+    expect(
+      await provider.getSafeInfo(chain.walletProvider(), {
+        safeAddress: soloSafe,
+      })
+    ).toMatchObject({ nonce: 1, balance: "0.75", pendingProposals: [] });
+    expect(
+      await provider.executeTransaction(chain.walletProvider(), {
+        proposalId: proposal.proposalId,
+      })
+    ).toEqual({
+      error: `Error executing safe transaction: Error: Safe proposal ${proposal.proposalId} is already executed`,
+    });
+  });
+
+  it("refuses signatures from non-owners and executions below the threshold", async () => {
+    const proposal = await provider.proposeTransaction(chain.walletProvider(), {
+      safeAddress,
+      kind: "eth",
+      to: chain.accounts[2].address,
+      amount: "0.1",
+    });
+    if (!proposal.proposalId) {
+      throw new Error(proposal.error);
+    }
+    const { proposalId } = proposal;
+
+    expect(
+      await provider.signTransaction(chain.walletProvider(2), { proposalId })
+    ).toEqual({
+      error: `Error signing safe transaction: Error: The agent ${chain.accounts[2].address} is not an owner of the safe`,
+    });
+    expect(
+      await provider.signTransaction(chain.walletProvider(), { proposalId })
+    ).toMatchObject({ signatures: 1, threshold: 2, readyToExecute: false });
+    expect(
+      await provider.signTransaction(chain.walletProvider(), { proposalId })
+    ).toEqual({
+      error:
+        "Error signing safe transaction: Error: The agent has already signed this proposal",
+    });
+    expect(
+      await provider.executeTransaction(chain.walletProvider(), { proposalId })
+    ).toEqual({
+      error:
+        "Error executing safe transaction: Error: The proposal has 1 of the 2 owner signatures it needs",
+    });
+  });
+
+  it("reads the safe on the network the agent switched to", async () => {
+    const optimism = await startLocalChain({ chain: optimismSepolia });
+    try {
+      vi.stubEnv("AGENT_RPC_URL_OPTIMISM_SEPOLIA", optimism.url);
+      const optimismSafe = await deploySafe(optimism, {
+        owners: [optimism.accounts[0].address],
+        threshold: 1,
+      });
+
+      expect(
+        await provider.getSafeInfo(chain.walletProvider(), { safeAddress })
+      ).toMatchObject({
+        owners: [chain.accounts[0].address, chain.accounts[1].address],
+        threshold: 2,
+      });
+      expect(
+        await provider.getSafeInfo(optimism.walletProvider(), {
+          safeAddress: optimismSafe,
+        })
+      ).toMatchObject({ owners: [optimism.accounts[0].address], threshold: 1 });
+      expect(
+        await provider.getSafeInfo(optimism.walletProvider(), { safeAddress })
+      ).toHaveProperty("error");
+    } finally {
+      await optimism.stop();
+    }
+  });
+});
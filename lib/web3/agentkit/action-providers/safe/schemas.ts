@@ -14,3 +14,62 @@ export const CreateSafeSchema = z
   })
   .strip()
   .describe("Instructions for creating a safe (multisig wallet)");
+
+/**
+ * Input schema for reading a safe.
+ */
+export const GetSafeInfoSchema = z
+  .object({
+    safeAddress: z.string().describe("The address of the safe"),
+  })
+  .strip()
+  .describe(
+    "Instructions for reading the owners, threshold and balance of a safe"
+  );
+
+/**
+ * Input schema for proposing a safe transaction.
+ */
+export const ProposeSafeTransactionSchema = z
+  .object({
+    safeAddress: z.string().describe("The address of the safe"),
+    kind: z
+      .enum(["eth", "erc20", "call"])
+      .describe(
+        "eth to send ETH, erc20 to send tokens, or call for an arbitrary contract call"
+      ),
+    to: z
+      .string()
+      .describe("The recipient of the ETH or tokens, or the contract to call"),
+    amount: z
+      .string()
+      .optional()
+      .describe(
+        "For eth and erc20, the amount to send in whole units, e.g. 0.01 for 0.01 ETH"
+      ),
+    tokenAddress: z
+      .string()
+      .optional()
+      .describe("For erc20, the address of the token contract"),
+    data: z.string().optional().describe("For call, the hex encoded calldata"),
+    value: z
+      .string()
+      .optional()
+      .describe("For call, the ETH to send with the call in whole units"),
+    description: z
+      .string()
+      .optional()
+      .describe("A short description of the transaction for the co-owners"),
+  })
+  .strip()
+  .describe("Instructions for proposing a safe transaction");
+
+/**
+ * Input schema for signing or executing a safe proposal.
+ */
+export const SafeProposalSchema = z
+  .object({
+    proposalId: z.string().describe("The id of the safe proposal"),
+  })
+  .strip()
+  .describe("Instructions for acting on a safe proposal");
@@ -0,0 +1,66 @@
+import type { SafeProposal } from "@/lib/db/schema";
+import type { Hex, TypedDataDefinition } from "viem";
+
+/**
+ * Compares Safe versions such as "1.3.0".
+ */
+const isVersionAtLeast = (version: string, minimum: string) => {
+  const [major, minor, patch] = version.split(".").map(Number);
+  const [minMajor, minMinor, minPatch] = minimum.split(".").map(Number);
+  return (
+    (major - minMajor || minor - minMinor || (patch ?? 0) - (minPatch ?? 0)) >=
+    0
+  );
+};
+
+/**
+ * Builds the EIP-712 typed data an owner signs to approve a proposal. Safes
+ * before 1.3.0 do not include the chain id in their domain.
+ *
+ * @param proposal - The proposal to sign.
+ * @returns The typed data, ready for signTypedData.
+ */
+export const safeProposalTypedData = (
+  proposal: Pick<
+    SafeProposal,
+    "safeAddress" | "chainId" | "safeVersion" | "transaction"
+  >
+) => {
+  const { transaction } = proposal;
+
+  return {
+    domain: {
+      ...(isVersionAtLeast(proposal.safeVersion, "1.3.0") && {
+        chainId: proposal.chainId,
+      }),
+      verifyingContract: proposal.safeAddress as Hex,
+    },
+    types: {
+      SafeTx: [
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "data", type: "bytes" },
+        { name: "operation", type: "uint8" },
+        { name: "safeTxGas", type: "uint256" },
+        { name: "baseGas", type: "uint256" },
+        { name: "gasPrice", type: "uint256" },
+        { name: "gasToken", type: "address" },
+        { name: "refundReceiver", type: "address" },
+        { name: "nonce", type: "uint256" },
+      ],
+    },
+    primaryType: "SafeTx",
+    message: {
+      to: transaction.to as Hex,
+      value: BigInt(transaction.value),
+      data: transaction.data as Hex,
+      operation: transaction.operation,
+      safeTxGas: BigInt(transaction.safeTxGas),
+      baseGas: BigInt(transaction.baseGas),
+      gasPrice: BigInt(transaction.gasPrice),
+      gasToken: transaction.gasToken as Hex,
+      refundReceiver: transaction.refundReceiver as Hex,
+      nonce: BigInt(transaction.nonce),
+    },
+  } as const satisfies TypedDataDefinition;
+};
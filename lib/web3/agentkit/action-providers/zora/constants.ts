@@ -0,0 +1,31 @@
+// Attachments are uploaded to Vercel Blob by /api/files/upload, and only
+// those are fetched when creating tokens.
+export const ATTACHMENT_HOST_SUFFIX = ".public.blob.vercel-storage.com";
+
+// Same limit as /api/files/upload
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+
+// Permission needed on the contract (token id 0) to create tokens
+export const CONTRACT_BASE_ID = 0n;
+export const PERMISSION_BIT_MINTER = 4n;
+
+export const ZORA_CREATOR_1155_ABI = [
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "user", type: "address" },
+      { name: "tokenId", type: "uint256" },
+      { name: "role", type: "uint256" },
+    ],
+    name: "isAdminOrRole",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
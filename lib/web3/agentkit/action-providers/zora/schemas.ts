@@ -40,22 +40,49 @@ export type Mint1155Response = {
   error?: string;
 };
 
-export const create1155Schema = z.object({
-  contractAddress: z.string(),
-  name: z.string(),
-  description: z.string(),
-  imageFile: z.instanceof(File),
-  // Optional fields
-  attributes: z
-    .array(
-      z.object({
-        trait_type: z.string(),
-        value: z.string(),
-      })
-    )
-    .optional(),
-});
+/**
+ * Input schema for create_1155 action.
+ */
+export const create1155Schema = z
+  .object({
+    contractAddress: z
+      .string()
+      .optional()
+      .describe(
+        "The Zora 1155 contract to add the token to (optional, a new contract owned by the agent is created if omitted)"
+      ),
+    contractName: z
+      .string()
+      .optional()
+      .describe("The name of the new contract (optional, defaults to the token name)"),
+    name: z.string().describe("The token name"),
+    description: z.string().describe("The token description"),
+    imageUrl: z
+      .string()
+      .url()
+      .describe("The URL of an image uploaded as a chat attachment"),
+    maxSupply: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("The maximum supply of the token (optional, unlimited if omitted)"),
+    attributes: z
+      .array(
+        z.object({
+          trait_type: z.string(),
+          value: z.string(),
+        })
+      )
+      .optional()
+      .describe("Optional token attributes"),
+  })
+  .strip()
+  .describe("Parameters for creating an ERC-1155 token on Zora");
 
+/**
+ * Response type for create_1155 action
+ */
 export type Create1155Response = {
   success: boolean;
   message: string;
@@ -63,8 +90,18 @@ export type Create1155Response = {
     contractAddress: string;
     tokenId: string;
     tokenUri: string;
-    transactionHash: string;
-    blockNumber: string;
+    transactionHash?: string;
+    blockNumber?: string;
+  };
+  /**
+   * Set when the contract is owned by the user, who has to send the transaction
+   */
+  status?: "requires_user_transaction";
+  transaction?: {
+    to: string;
+    value: string;
+    data: string;
+    chainId: number;
   };
   error?: string;
 };
\ No newline at end of file
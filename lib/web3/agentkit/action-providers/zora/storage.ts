@@ -0,0 +1,84 @@
+import { sha256 } from "viem";
+
+/**
+ * Pins token media and metadata so that it can be referenced from a token
+ * URI.
+ */
+export interface MetadataStorage {
+  /**
+   * Pins a file and returns its URI
+   */
+  pinFile(file: Blob, name: string): Promise<string>;
+  /**
+   * Pins a JSON document and returns its URI
+   */
+  pinJson(json: Record<string, unknown>, name: string): Promise<string>;
+}
+
+const PINATA_API_URL = "https://api.pinata.cloud/pinning";
+
+/**
+ * Pins to IPFS through Pinata.
+ *
+ * @param jwt - A Pinata API JWT with pinning permissions.
+ */
+export const pinataStorage = (jwt: string): MetadataStorage => {
+  const pin = async (path: string, body: BodyInit, json: boolean) => {
+    const response = await fetch(`${PINATA_API_URL}/${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${jwt}`,
+        ...(json ? { "Content-Type": "application/json" } : {}),
+      },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Pinata request failed with ${
+          response.status
+        }: ${await response.text()}`
+      );
+    }
+    const { IpfsHash } = (await response.json()) as { IpfsHash: string };
+    return `ipfs://${IpfsHash}`;
+  };
+
+  return {
+    pinFile: (file, name) => {
+      const body = new FormData();
+      body.append("file", file, name);
+      body.append("pinataMetadata", JSON.stringify({ name }));
+      return pin("pinFileToIPFS", body, false);
+    },
+    pinJson: (json, name) =>
+      pin(
+        "pinJSONToIPFS",
+        JSON.stringify({ pinataContent: json, pinataMetadata: { name } }),
+        true
+      ),
+  };
+};
+
+/**
+ * Keeps pinned content in memory, addressed by its hash, for tests and local
+ * development.
+ */
+export const memoryStorage = (): MetadataStorage & {
+  get(uri: string): Blob | undefined;
+} => {
+  const content = new Map<string, Blob>();
+
+  const put = async (blob: Blob) => {
+    const hash = sha256(new Uint8Array(await blob.arrayBuffer()));
+    const uri = `memory://${hash.slice(2)}`;
+    content.set(uri, blob);
+    return uri;
+  };
+
+  return {
+    pinFile: (file) => put(file),
+    pinJson: (json) =>
+      put(new Blob([JSON.stringify(json)], { type: "application/json" })),
+    get: (uri) => content.get(uri),
+  };
+};
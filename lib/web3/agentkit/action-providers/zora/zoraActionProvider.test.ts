@@ -0,0 +1,206 @@
+import type {
+  IContractGetter,
+  IOnchainMintGetter,
+} from "@zoralabs/protocol-sdk";
+import type { Abi, Address } from "viem";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { type LocalChain, startLocalChain } from "@/test/harness/chain";
+import { deployContract } from "@/test/harness/contracts";
+import { memoryStorage } from "./storage";
+import { ZoraActionProvider } from "./zoraActionProvider";
+
+const FIXED_PRICE_MINTER = "0x00000000000000000000000000000000000000f1";
+const PRICE = 1000n;
+const MINT_FEE = 111n;
+const IMAGE_URL = "https://store.public.blob.vercel-storage.com/cat.png";
+
+describe("ZoraActionProvider", () => {
+  let chain: LocalChain;
+  let collection: { address: Address; abi: Abi };
+  let saleEnd = 0n;
+
+  // What Zora's subgraph reports for token 1 of the collection
+  const mintGetter: IOnchainMintGetter = {
+    getMintable: async ({ tokenAddress, tokenId }) => ({
+      tokenId: String(tokenId),
+      creator: chain.accounts[0].address,
+      uri: "ipfs://token",
+      totalMinted: "0",
+      maxSupply: "100",
+      tokenStandard: "ERC1155",
+      salesStrategies: [
+        {
+          type: "FIXED_PRICE",
+          fixedPrice: {
+            address: FIXED_PRICE_MINTER,
+            pricePerToken: String(PRICE),
+            saleStart: "0",
+            saleEnd: String(saleEnd),
+            maxTokensPerAddress: "0",
+          },
+        },
+      ],
+      contract: {
+        address: tokenAddress,
+        name: "Cats",
+        contractURI: "ipfs://contract",
+        contractVersion: "2.9.0",
+        mintFeePerQuantity: String(MINT_FEE),
+        salesStrategies: [],
+      },
+    }),
+    getContractMintable: async () => [],
+    getContractPremintTokenIds: async () => [],
+  };
+  const contractGetter: IContractGetter = {
+    getContractInfo: async () => ({
+      name: "Cats",
+      contractVersion: "2.9.0",
+      nextTokenId: 1n,
+      mintFee: MINT_FEE,
+    }),
+  };
+  const fetchImage = vi.fn(
+    async () =>
+      new Response(new Blob([new Uint8Array([1, 2, 3])], { type: "image/png" }))
+  );
+  const storage = memoryStorage();
+  const provider = new ZoraActionProvider({
+    storage,
+    mintGetter,
+    contractGetter,
+    fetch: fetchImage,
+  });
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+    vi.stubEnv("AGENT_RPC_URL_BASE_SEPOLIA", chain.url);
+    collection = await deployContract(chain, "MockERC1155");
+    await chain.walletClient.writeContract({
+      ...collection,
+      functionName: "setMintPrice",
+      args: [1n, PRICE + MINT_FEE],
+      account: chain.accounts[0],
+      chain: chain.chain,
+    });
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await chain?.stop();
+  });
+
+  it("mints tokens paying the price and the mint fee", async () => {
+    const recipient = chain.accounts[2].address;
+
+    const result = await provider.mint1155(chain.walletProvider(1), {
+      tokenContract: collection.address,
+      tokenId: "1",
+      quantityToMint: 2,
+      mintRecipient: recipient,
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { recipient, value: String((PRICE + MINT_FEE) * 2n) },
+    });
+    expect(
+      await chain.publicClient.readContract({
+        ...collection,
+        functionName: "balanceOf",
+        args: [1n, recipient],
+      })
+    ).toBe(2n);
+  });
+
+  it("fails to mint a token whose sale ended", async () => {
+    saleEnd = 1n;
+    try {
+      expect(
+        await provider.mint1155(chain.walletProvider(1), {
+          tokenContract: collection.address,
+          tokenId: "1",
+          quantityToMint: 1,
+        })
+      ).toEqual({
+        success: false,
+        message: "Failed to mint tokens",
+        error: "Primary mint is not active",
+      });
+    } finally {
+      saleEnd = 0n;
+    }
+  });
+
+  it("creates a token on a contract the agent administers", async () => {
+    const result = await provider.create1155(chain.walletProvider(), {
+      contractAddress: collection.address,
+      name: "Cat",
+      description: "A cat",
+      imageUrl: IMAGE_URL,
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      message: "Successfully created token",
+      data: { contractAddress: collection.address, tokenId: "1" },
+    });
+    expect(fetchImage).toHaveBeenCalledWith(IMAGE_URL);
+    const tokenUri = result.data?.tokenUri as string;
+    expect(
+      JSON.parse(await (storage.get(tokenUri) as Blob).text())
+    ).toMatchObject({
+      name: "Cat",
+      description: "A cat",
+      content: { mime: "image/png" },
+    });
+    expect(
+      await chain.publicClient.readContract({
+        ...collection,
+        functionName: "nextTokenId",
+      })
+    ).toBe(2n);
+  });
+
+  it("returns the transaction for the owner of someone else's contract", async () => {
+    const result = await provider.create1155(chain.walletProvider(1), {
+      contractAddress: collection.address,
+      name: "Dog",
+      description: "A dog",
+      imageUrl: IMAGE_URL,
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      status: "requires_user_transaction",
+      message: expect.stringContaining(chain.accounts[0].address),
+      transaction: {
+        to: collection.address,
+        value: "0",
+        chainId: chain.chain.id,
+      },
+    });
+  });
+
+  it("refuses images that are not chat attachments", async () => {
+    expect(
+      await provider.create1155(chain.walletProvider(), {
+        contractAddress: collection.address,
+        name: "Cat",
+        description: "A cat",
+        imageUrl: "https://example.com/cat.png",
+      })
+    ).toEqual({
+      success: false,
+      message: "Failed to create token",
+      error: "The image must be an attachment uploaded to the chat",
+    });
+    expect(
+      await new ZoraActionProvider().create1155(chain.walletProvider(), {
+        name: "Cat",
+        description: "A cat",
+        imageUrl: IMAGE_URL,
+      })
+    ).toMatchObject({ error: "No metadata storage is configured" });
+  });
+});
@@ -6,19 +6,77 @@ import {
   NETWORK_ID_TO_VIEM_CHAIN,
 } from "@coinbase/agentkit";
 import type { Network } from "../types";
-import { mint1155Schema, type Mint1155Response } from "./schemas";
-import { mint } from "@zoralabs/protocol-sdk";
-import { createPublicClient, http, encodeFunctionData, type Hex } from "viem";
+import {
+  create1155Schema,
+  mint1155Schema,
+  type Create1155Response,
+  type Mint1155Response,
+} from "./schemas";
+import {
+  create1155,
+  createNew1155Token,
+  mint,
+  type IContractGetter,
+  type IOnchainMintGetter,
+} from "@zoralabs/protocol-sdk";
+import {
+  createPublicClient,
+  http,
+  encodeFunctionData,
+  isAddressEqual,
+  type Hex,
+} from "viem";
+import type { MetadataStorage } from "./storage";
+import { getRpcUrl } from "../../wallet-providers/network";
+import {
+  ATTACHMENT_HOST_SUFFIX,
+  CONTRACT_BASE_ID,
+  MAX_ATTACHMENT_SIZE,
+  PERMISSION_BIT_MINTER,
+  ZORA_CREATOR_1155_ABI,
+} from "./constants";
+
+export interface ZoraActionProviderConfig {
+  /**
+   * Where token media and metadata are pinned, required by create_1155
+   */
+  storage?: MetadataStorage;
+  /**
+   * Reads the sale of a token before minting, defaults to Zora's subgraph
+   */
+  mintGetter?: IOnchainMintGetter;
+  /**
+   * Reads the next token id of a contract before creating a token, defaults
+   * to Zora's subgraph
+   */
+  contractGetter?: IContractGetter;
+  /**
+   * The fetch used to download image attachments, replaceable in tests
+   */
+  fetch?: typeof fetch;
+}
 
 /**
  * ZoraActionProvider provides actions for interacting with Zora Protocol.
  */
 export class ZoraActionProvider extends ActionProvider {
+  private readonly storage?: MetadataStorage;
+  private readonly mintGetter?: IOnchainMintGetter;
+  private readonly contractGetter?: IContractGetter;
+  private readonly fetch: typeof fetch;
+
   /**
    * Constructor for the ZoraActionProvider.
+   *
+   * @param config - The storage to pin token metadata with, and the readers
+   * of Zora's indexed contracts.
    */
-  constructor() {
+  constructor(config: ZoraActionProviderConfig = {}) {
     super("zora", []);
+    this.storage = config.storage;
+    this.mintGetter = config.mintGetter;
+    this.contractGetter = config.contractGetter;
+    this.fetch = config.fetch ?? ((input, init) => fetch(input, init));
   }
 
   /**
@@ -49,12 +107,7 @@ export class ZoraActionProvider extends ActionProvider {
     args: z.infer<typeof mint1155Schema>
   ): Promise<Mint1155Response> {
     try {
-      const network = walletProvider.getNetwork();
-      const publicClient = createPublicClient({
-        // biome-ignore lint: networkId is not null
-        chain: NETWORK_ID_TO_VIEM_CHAIN[network.networkId!],
-        transport: http(),
-      });
+      const publicClient = this.getPublicClient(walletProvider);
 
       const recipient = args.mintRecipient || walletProvider.getAddress();
 
@@ -66,6 +119,7 @@ export class ZoraActionProvider extends ActionProvider {
         quantityToMint: args.quantityToMint,
         minterAccount: recipient,
         publicClient,
+        mintGetter: this.mintGetter,
       });
 
       // Execute the mint transaction
@@ -105,6 +159,142 @@ export class ZoraActionProvider extends ActionProvider {
     }
   }
 
+  /**
+   * Creates a new ERC-1155 token from an image attachment.
+   *
+   * @param walletProvider - The wallet provider to create the token with.
+   * @param args - The token parameters.
+   * @returns The created token, or the transaction the contract owner has to send.
+   */
+  @CreateAction({
+    name: "create_1155",
+    description: `
+    This tool will create a new ERC-1155 token on Zora from an image the user attached to the chat.
+    It takes the following inputs:
+      - contractAddress: The Zora 1155 contract to add the token to (optional, a new contract owned by the agent is created if omitted)
+      - contractName: The name of a new contract (optional, defaults to the token name)
+      - name: The token name
+      - description: The token description
+      - imageUrl: The URL of the image attachment, as uploaded to the chat
+      - maxSupply: The maximum supply (optional, unlimited if omitted)
+      - attributes: Token attributes as trait_type/value pairs (optional)
+
+    Important notes:
+    - The image and metadata are pinned before the token is created
+    - When the contract belongs to the user, the tool returns a transaction that should be shown to the user with the transaction userAction
+    `,
+    schema: create1155Schema,
+  })
+  async create1155(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof create1155Schema>
+  ): Promise<Create1155Response> {
+    try {
+      if (!this.storage) {
+        throw new Error("No metadata storage is configured");
+      }
+
+      const image = await this.fetchAttachment(args.imageUrl);
+      const imageUri = await this.storage.pinFile(image, args.name);
+      const tokenUri = await this.storage.pinJson(
+        {
+          name: args.name,
+          description: args.description,
+          image: imageUri,
+          content: { mime: image.type, uri: imageUri },
+          attributes: args.attributes ?? [],
+        },
+        `${args.name} metadata`
+      );
+      const token = {
+        tokenMetadataURI: tokenUri,
+        maxSupply: args.maxSupply,
+      };
+      const agent = walletProvider.getAddress() as Hex;
+
+      if (!args.contractAddress) {
+        const contractName = args.contractName ?? args.name;
+        const contractUri = await this.storage.pinJson(
+          {
+            name: contractName,
+            description: args.description,
+            image: imageUri,
+          },
+          `${contractName} contract metadata`
+        );
+        const { parameters, contractAddress, tokenId } = await create1155({
+          contract: { name: contractName, uri: contractUri },
+          token,
+          account: agent,
+          publicClient: this.getPublicClient(walletProvider),
+        });
+
+        return this.sendCreate(walletProvider, parameters, {
+          contractAddress,
+          tokenId: String(tokenId),
+          tokenUri,
+        });
+      }
+
+      const contractAddress = args.contractAddress as Hex;
+      const canCreate = (await walletProvider.readContract({
+        address: contractAddress,
+        abi: ZORA_CREATOR_1155_ABI,
+        functionName: "isAdminOrRole",
+        args: [agent, CONTRACT_BASE_ID, PERMISSION_BIT_MINTER],
+      })) as boolean;
+      const owner = canCreate
+        ? agent
+        : ((await walletProvider.readContract({
+            address: contractAddress,
+            abi: ZORA_CREATOR_1155_ABI,
+            functionName: "owner",
+          })) as Hex);
+
+      // biome-ignore lint: chainId is not null
+      const chainId = Number(walletProvider.getNetwork().chainId!);
+      const { parameters, tokenId } = await createNew1155Token({
+        contractAddress,
+        token,
+        account: owner,
+        chainId,
+        contractGetter: this.contractGetter,
+      });
+
+      if (!isAddressEqual(owner, agent)) {
+        return {
+          success: true,
+          status: "requires_user_transaction",
+          message: `The contract is owned by ${owner}, so the owner must send the transaction that creates the token. Show them this transaction with the transaction userAction.`,
+          data: { contractAddress, tokenId: String(tokenId), tokenUri },
+          transaction: {
+            to: parameters.address,
+            value: "0",
+            data: encodeFunctionData({
+              abi: parameters.abi,
+              functionName: parameters.functionName,
+              args: parameters.args,
+            }),
+            chainId,
+          },
+        };
+      }
+
+      return this.sendCreate(walletProvider, parameters, {
+        contractAddress,
+        tokenId: String(tokenId),
+        tokenUri,
+      });
+    } catch (error) {
+      console.log("Error creating token", error);
+      return {
+        success: false,
+        message: "Failed to create token",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Checks if the Zora action provider supports the given network.
    *
@@ -112,11 +302,80 @@ export class ZoraActionProvider extends ActionProvider {
    * @returns True if the network is supported by Zora, false otherwise.
    */
   supportsNetwork = (network: Network) => {
-    // Zora supports Base (8453) and Zora Network (7777777)
-    const supportedChainIds = ["8453", "7777777"];
+    // Chains the Zora 1155 contracts are deployed on: Ethereum, Optimism,
+    // Base, Arbitrum and Zora Network, and the Sepolia and Base Sepolia testnets
+    const supportedChainIds = [
+      "1",
+      "10",
+      "8453",
+      "42161",
+      "7777777",
+      "11155111",
+      "84532",
+    ];
     const chainId = String(network.chainId);
     return supportedChainIds.includes(chainId);
   };
+
+  private getPublicClient(walletProvider: EvmWalletProvider) {
+    // biome-ignore lint: networkId is not null
+    const networkId = walletProvider.getNetwork().networkId!;
+    return createPublicClient({
+      chain: NETWORK_ID_TO_VIEM_CHAIN[networkId],
+      transport: http(getRpcUrl(networkId)),
+    });
+  }
+
+  /**
+   * Downloads an image attachment uploaded through /api/files/upload.
+   */
+  private async fetchAttachment(url: string): Promise<Blob> {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== "https:" || !hostname.endsWith(ATTACHMENT_HOST_SUFFIX)) {
+      throw new Error("The image must be an attachment uploaded to the chat");
+    }
+
+    const response = await this.fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download the image: ${response.status}`);
+    }
+    const image = await response.blob();
+    if (!image.type.startsWith("image/") || image.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error("The attachment must be an image smaller than 5MB");
+    }
+    return image;
+  }
+
+  private async sendCreate(
+    walletProvider: EvmWalletProvider,
+    parameters: Awaited<ReturnType<typeof createNew1155Token>>["parameters"],
+    data: { contractAddress: string; tokenId: string; tokenUri: string }
+  ): Promise<Create1155Response> {
+    const hash = await walletProvider.sendTransaction({
+      to: parameters.address as Hex,
+      data: encodeFunctionData({
+        abi: parameters.abi,
+        functionName: parameters.functionName,
+        args: parameters.args,
+      }),
+      value: parameters.value,
+    });
+    const receipt = await walletProvider.waitForTransactionReceipt(hash);
+
+    return {
+      success: receipt.status === "success",
+      message:
+        receipt.status === "success"
+          ? "Successfully created token"
+          : "The token creation transaction reverted",
+      data: {
+        ...data,
+        transactionHash: hash,
+        blockNumber: String(receipt.blockNumber),
+      },
+    };
+  }
 }
 
-export const zoraActionProvider = () => new ZoraActionProvider(); 
\ No newline at end of file
+export const zoraActionProvider = (config?: ZoraActionProviderConfig) =>
+  new ZoraActionProvider(config);
@@ -1,24 +1,94 @@
 import { tool } from "ai";
-import type { AgentKit } from "@coinbase/agentkit";
+import type { Action, AgentKit } from "@coinbase/agentkit";
+
+/**
+ * The action being invoked and the arguments the model called it with
+ */
+export interface ActionContext {
+  action: Action;
+  args: Record<string, unknown>;
+  /**
+   * Identifies the invocation across retries: the model's tool call id, or
+   * the proposal id when a confirmed proposal is executed
+   */
+  invocationId?: string;
+}
+
+/**
+ * Wraps the invocation of an AgentKit action. A middleware can refuse the call
+ * by returning a result without calling next, or observe the result of next.
+ */
+export type ActionMiddleware = (
+  context: ActionContext,
+  next: (args: Record<string, unknown>) => Promise<unknown>
+) => Promise<unknown>;
+
+interface AgentKitToToolsOptions {
+  /**
+   * Middleware applied to every action, the first entry being the outermost
+   */
+  middleware?: Array<ActionMiddleware>;
+}
+
+/**
+ * The name an action was declared with. AgentKit prefixes it with the class
+ * of the action provider, e.g. WalletActionProvider_native_transfer, but
+ * tools, policies and proposals refer to actions by their declared name.
+ * @param action AgentKit action
+ * @returns The name without the provider prefix
+ */
+export const declaredActionName = (action: Action) =>
+  action.name.replace(/^[A-Za-z0-9]+ActionProvider_/, "");
+
+/**
+ * Wraps an action's invoke function with middleware
+ * @param action AgentKit action
+ * @param middleware Middleware to apply, the first entry being the outermost
+ * @returns A function invoking the action through the middleware, with the
+ * id of the invocation if there is one
+ */
+export function applyActionMiddleware(
+  action: Action,
+  middleware: Array<ActionMiddleware>
+) {
+  const declared = { ...action, name: declaredActionName(action) };
+
+  return (args: Record<string, unknown>, invocationId?: string) =>
+    middleware.reduceRight<
+      (args: Record<string, unknown>) => Promise<unknown>
+    >(
+      (next, handler) => (args) =>
+        handler({ action: declared, args, invocationId }, next),
+      (args) => action.invoke(args)
+    )(args);
+}
 
 /**
  * Transforms AgentKit instance into AI package compatible tools
  * @param agentKit AgentKit instance
+ * @param options Middleware to run around each action invocation
  * @returns An object mapping tool names to AI package tool definitions
  */
-export function agentKitToTools(agentKit: AgentKit) {
+export function agentKitToTools(
+  agentKit: AgentKit,
+  { middleware = [] }: AgentKitToToolsOptions = {}
+) {
   const actions = agentKit.getActions();
 
   return Object.fromEntries(
-    actions.map((action) => [
-      action.name,
-      tool({
-        description: action.description,
-        parameters: action.schema,
-        execute: async (args: Record<string, unknown>) => {
-          return await action.invoke(args);
-        },
-      }),
-    ])
+    actions.map((action) => {
+      const invoke = applyActionMiddleware(action, middleware);
+
+      return [
+        declaredActionName(action),
+        tool({
+          description: action.description,
+          parameters: action.schema,
+          execute: async (args: Record<string, unknown>, { toolCallId }) => {
+            return await invoke(args, toolCallId);
+          },
+        }),
+      ];
+    })
   );
 }
@@ -0,0 +1,114 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import type { Session } from "next-auth";
+import { createPublicClient, http } from "viem";
+import { saveAgentAction } from "@/lib/db/queries";
+import type { AgentAction } from "@/lib/db/schema";
+import {
+  NETWORK_ID_TO_VIEM_CHAIN,
+  getRpcUrl,
+} from "../wallet-providers/network";
+import type { ActionMiddleware } from "./ai-sdk";
+import {
+  extractTransactionHashes,
+  isActionFailure,
+  toJsonResult,
+} from "./results";
+
+// Read-only actions can return many unrelated hashes, only look up the first few
+const MAX_RECEIPTS = 10;
+
+/**
+ * Records every action invocation in the AgentAction table, including the
+ * block number and gas used of the transactions the agent wallet sent.
+ */
+export const auditMiddleware =
+  ({
+    session,
+    chatId,
+    messageId,
+    walletProvider,
+  }: {
+    session: Session;
+    chatId?: string;
+    messageId?: string;
+    walletProvider: EvmWalletProvider;
+  }): ActionMiddleware =>
+  async ({ action, args }, next) => {
+    const createdAt = new Date();
+    let result: unknown;
+    let thrown: unknown;
+
+    try {
+      result = await next(args);
+    } catch (error) {
+      thrown = error;
+    }
+
+    try {
+      await saveAgentAction({
+        chatId: chatId ?? null,
+        messageId: messageId ?? null,
+        userId: session.user?.id ?? null,
+        action: action.name,
+        args: toJsonResult(args),
+        status: thrown || isActionFailure(result) ? "FAILED" : "SUCCESS",
+        result: thrown ? null : toJsonResult(result),
+        error: thrown
+          ? thrown instanceof Error
+            ? thrown.message
+            : String(thrown)
+          : null,
+        transactions: thrown
+          ? []
+          : await getAgentTransactions(walletProvider, result),
+        createdAt,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      // The audit log must never change the outcome of an action
+      console.error("Failed to audit agent action", error);
+    }
+
+    if (thrown) {
+      throw thrown;
+    }
+    return result;
+  };
+
+async function getAgentTransactions(
+  walletProvider: EvmWalletProvider,
+  result: unknown
+): Promise<AgentAction["transactions"]> {
+  const hashes = extractTransactionHashes(result).slice(0, MAX_RECEIPTS);
+  if (hashes.length === 0) {
+    return [];
+  }
+
+  // biome-ignore lint: networkId is not null
+  const networkId = walletProvider.getNetwork().networkId!;
+  const publicClient = createPublicClient({
+    chain: NETWORK_ID_TO_VIEM_CHAIN[networkId],
+    transport: http(getRpcUrl(networkId)),
+  });
+  const agentAddress = walletProvider.getAddress().toLowerCase();
+
+  const transactions = await Promise.all(
+    hashes.map(async (hash) => {
+      try {
+        const receipt = await publicClient.getTransactionReceipt({ hash });
+        if (receipt.from.toLowerCase() !== agentAddress) {
+          return null;
+        }
+        return {
+          hash,
+          blockNumber: receipt.blockNumber.toString(),
+          gasUsed: receipt.gasUsed.toString(),
+        };
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  return transactions.filter((transaction) => transaction !== null);
+}
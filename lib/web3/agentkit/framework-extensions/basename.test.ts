@@ -0,0 +1,78 @@
+import type { Action, EvmWalletProvider } from "@coinbase/agentkit";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createTestSession, createTestUser } from "@/test/harness/users";
+import { memoryBasenameTransferStore } from "../action-providers/basename/transfers";
+import { applyActionMiddleware } from "./ai-sdk";
+import { basenameTransferMiddleware } from "./basename";
+import { entitlementMiddleware } from "./entitlements";
+
+const walletProvider = {
+  getNetwork: () => ({ protocolFamily: "evm", networkId: "base-sepolia" }),
+} as EvmWalletProvider;
+
+const setUp = async () => {
+  const store = memoryBasenameTransferStore();
+  const destination = await createTestUser();
+  await store.create({
+    basename: "carol.basetest.eth",
+    networkId: "base-sepolia",
+    owner: "0x0000000000000000000000000000000000000001",
+    destination,
+    steps: [],
+  });
+  const runAs = (userId: string, name: string) =>
+    applyActionMiddleware(
+      {
+        name,
+        description: name,
+        schema: z.object({}),
+        invoke: async () => "Successfully transferred",
+      } as Action,
+      [
+        basenameTransferMiddleware({
+          session: createTestSession(userId),
+          transferStore: store,
+          walletProvider,
+        }),
+        entitlementMiddleware({ session: createTestSession(userId) }),
+      ]
+    );
+  return { destination, runAs };
+};
+
+describe("basenameTransferMiddleware", () => {
+  it("resumes a transfer to the user without spending an entitlement", async () => {
+    const { destination, runAs } = await setUp();
+
+    expect(
+      await runAs(
+        destination,
+        "resume_basename_transfer"
+      )({ basename: "carol" })
+    ).toBe("Successfully transferred");
+    expect(
+      await runAs(
+        destination,
+        "register_and_transfer_basename"
+      )({ basename: "carol", destination })
+    ).toEqual({
+      error:
+        "User has no unspent BASENAME entitlement from a claimed starter kit",
+    });
+  });
+
+  it("refuses transfers to another user", async () => {
+    const { runAs } = await setUp();
+    const otherUser = await createTestUser();
+
+    expect(
+      await runAs(otherUser, "resume_basename_transfer")({ basename: "carol" })
+    ).toEqual({
+      error: `No transfer of carol.basetest.eth to ${otherUser} was started`,
+    });
+    expect(
+      await runAs(otherUser, "resume_basename_transfer")({ basename: "dave" })
+    ).toHaveProperty("error");
+  });
+});
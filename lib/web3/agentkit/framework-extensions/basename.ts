@@ -0,0 +1,42 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import type { Session } from "next-auth";
+import { parseBasename } from "../action-providers/basename/pricing";
+import type { BasenameTransferStore } from "../action-providers/basename/transfers";
+import type { ActionMiddleware } from "./ai-sdk";
+
+/**
+ * Lets the signed in user resume a basename transfer that failed after the
+ * basename was registered. The registration already spent the user's BASENAME
+ * entitlement, so resuming needs none, but only transfers to the user's own
+ * wallet can be resumed.
+ */
+export const basenameTransferMiddleware =
+  ({
+    session,
+    transferStore,
+    walletProvider,
+  }: {
+    session: Session;
+    transferStore: BasenameTransferStore;
+    walletProvider: EvmWalletProvider;
+  }): ActionMiddleware =>
+  async ({ action, args }, next) => {
+    if (action.name !== "resume_basename_transfer") {
+      return next(args);
+    }
+
+    const userId = session.user?.id;
+    if (!userId) {
+      return { error: "User must be signed in to resume a basename transfer" };
+    }
+
+    const { basename } = parseBasename(walletProvider, String(args.basename));
+    const transfer = await transferStore.findLatest({
+      basename,
+      networkId: walletProvider.getNetwork().networkId as string,
+    });
+    if (transfer?.destination.toLowerCase() !== userId.toLowerCase()) {
+      return { error: `No transfer of ${basename} to ${userId} was started` };
+    }
+    return next(args);
+  };
@@ -0,0 +1,256 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import type { Session } from "next-auth";
+import { encodeFunctionData, formatEther, type Hex } from "viem";
+import { createActionProposal, getSafeProposalById } from "@/lib/db/queries";
+import { abi as erc20Abi } from "../action-providers/erc20/constants";
+import {
+  getTokenDetails,
+  parseTokenAmount,
+} from "../action-providers/erc20/utils";
+import { basenameRegistrationValue } from "../policies";
+import { NETWORK_ID_TO_VIEM_CHAIN } from "../wallet-providers/network";
+import type { ActionMiddleware } from "./ai-sdk";
+
+/**
+ * How long a proposed action can be confirmed for
+ */
+export const PROPOSAL_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * What the user is shown before confirming an action
+ */
+export interface ActionProposalPreview {
+  title: string;
+  to?: string;
+  recipient?: string;
+  /**
+   * ETH sent with the transaction, in whole units
+   */
+  value?: string;
+  data?: Hex;
+  functionName?: string;
+  decodedArgs?: Record<string, string>;
+  /**
+   * The name of the chain the action runs on
+   */
+  network?: string;
+}
+
+/**
+ * The tool result returned to the model in place of executing the action
+ */
+export interface PendingConfirmation {
+  status: "pending_confirmation";
+  proposalId: string;
+  action: string;
+  preview: ActionProposalPreview;
+  expiresAt: string;
+  message: string;
+}
+
+type PreviewBuilder = (
+  args: Record<string, unknown>,
+  walletProvider: EvmWalletProvider
+) => ActionProposalPreview | Promise<ActionProposalPreview>;
+
+/**
+ * Value-moving actions that need the user's confirmation, and how to describe
+ * them for review
+ */
+export const CONFIRMATION_ACTIONS: Record<string, PreviewBuilder> = {
+  native_transfer: (args) => ({
+    title: "Send ETH",
+    to: String(args.to),
+    recipient: String(args.to),
+    value: String(args.value),
+    data: "0x",
+  }),
+  transfer: async (args, walletProvider) => {
+    const contractAddress = String(args.contractAddress);
+    const { symbol, decimals } = await getTokenDetails(
+      walletProvider,
+      contractAddress
+    );
+    const amount = parseTokenAmount(String(args.amount), decimals);
+    return {
+      title: `Transfer ${symbol}`,
+      to: contractAddress,
+      recipient: String(args.destination),
+      value: "0",
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "transfer",
+        args: [args.destination as Hex, amount],
+      }),
+      functionName: "transfer",
+      decodedArgs: {
+        recipient: String(args.destination),
+        amount: `${args.amount} ${symbol}`,
+      },
+    };
+  },
+  approve: async (args, walletProvider) => {
+    const contractAddress = String(args.contractAddress);
+    const { symbol, decimals } = await getTokenDetails(
+      walletProvider,
+      contractAddress
+    );
+    const amount = parseTokenAmount(String(args.amount), decimals);
+    return {
+      title: amount === 0n ? `Revoke ${symbol} approval` : `Approve ${symbol}`,
+      to: contractAddress,
+      value: "0",
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [args.spender as Hex, amount],
+      }),
+      functionName: "approve",
+      decodedArgs: {
+        spender: String(args.spender),
+        amount: `${args.amount} ${symbol}`,
+      },
+    };
+  },
+  mint_1155: (args, walletProvider) => ({
+    title: "Mint NFT",
+    to: String(args.tokenContract),
+    recipient: args.mintRecipient
+      ? String(args.mintRecipient)
+      : walletProvider.getAddress(),
+    functionName: "mint",
+    decodedArgs: {
+      tokenId: String(args.tokenId),
+      quantity: String(args.quantityToMint),
+    },
+  }),
+  create_1155: (args) => ({
+    title: "Create NFT",
+    to: args.contractAddress ? String(args.contractAddress) : undefined,
+    functionName: args.contractAddress ? "setupNewToken" : "createContract",
+    decodedArgs: {
+      name: String(args.name),
+      ...(args.maxSupply ? { maxSupply: String(args.maxSupply) } : {}),
+    },
+  }),
+  register_basename: async (args, walletProvider) => ({
+    title: "Register basename",
+    recipient: walletProvider.getAddress(),
+    value: formatEther(await basenameRegistrationValue(args, walletProvider)),
+    functionName: "register",
+    decodedArgs: { name: String(args.basename) },
+  }),
+  register_and_transfer_basename: async (args, walletProvider) => ({
+    title: "Register and transfer basename",
+    recipient: String(args.destination),
+    value: formatEther(await basenameRegistrationValue(args, walletProvider)),
+    functionName: "register",
+    decodedArgs: {
+      name: String(args.basename),
+      owner: String(args.destination),
+    },
+  }),
+  create_safe: (args) => ({
+    title: "Create Safe",
+    functionName: "createProxyWithNonce",
+    decodedArgs: {
+      owners: (args.owners as Array<string>).join(", "),
+      threshold: String(args.threshold),
+    },
+  }),
+  sign_safe_transaction: (args) =>
+    safeProposalPreview("Sign Safe transaction", String(args.proposalId)),
+  execute_safe_transaction: (args) =>
+    safeProposalPreview("Execute Safe transaction", String(args.proposalId)),
+};
+
+/**
+ * Describes the transaction a safe proposal makes the safe send
+ * @param title The title of the preview
+ * @param proposalId The safe proposal
+ * @returns The preview
+ */
+async function safeProposalPreview(
+  title: string,
+  proposalId: string
+): Promise<ActionProposalPreview> {
+  const proposal = await getSafeProposalById(proposalId);
+  if (!proposal) {
+    throw new Error(`Safe proposal ${proposalId} not found`);
+  }
+
+  return {
+    title,
+    to: proposal.transaction.to,
+    value: formatEther(BigInt(proposal.transaction.value)),
+    data: proposal.transaction.data as Hex,
+    decodedArgs: {
+      safe: proposal.safeAddress,
+      nonce: String(proposal.nonce),
+      ...(proposal.description ? { description: proposal.description } : {}),
+    },
+  };
+}
+
+/**
+ * Replaces value-moving actions with a proposal bound to the chat, which the
+ * server only executes once the signed in user confirms it.
+ */
+export const confirmationMiddleware =
+  ({
+    session,
+    chatId,
+    walletProvider,
+  }: {
+    session: Session;
+    chatId: string;
+    walletProvider: EvmWalletProvider;
+  }): ActionMiddleware =>
+  async ({ action, args }, next) => {
+    const buildPreview = CONFIRMATION_ACTIONS[action.name];
+    if (!buildPreview) {
+      return next(args);
+    }
+
+    if (!session.user?.id) {
+      return { error: "User must be signed in to confirm transactions" };
+    }
+
+    let preview: ActionProposalPreview;
+    try {
+      preview = await buildPreview(args, walletProvider);
+    } catch (error) {
+      // Invalid arguments, like an amount more precise than the token allows
+      return {
+        error: `Error preparing ${action.name}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+
+    const { networkId } = walletProvider.getNetwork();
+    if (networkId) {
+      preview.network = NETWORK_ID_TO_VIEM_CHAIN[networkId]?.name;
+    }
+
+    const proposal = await createActionProposal({
+      chatId,
+      userId: session.user.id,
+      action: action.name,
+      args,
+      preview: { ...preview },
+      networkId,
+      expiresAt: new Date(Date.now() + PROPOSAL_TTL_MS),
+    });
+
+    const pending: PendingConfirmation = {
+      status: "pending_confirmation",
+      proposalId: proposal.id,
+      action: action.name,
+      preview,
+      expiresAt: proposal.expiresAt.toISOString(),
+      message:
+        "The transaction has been proposed and is shown to the user. It will only be executed once they confirm it, within 5 minutes.",
+    };
+    return pending;
+  };
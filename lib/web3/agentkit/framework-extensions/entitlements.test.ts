@@ -0,0 +1,142 @@
+import type { Action } from "@coinbase/agentkit";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  KIT_ENTITLEMENT_PROCESSING_TIMEOUT_MS,
+  reserveKitEntitlement,
+} from "@/lib/db/queries";
+import {
+  createTestSession,
+  createTestStarterKit,
+  createTestUser,
+} from "@/test/harness/users";
+import { notifyBroadcast } from "../wallet-providers/broadcasts";
+import { applyActionMiddleware } from "./ai-sdk";
+import { entitlementMiddleware } from "./entitlements";
+
+const HASH = `0x${"ab".repeat(32)}` as const;
+const FLNCHY = "0x1c93d155bd388241f9ab5df500d69eb529ce9583";
+
+const testAction = (
+  name: string,
+  invoke: Action["invoke"] = async () => `Sent ${HASH}`
+): Action => ({
+  name,
+  description: name,
+  schema: z.object({}),
+  invoke,
+});
+
+const setUp = async () => {
+  const userId = await createTestUser();
+  await createTestStarterKit(await createTestUser(), userId);
+  const run = (action: Action, args: Record<string, unknown> = {}) =>
+    applyActionMiddleware(action, [
+      entitlementMiddleware({ session: createTestSession(userId) }),
+    ])(args);
+  return { userId, run };
+};
+
+describe("entitlementMiddleware", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("spends the entitlement once", async () => {
+    const { run } = await setUp();
+
+    expect(await run(testAction("native_transfer"))).toBe(`Sent ${HASH}`);
+    expect(await run(testAction("native_transfer"))).toEqual({
+      error:
+        "User has no unspent ETH_DRIP entitlement from a claimed starter kit",
+    });
+  });
+
+  it("gives the entitlement back when nothing was broadcast", async () => {
+    const { run } = await setUp();
+
+    await run(testAction("native_transfer", async () => "Error: no funds"));
+    await expect(
+      run(
+        testAction("native_transfer", async () => {
+          throw new Error("RPC unavailable");
+        })
+      )
+    ).rejects.toThrow("RPC unavailable");
+
+    expect(await run(testAction("native_transfer"))).toBe(`Sent ${HASH}`);
+  });
+
+  it("keeps the entitlement spent when a failed delivery reached the chain", async () => {
+    const { run } = await setUp();
+
+    await run(
+      testAction("native_transfer", async () => `Error: ${HASH} reverted`)
+    );
+    await run(
+      testAction("mint_1155", async () => {
+        await notifyBroadcast(HASH);
+        throw new Error("Receipt timed out");
+      })
+    ).catch(() => {});
+
+    expect(await run(testAction("native_transfer"))).toHaveProperty("error");
+    expect(await run(testAction("mint_1155"))).toHaveProperty("error");
+  });
+
+  it("recovers deliveries stuck in processing", async () => {
+    const { userId, run } = await setUp();
+    await reserveKitEntitlement({
+      userId,
+      type: "ETH_DRIP",
+      action: "native_transfer",
+    });
+
+    expect(await run(testAction("native_transfer"))).toHaveProperty("error");
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + KIT_ENTITLEMENT_PROCESSING_TIMEOUT_MS + 1);
+    expect(await run(testAction("native_transfer"))).toBe(`Sent ${HASH}`);
+  });
+
+  it("only spends the ERC20 entitlement on a kit airdrop", async () => {
+    const { run } = await setUp();
+    const transfer = testAction("transfer");
+
+    expect(
+      await run(transfer, { contractAddress: FLNCHY, amount: "1000000" })
+    ).toEqual({
+      error: "Starter kits only airdrop 1000 FLNCHY or 0.1 AERO",
+    });
+    expect(
+      await run(transfer, {
+        contractAddress: HASH.slice(0, 42),
+        amount: "1000",
+      })
+    ).toHaveProperty("error");
+    expect(
+      await run(transfer, {
+        contractAddress: FLNCHY.toUpperCase().replace("0X", "0x"),
+        amount: "1000.0",
+      })
+    ).toBe(`Sent ${HASH}`);
+  });
+
+  it("treats an approval as the ERC20 airdrop, but not a revoke", async () => {
+    const { run } = await setUp();
+    const approve = testAction("approve");
+
+    expect(await run(approve, { contractAddress: FLNCHY, amount: "0" })).toBe(
+      `Sent ${HASH}`
+    );
+    expect(
+      await run(approve, { contractAddress: FLNCHY, amount: "1000" })
+    ).toBe(`Sent ${HASH}`);
+    expect(
+      await run(testAction("transfer"), {
+        contractAddress: FLNCHY,
+        amount: "1000",
+      })
+    ).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,144 @@
+import type { Session } from "next-auth";
+import { parseUnits } from "viem";
+import {
+  recordKitEntitlementTransaction,
+  releaseKitEntitlement,
+  reserveKitEntitlement,
+  settleKitEntitlement,
+} from "@/lib/db/queries";
+import type { KitEntitlementType } from "@/lib/db/schema";
+import { withBroadcastListener } from "../wallet-providers/broadcasts";
+import type { ActionMiddleware } from "./ai-sdk";
+import { extractTransactionHashes, isActionFailure } from "./results";
+
+/**
+ * Maps value-moving actions to the starter kit entitlement they spend
+ */
+export const ENTITLEMENT_ACTIONS: Record<string, KitEntitlementType> = {
+  native_transfer: "ETH_DRIP",
+  mint_1155: "NFT",
+  transfer: "ERC20",
+  // Lets the user pull the airdrop with transferFrom
+  approve: "ERC20",
+  // resume_basename_transfer completes this delivery without spending again
+  register_and_transfer_basename: "BASENAME",
+};
+
+/**
+ * The ERC20 airdrops a starter kit offers, with the amount in whole units
+ */
+export const KIT_ERC20_OPTIONS = [
+  {
+    symbol: "FLNCHY",
+    contractAddress: "0x1c93d155bd388241f9ab5df500d69eb529ce9583",
+    amount: "1000",
+  },
+  {
+    symbol: "AERO",
+    contractAddress: "0x940181a94a35a4569e4529a3cdfb74e38fd98631",
+    amount: "0.1",
+  },
+];
+
+// Compared at 18 decimals so that "0.10" and "0.1" are the same amount
+const toUnits = (amount: unknown) => {
+  try {
+    return parseUnits(String(amount), 18);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks that an ERC20 transfer or approval is one of the airdrops a kit
+ * offers
+ * @param args The transfer or approval arguments
+ * @returns True if the token and amount match an option
+ */
+function isKitErc20Transfer(args: Record<string, unknown>): boolean {
+  const amount = toUnits(args.amount);
+  return KIT_ERC20_OPTIONS.some(
+    (option) =>
+      option.contractAddress === String(args.contractAddress).toLowerCase() &&
+      toUnits(option.amount) === amount
+  );
+}
+
+/**
+ * Refuses value-moving actions unless the session user has a claimed starter
+ * kit with the matching entitlement unspent, and records the delivery in the
+ * KitEntitlement ledger once the action completes. A failed delivery gives
+ * the entitlement back only if it never broadcast a transaction.
+ */
+export const entitlementMiddleware =
+  ({ session }: { session: Session }): ActionMiddleware =>
+  async ({ action, args }, next) => {
+    const type = ENTITLEMENT_ACTIONS[action.name];
+    // Revoking an approval delivers nothing
+    const isRevoke = action.name === "approve" && toUnits(args.amount) === 0n;
+    if (!type || isRevoke) {
+      return next(args);
+    }
+
+    if (!session.user?.id) {
+      return { error: "User must be signed in to receive starter kit items" };
+    }
+
+    if (type === "ERC20" && !isKitErc20Transfer(args)) {
+      return {
+        error: `Starter kits only airdrop ${KIT_ERC20_OPTIONS.map(
+          (option) => `${option.amount} ${option.symbol}`
+        ).join(" or ")}`,
+      };
+    }
+
+    const entitlement = await reserveKitEntitlement({
+      userId: session.user.id,
+      type,
+      action: action.name,
+    });
+
+    if (!entitlement) {
+      return {
+        error: `User has no unspent ${type} entitlement from a claimed starter kit`,
+      };
+    }
+
+    const settleFailure = async (transactionHash?: string) => {
+      if (!transactionHash && (await releaseKitEntitlement(entitlement.id))) {
+        return;
+      }
+      await settleKitEntitlement({
+        id: entitlement.id,
+        status: "FAILED",
+        transactionHash,
+      });
+    };
+
+    try {
+      const result = await withBroadcastListener(
+        (transactionHash) =>
+          recordKitEntitlementTransaction({
+            id: entitlement.id,
+            transactionHash,
+          }).then(() => undefined),
+        () => next(args)
+      );
+      const transactionHash = extractTransactionHashes(result).at(-1);
+
+      if (isActionFailure(result)) {
+        await settleFailure(transactionHash);
+      } else {
+        await settleKitEntitlement({
+          id: entitlement.id,
+          status: "DELIVERED",
+          transactionHash,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      await settleFailure();
+      throw error;
+    }
+  };
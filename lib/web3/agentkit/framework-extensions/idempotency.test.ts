@@ -0,0 +1,33 @@
+import type { Action } from "@coinbase/agentkit";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { nextIdempotencyKey } from "../wallet-providers/idempotency";
+import { applyActionMiddleware } from "./ai-sdk";
+import { idempotencyMiddleware } from "./idempotency";
+
+// Reports the key the wallet provider would send its first transaction with
+const action: Action = {
+  name: "native_transfer",
+  description: "native_transfer",
+  schema: z.object({}),
+  invoke: async () => nextIdempotencyKey() ?? "none",
+};
+
+describe("idempotencyMiddleware", () => {
+  const invoke = applyActionMiddleware(action, [
+    idempotencyMiddleware({ chatId: "chat" }),
+  ]);
+  const args = { to: "0x0000000000000000000000000000000000000001" };
+
+  it("keys a retried invocation the same", async () => {
+    expect(await invoke(args, "call_1")).toBe(await invoke(args, "call_1"));
+  });
+
+  it("keys a new invocation with the same args differently", async () => {
+    expect(await invoke(args, "call_1")).not.toBe(await invoke(args, "call_2"));
+  });
+
+  it("does not key invocations without an id", async () => {
+    expect(await invoke(args)).toBe("none");
+  });
+});
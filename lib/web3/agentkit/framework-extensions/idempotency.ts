@@ -0,0 +1,22 @@
+import { keccak256, toBytes } from "viem";
+import { withIdempotencyKey } from "../wallet-providers/idempotency";
+import type { ActionMiddleware } from "./ai-sdk";
+
+/**
+ * Scopes every invocation to an idempotency key derived from the chat, the
+ * action and the invocation id, so a retried tool call or proposal returns
+ * the transactions it already sent instead of sending them again. A new
+ * request with the same args is a new invocation and sends new transactions.
+ */
+export const idempotencyMiddleware =
+  ({ chatId }: { chatId: string }): ActionMiddleware =>
+  ({ action, args, invocationId }, next) => {
+    if (!invocationId) {
+      return next(args);
+    }
+
+    const key = keccak256(
+      toBytes(JSON.stringify([chatId, action.name, invocationId]))
+    );
+    return withIdempotencyKey(key, () => next(args));
+  };
@@ -0,0 +1,31 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import type { ActionMiddleware } from "./ai-sdk";
+
+/**
+ * The network a chat operates on, updated when the model switches network
+ */
+export interface ChatNetwork {
+  networkId: string;
+}
+
+/**
+ * Refuses actions once the chat has switched network, as the tools for the
+ * rest of the response were set up with the wallet on the previous network.
+ */
+export const networkMiddleware =
+  ({
+    network,
+    walletProvider,
+  }: {
+    network: ChatNetwork;
+    walletProvider: EvmWalletProvider;
+  }): ActionMiddleware =>
+  async ({ action, args }, next) => {
+    if (network.networkId !== walletProvider.getNetwork().networkId) {
+      return {
+        error: `The chat switched to ${network.networkId}, ${action.name} can be used on it from the user's next message`,
+      };
+    }
+
+    return next(args);
+  };
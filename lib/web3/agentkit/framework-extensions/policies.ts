@@ -0,0 +1,40 @@
+import type { Session } from "next-auth";
+import type { PolicyEngine } from "../policies";
+import type { ActionMiddleware } from "./ai-sdk";
+import { isActionFailure } from "./results";
+
+/**
+ * Refuses actions that break the spend policy with a structured policy_denied
+ * result the model can explain, and releases the reserved spend when the
+ * action fails.
+ */
+export const policyMiddleware =
+  ({
+    engine,
+    session,
+  }: {
+    engine: PolicyEngine;
+    session: Session;
+  }): ActionMiddleware =>
+  async ({ action, args }, next) => {
+    const decision = await engine.authorize({
+      action: action.name,
+      args,
+      userId: session.user?.id,
+    });
+
+    if (!decision.allowed) {
+      return decision.denial;
+    }
+
+    try {
+      const result = await next(args);
+      if (isActionFailure(result)) {
+        await decision.release();
+      }
+      return result;
+    } catch (error) {
+      await decision.release();
+      throw error;
+    }
+  };
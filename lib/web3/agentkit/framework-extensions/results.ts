@@ -0,0 +1,57 @@
+const TRANSACTION_HASH_PATTERN = /0x[a-fA-F0-9]{64}/g;
+
+/**
+ * Serializes an action result, including bigint values, to a string
+ * @param result The value returned by an action
+ * @returns The result as a string
+ */
+export function stringifyActionResult(result: unknown): string {
+  if (typeof result === "string") {
+    return result;
+  }
+  return (
+    JSON.stringify(result ?? null, (_, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    ) ?? ""
+  );
+}
+
+/**
+ * Converts an action result to a value that can be stored in a json column
+ * @param result The value returned by an action
+ * @returns The result with bigint values converted to strings
+ */
+export function toJsonResult(result: unknown): unknown {
+  return typeof result === "string"
+    ? result
+    : JSON.parse(stringifyActionResult(result));
+}
+
+/**
+ * Action providers report failures either as strings starting with "Error" or
+ * as objects with an error field or success set to false.
+ * @param result The value returned by an action
+ * @returns True if the action reported a failure
+ */
+export function isActionFailure(result: unknown): boolean {
+  if (typeof result === "string") {
+    return /^(error|failed)/i.test(result.trim());
+  }
+  if (result && typeof result === "object") {
+    const { error, success } = result as { error?: unknown; success?: unknown };
+    return Boolean(error) || success === false;
+  }
+  return false;
+}
+
+/**
+ * Extracts every transaction hash mentioned in an action result
+ * @param result The value returned by an action
+ * @returns The unique transaction hashes, in order of appearance
+ */
+export function extractTransactionHashes(
+  result: unknown
+): Array<`0x${string}`> {
+  const matches = stringifyActionResult(result).match(TRANSACTION_HASH_PATTERN);
+  return Array.from(new Set(matches ?? [])) as Array<`0x${string}`>;
+}
@@ -0,0 +1,92 @@
+import type { Action } from "@coinbase/agentkit";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createTestSession } from "@/test/harness/users";
+import {
+  memorySafeProposalStore,
+  type SafeProposalStore,
+} from "../action-providers/safe/proposals";
+import { applyActionMiddleware } from "./ai-sdk";
+import { safeProposalMiddleware } from "./safe";
+
+const PROPOSER = "0x0000000000000000000000000000000000000001";
+const OTHER_USER = "0x0000000000000000000000000000000000000002";
+
+const createProposal = (store: SafeProposalStore) =>
+  store.create({
+    safeAddress: "0x0000000000000000000000000000000000005afe",
+    chainId: 84532,
+    safeVersion: "1.4.1",
+    safeTxHash: `0x${"01".repeat(32)}`,
+    nonce: 0,
+    transaction: {
+      to: OTHER_USER,
+      value: "1",
+      data: "0x",
+      operation: 0,
+      safeTxGas: "0",
+      baseGas: "0",
+      gasPrice: "0",
+      gasToken: "0x0000000000000000000000000000000000000000",
+      refundReceiver: "0x0000000000000000000000000000000000000000",
+      nonce: 0,
+    },
+    description: null,
+  });
+
+const setUp = () => {
+  const store = memorySafeProposalStore();
+  // The safe actions return objects, which AgentKit's types do not allow for
+  const runAs = (
+    userId: string,
+    name: string,
+    invoke: () => Promise<unknown>
+  ) =>
+    applyActionMiddleware(
+      {
+        name,
+        description: name,
+        schema: z.object({}),
+        invoke: invoke as Action["invoke"],
+      },
+      [
+        safeProposalMiddleware({
+          session: createTestSession(userId),
+          proposalStore: store,
+        }),
+      ]
+    );
+  const sign = (userId: string, proposalId: string) =>
+    runAs(
+      userId,
+      "sign_safe_transaction",
+      async () => "signed"
+    )({
+      proposalId,
+    });
+  return { store, runAs, sign };
+};
+
+describe("safeProposalMiddleware", () => {
+  it("signs proposals only for the user who proposed them", async () => {
+    const { store, runAs, sign } = setUp();
+    const { proposalId } = (await runAs(
+      PROPOSER,
+      "propose_safe_transaction",
+      async () => ({ proposalId: (await createProposal(store)).id })
+    )({})) as { proposalId: string };
+
+    expect((await store.get(proposalId))?.proposerId).toBe(PROPOSER);
+    expect(await sign(OTHER_USER, proposalId)).toEqual({
+      error: `Safe proposal ${proposalId} not found`,
+    });
+    expect(await sign(PROPOSER, proposalId)).toBe("signed");
+  });
+
+  it("refuses proposals without a proposer", async () => {
+    const { store, sign } = setUp();
+    const { id } = await createProposal(store);
+
+    expect(await sign(PROPOSER, id)).toHaveProperty("error");
+  });
+});
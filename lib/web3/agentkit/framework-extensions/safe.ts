@@ -0,0 +1,51 @@
+import type { Session } from "next-auth";
+import type { SafeProposalStore } from "../action-providers/safe/proposals";
+import type { ActionMiddleware } from "./ai-sdk";
+
+/**
+ * Actions that make the agent sign or pay for an existing safe proposal
+ */
+const SAFE_PROPOSAL_ACTIONS = [
+  "sign_safe_transaction",
+  "execute_safe_transaction",
+];
+
+/**
+ * Binds safe proposals to the signed in user who proposed them. The proposer
+ * is recorded when a proposal is created, and the agent only signs or
+ * executes proposals for the user who proposed them.
+ */
+export const safeProposalMiddleware =
+  ({
+    session,
+    proposalStore,
+  }: {
+    session: Session;
+    proposalStore: SafeProposalStore;
+  }): ActionMiddleware =>
+  async ({ action, args }, next) => {
+    const isProposal = action.name === "propose_safe_transaction";
+    if (!isProposal && !SAFE_PROPOSAL_ACTIONS.includes(action.name)) {
+      return next(args);
+    }
+
+    const userId = session.user?.id;
+    if (!userId) {
+      return { error: "User must be signed in to use safe proposals" };
+    }
+
+    if (isProposal) {
+      const result = await next(args);
+      const { proposalId } = (result ?? {}) as { proposalId?: string };
+      if (proposalId) {
+        await proposalStore.setProposer({ id: proposalId, proposerId: userId });
+      }
+      return result;
+    }
+
+    const proposal = await proposalStore.get(String(args.proposalId));
+    if (proposal?.proposerId?.toLowerCase() !== userId.toLowerCase()) {
+      return { error: `Safe proposal ${args.proposalId} not found` };
+    }
+    return next(args);
+  };
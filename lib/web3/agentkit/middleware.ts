@@ -0,0 +1,50 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import type { Session } from "next-auth";
+import type { ActionMiddleware } from "./framework-extensions/ai-sdk";
+import { basenameTransferMiddleware } from "./framework-extensions/basename";
+import { entitlementMiddleware } from "./framework-extensions/entitlements";
+import { idempotencyMiddleware } from "./framework-extensions/idempotency";
+import { policyMiddleware } from "./framework-extensions/policies";
+import { safeProposalMiddleware } from "./framework-extensions/safe";
+import { databaseSafeProposalStore } from "./action-providers/safe/proposals";
+import { databaseBasenameTransferStore } from "./action-providers/basename/transfers";
+import {
+  databaseSpendStore,
+  defaultSpendPolicy,
+  policyEngine,
+} from "./policies";
+
+/**
+ * The middleware every action invocation goes through when it is executed,
+ * whether directly by the model or after the user confirmed a proposal.
+ */
+export const executionMiddleware = ({
+  session,
+  chatId,
+  walletProvider,
+}: {
+  session: Session;
+  chatId: string;
+  walletProvider: EvmWalletProvider;
+}): Array<ActionMiddleware> => {
+  const engine = policyEngine({
+    policy: defaultSpendPolicy,
+    walletProvider,
+    store: databaseSpendStore,
+  });
+
+  return [
+    policyMiddleware({ engine, session }),
+    safeProposalMiddleware({
+      session,
+      proposalStore: databaseSafeProposalStore,
+    }),
+    basenameTransferMiddleware({
+      session,
+      transferStore: databaseBasenameTransferStore,
+      walletProvider,
+    }),
+    entitlementMiddleware({ session }),
+    idempotencyMiddleware({ chatId }),
+  ];
+};
@@ -0,0 +1,84 @@
+import type { SpendPolicy } from "./types";
+
+/**
+ * The default policy for the agent wallet. Caps are generous enough for the
+ * starter kit entitlements, but bound the damage of a misbehaving model.
+ */
+export const defaultSpendPolicy: SpendPolicy = {
+  actions: {
+    // Every other action is denied, value-moving actions also need a spend
+    // extractor so that their spend is checked
+    allow: [
+      // Reads
+      "get_wallet_details",
+      "fetch_price_feed",
+      "fetch_price",
+      "get_balance",
+      "get_allowance",
+      "check_basename_availability",
+      "get_basename_price",
+      "get_basename_profile",
+      "get_safe_info",
+      "search_base_tokens",
+      "get_portfolios",
+      "get_token_balances",
+      "get_nfts_for_owner",
+      "list_allowances",
+      "get_asset_transfers",
+      // Prepared for the user to sign, or only spending gas
+      "renew_basename",
+      "set_basename_text_records",
+      "create_safe",
+      "propose_safe_transaction",
+      // Only for the user who proposed them
+      "sign_safe_transaction",
+      "execute_safe_transaction",
+      // Starter kit deliveries
+      "native_transfer",
+      "transfer",
+      // Only to the signed in user, or revoking an approval
+      "approve",
+      "mint_1155",
+      "create_1155",
+      "register_and_transfer_basename",
+      "resume_basename_transfer",
+    ],
+  },
+  limits: [
+    { asset: "native", scope: "user", daily: "0.005" },
+    { asset: "native", scope: "global", daily: "0.1" },
+    // FLNCHY
+    {
+      asset: "0x1c93d155bd388241f9ab5df500d69eb529ce9583",
+      scope: "user",
+      daily: "1000",
+    },
+    {
+      asset: "0x1c93d155bd388241f9ab5df500d69eb529ce9583",
+      scope: "global",
+      daily: "100000",
+    },
+    // AERO
+    {
+      asset: "0x940181a94a35a4569e4529a3cdfb74e38fd98631",
+      scope: "user",
+      daily: "0.1",
+    },
+    {
+      asset: "0x940181a94a35a4569e4529a3cdfb74e38fd98631",
+      scope: "global",
+      daily: "10",
+    },
+  ],
+  // Actions that only spend gas, per user and UTC day
+  actionLimits: [
+    { action: "create_1155", daily: 3 },
+    { action: "create_safe", daily: 2 },
+    { action: "sign_safe_transaction", daily: 10 },
+    { action: "execute_safe_transaction", daily: 5 },
+    { action: "set_basename_text_records", daily: 5 },
+  ],
+  recipients: {
+    mustBeSessionUser: true,
+  },
+};
@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./config";
+export * from "./spends";
+export * from "./store";
+export * from "./policyEngine";
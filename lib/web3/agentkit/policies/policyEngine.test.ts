@@ -0,0 +1,228 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import { describe, expect, it } from "vitest";
+import { createTestUser } from "@/test/harness/users";
+import { databaseBasenameTransferStore } from "../action-providers/basename/transfers";
+import { defaultSpendPolicy } from "./config";
+import { policyEngine } from "./policyEngine";
+import { databaseSpendStore, memorySpendStore } from "./store";
+import type { SpendPolicy, SpendStore } from "./types";
+
+const AGENT = "0x00000000000000000000000000000000000a9e47";
+const TOKEN = "0x000000000000000000000000000000000000700c";
+const SHARED_TOKEN = "0x000000000000000000000000000000000005a4ed";
+
+// Reports the agent address and 6 decimals for every token
+const fakeWalletProvider = {
+  getAddress: () => AGENT,
+  getNetwork: () => ({ protocolFamily: "evm", networkId: "base-sepolia" }),
+  readContract: async () => 6,
+} as unknown as EvmWalletProvider;
+
+const policy: SpendPolicy = {
+  actions: { allow: ["get_balance", "native_transfer", "transfer"] },
+  limits: [
+    { asset: "native", scope: "user", daily: "0.005" },
+    { asset: TOKEN, scope: "user", daily: "100" },
+    { asset: SHARED_TOKEN, scope: "global", daily: "100" },
+  ],
+  recipients: { mustBeSessionUser: true },
+};
+
+const engineWith = (store: SpendStore) =>
+  policyEngine({ policy, walletProvider: fakeWalletProvider, store });
+
+const sendEth = (userId: string) => ({
+  action: "native_transfer",
+  args: { to: userId, value: "0.002" },
+  userId,
+});
+
+describe("PolicyEngine", () => {
+  it("denies actions the policy does not allow", async () => {
+    const engine = engineWith(memorySpendStore());
+
+    expect(
+      await engine.authorize({
+        action: "approve",
+        args: {},
+        userId: AGENT,
+      })
+    ).toMatchObject({
+      allowed: false,
+      denial: { rule: "action_not_allowed" },
+    });
+    expect(
+      await engine.authorize({ action: "get_balance", args: {} })
+    ).toMatchObject({ allowed: true });
+  });
+
+  it("only sends to the signed in user", async () => {
+    const engine = engineWith(memorySpendStore());
+    const userId = "0x0000000000000000000000000000000000000001";
+
+    expect(
+      await engine.authorize({ ...sendEth(userId), userId: undefined })
+    ).toMatchObject({ denial: { rule: "unauthenticated" } });
+    expect(
+      await engine.authorize({ ...sendEth(userId), userId: AGENT })
+    ).toMatchObject({ denial: { rule: "recipient_not_allowed" } });
+  });
+
+  it("only approves the signed in user as a spender, except for revokes", async () => {
+    const engine = policyEngine({
+      policy: defaultSpendPolicy,
+      walletProvider: fakeWalletProvider,
+      store: memorySpendStore(),
+    });
+    const userId = "0x0000000000000000000000000000000000000001";
+    const approve = (spender: string, amount: string) =>
+      engine.authorize({
+        action: "approve",
+        args: { contractAddress: TOKEN, spender, amount },
+        userId,
+      });
+
+    expect(await approve(AGENT, "1000000")).toMatchObject({
+      denial: { rule: "recipient_not_allowed" },
+    });
+    expect(await approve(AGENT, "0")).toMatchObject({ allowed: true });
+    expect(await approve(userId, "10")).toMatchObject({ allowed: true });
+  });
+
+  it("only resumes basename transfers to the signed in user", async () => {
+    const engine = policyEngine({
+      policy: defaultSpendPolicy,
+      walletProvider: fakeWalletProvider,
+      store: memorySpendStore(),
+    });
+    const userId = await createTestUser();
+    const basename = `${userId.slice(2, 12).toLowerCase()}.basetest.eth`;
+    await databaseBasenameTransferStore.create({
+      basename,
+      networkId: "base-sepolia",
+      owner: AGENT,
+      destination: userId,
+      steps: [],
+    });
+    const resume = (userId: string) =>
+      engine.authorize({
+        action: "resume_basename_transfer",
+        args: { basename },
+        userId,
+      });
+
+    expect(await resume(AGENT)).toMatchObject({
+      denial: { rule: "recipient_not_allowed" },
+    });
+    expect(await resume(userId)).toMatchObject({ allowed: true });
+  });
+
+  it("enforces daily limits in token units and frees released spends", async () => {
+    const engine = engineWith(memorySpendStore());
+    const userId = "0x0000000000000000000000000000000000000001";
+    const sendTokens = (amount: string) =>
+      engine.authorize({
+        action: "transfer",
+        args: { contractAddress: TOKEN, amount, destination: userId },
+        userId,
+      });
+
+    const first = await sendTokens("60");
+    expect(await sendTokens("60")).toMatchObject({
+      denial: {
+        rule: "daily_limit",
+        message: `The per-user daily limit of 100 for ${TOKEN} would be exceeded, 40 remains for today`,
+      },
+    });
+
+    if (!first.allowed) {
+      throw new Error("The first spend should be allowed");
+    }
+    await first.release();
+    expect(await sendTokens("60")).toMatchObject({ allowed: true });
+  });
+
+  describe.each([
+    ["memory", memorySpendStore],
+    ["database", () => databaseSpendStore],
+  ])("with the %s store", (_, createStore) => {
+    it("does not let concurrent spends exceed a limit", async () => {
+      const engine = engineWith(createStore());
+      const userId = await createTestUser();
+
+      const decisions = await Promise.all(
+        Array.from({ length: 4 }, () => engine.authorize(sendEth(userId)))
+      );
+
+      expect(decisions.filter((decision) => decision.allowed)).toHaveLength(2);
+    });
+
+    it("caps how often each user invokes a gas-only action", async () => {
+      const engine = policyEngine({
+        policy: {
+          actions: { allow: ["create_safe"] },
+          actionLimits: [{ action: "create_safe", daily: 2 }],
+        },
+        walletProvider: fakeWalletProvider,
+        store: createStore(),
+      });
+      const [userId, otherUser] = await Promise.all([
+        createTestUser(),
+        createTestUser(),
+      ]);
+      const createSafe = (userId: string) =>
+        engine.authorize({
+          action: "create_safe",
+          args: { owners: [userId], threshold: 1 },
+          userId,
+        });
+
+      const decisions = await Promise.all(
+        Array.from({ length: 4 }, () => createSafe(userId))
+      );
+
+      expect(decisions.filter((decision) => decision.allowed)).toHaveLength(2);
+      expect(decisions.find((decision) => !decision.allowed)).toMatchObject({
+        denial: {
+          rule: "daily_limit",
+          message:
+            "The per-user daily limit of 2 create_safe invocations has been reached, try again tomorrow",
+        },
+      });
+      expect(await createSafe(otherUser)).toMatchObject({ allowed: true });
+
+      const allowed = decisions.find((decision) => decision.allowed);
+      if (!allowed?.allowed) {
+        throw new Error("The first invocations should be allowed");
+      }
+      await allowed.release();
+      expect(await createSafe(userId)).toMatchObject({ allowed: true });
+    });
+
+    it("applies global limits across users", async () => {
+      const engine = engineWith(createStore());
+      const users = await Promise.all(
+        Array.from({ length: 3 }, () => createTestUser())
+      );
+
+      const decisions = await Promise.all(
+        users.map((userId) =>
+          engine.authorize({
+            action: "transfer",
+            args: {
+              contractAddress: SHARED_TOKEN,
+              amount: "40",
+              destination: userId,
+            },
+            userId,
+          })
+        )
+      );
+
+      expect(decisions.filter((decision) => decision.allowed)).toHaveLength(2);
+      expect(decisions.find((decision) => !decision.allowed)).toMatchObject({
+        denial: { message: expect.stringContaining("global daily limit") },
+      });
+    });
+  });
+});
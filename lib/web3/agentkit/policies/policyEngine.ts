@@ -0,0 +1,184 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import { formatUnits, type Hex, parseUnits } from "viem";
+import { abi as erc20Abi } from "../action-providers/erc20/constants";
+import { extractSpend } from "./spends";
+import type {
+  PolicyDenied,
+  PolicyRule,
+  Spend,
+  SpendAsset,
+  SpendCap,
+  SpendPolicy,
+  SpendStore,
+} from "./types";
+
+export type PolicyDecision =
+  | { allowed: true; release: () => Promise<void> }
+  | { allowed: false; denial: PolicyDenied };
+
+const deny = (rule: PolicyRule, message: string): PolicyDecision => ({
+  allowed: false,
+  denial: { error: "policy_denied", rule, message },
+});
+
+const startOfUtcDay = (date = new Date()) =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+
+/**
+ * PolicyEngine decides whether an AgentKit action may be invoked, based on a
+ * declarative SpendPolicy and the spends already recorded in a SpendStore.
+ */
+export class PolicyEngine {
+  private decimals = new Map<string, number>();
+
+  /**
+   * Constructor for the PolicyEngine.
+   * @param policy - The rules to enforce
+   * @param walletProvider - The agent wallet, used to resolve token decimals
+   * @param store - Where spends are recorded
+   */
+  constructor(
+    private policy: SpendPolicy,
+    private walletProvider: EvmWalletProvider,
+    private store: SpendStore
+  ) {}
+
+  /**
+   * Checks an action invocation against the policy. Actions the policy does
+   * not allow are denied. When allowed, the spend is reserved against the
+   * daily limits until release is called.
+   *
+   * @param action - The name of the action
+   * @param args - The arguments the action is invoked with
+   * @param userId - The signed in user, if any
+   * @returns The decision
+   */
+  async authorize({
+    action,
+    args,
+    userId,
+  }: {
+    action: string;
+    args: Record<string, unknown>;
+    userId?: string;
+  }): Promise<PolicyDecision> {
+    const { allow, deny: denied } = this.policy.actions;
+    if (!allow.includes(action) || denied?.includes(action)) {
+      return deny("action_not_allowed", `The ${action} action is not allowed`);
+    }
+
+    const spend = await extractSpend(action, args, this.walletProvider);
+    if (!spend) {
+      return { allowed: true, release: async () => {} };
+    }
+
+    if (!userId) {
+      return deny(
+        "unauthenticated",
+        "The user must be signed in before the agent can send anything"
+      );
+    }
+
+    if (!this.isRecipientAllowed(spend, userId)) {
+      return deny(
+        "recipient_not_allowed",
+        `The agent can only send to the signed in user's wallet ${userId}, not ${spend.recipient}`
+      );
+    }
+
+    const caps: Array<SpendCap> = [];
+    for (const limit of this.policy.limits ?? []) {
+      if (limit.asset.toLowerCase() === spend.asset.toLowerCase()) {
+        const decimals = await this.getDecimals(spend.asset);
+        caps.push({ limit, amount: parseUnits(limit.daily, decimals) });
+      }
+    }
+
+    const reservation = await this.store.reserve({
+      userId,
+      action,
+      spend,
+      since: startOfUtcDay(),
+      caps,
+      actionLimit: this.policy.actionLimits?.find(
+        (limit) => limit.action === action
+      ),
+    });
+
+    if ("exceededAction" in reservation) {
+      return deny(
+        "daily_limit",
+        `The per-user daily limit of ${reservation.exceededAction.daily} ${action} invocations has been reached, try again tomorrow`
+      );
+    }
+
+    if ("exceeded" in reservation) {
+      const { exceeded, spent } = reservation;
+      const remaining = spent >= exceeded.amount ? 0n : exceeded.amount - spent;
+      return deny(
+        "daily_limit",
+        `The ${
+          exceeded.limit.scope === "user" ? "per-user" : "global"
+        } daily limit of ${exceeded.limit.daily} for ${
+          spend.asset
+        } would be exceeded, ${formatUnits(
+          remaining,
+          await this.getDecimals(spend.asset)
+        )} remains for today`
+      );
+    }
+
+    return {
+      allowed: true,
+      release: () => this.store.release(reservation.id),
+    };
+  }
+
+  private isRecipientAllowed(spend: Spend, userId: string) {
+    const { mustBeSessionUser, allow = [] } = this.policy.recipients ?? {};
+    if (!mustBeSessionUser || !spend.recipient) {
+      return true;
+    }
+
+    const recipient = spend.recipient.toLowerCase();
+    return (
+      recipient === userId.toLowerCase() ||
+      allow.some((address) => address.toLowerCase() === recipient)
+    );
+  }
+
+  private async getDecimals(asset: SpendAsset) {
+    if (asset === "native") {
+      return 18;
+    }
+
+    const key = asset.toLowerCase();
+    const cached = this.decimals.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const decimals = Number(
+      await this.walletProvider.readContract({
+        address: asset as Hex,
+        abi: erc20Abi,
+        functionName: "decimals",
+        args: [],
+      })
+    );
+    this.decimals.set(key, decimals);
+    return decimals;
+  }
+}
+
+export const policyEngine = ({
+  policy,
+  walletProvider,
+  store,
+}: {
+  policy: SpendPolicy;
+  walletProvider: EvmWalletProvider;
+  store: SpendStore;
+}) => new PolicyEngine(policy, walletProvider, store);
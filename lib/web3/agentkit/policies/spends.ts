@@ -0,0 +1,136 @@
+import type { EvmWalletProvider } from "@coinbase/agentkit";
+import { type Hex, parseEther } from "viem";
+import {
+  parseBasename,
+  quoteBasename,
+} from "../action-providers/basename/pricing";
+import { databaseBasenameTransferStore } from "../action-providers/basename/transfers";
+import {
+  getTokenDetails,
+  parseTokenAmount,
+} from "../action-providers/erc20/utils";
+import type { Spend } from "./types";
+
+type SpendExtractor = (
+  args: Record<string, unknown>,
+  walletProvider: EvmWalletProvider
+) => Spend | Promise<Spend>;
+
+/**
+ * Gets the ETH a basename registration sends: the quoted price plus a buffer,
+ * capped by the optional maximum amount
+ * @param args The action arguments
+ * @param walletProvider The agent wallet provider
+ * @returns The value in wei
+ */
+export async function basenameRegistrationValue(
+  args: Record<string, unknown>,
+  walletProvider: EvmWalletProvider
+): Promise<bigint> {
+  const { value } = await quoteBasename(walletProvider, String(args.basename));
+  if (!args.amount) {
+    return value;
+  }
+  const max = parseEther(String(args.amount));
+  return max < value ? max : value;
+}
+
+/**
+ * Describes the value moved by each value-moving action, derived from the
+ * arguments the model called it with. Actions not listed here move no value.
+ */
+export const SPEND_EXTRACTORS: Record<string, SpendExtractor> = {
+  native_transfer: (args) => ({
+    asset: "native",
+    amount: parseEther(String(args.value)),
+    recipient: String(args.to),
+  }),
+  transfer: async (args, walletProvider) => {
+    const asset = args.contractAddress as Hex;
+    const { decimals } = await getTokenDetails(walletProvider, asset);
+    return {
+      asset,
+      amount: parseTokenAmount(String(args.amount), decimals),
+      recipient: String(args.destination),
+    };
+  },
+  // An approval lets the spender take the tokens later, so it is checked like
+  // a transfer to the spender. Revoking an approval moves nothing.
+  approve: async (args, walletProvider) => {
+    const asset = args.contractAddress as Hex;
+    const { decimals } = await getTokenDetails(walletProvider, asset);
+    const amount = parseTokenAmount(String(args.amount), decimals);
+    return amount === 0n
+      ? { asset, amount }
+      : { asset, amount, recipient: String(args.spender) };
+  },
+  mint_1155: (args, walletProvider) => ({
+    asset: "native",
+    amount: 0n,
+    recipient: args.mintRecipient
+      ? String(args.mintRecipient)
+      : walletProvider.getAddress(),
+  }),
+  // Only spends gas, creating a token mints nothing to anyone
+  create_1155: () => ({
+    asset: "native",
+    amount: 0n,
+  }),
+  // Only spend gas, recorded so that the policy's action limits can count them
+  create_safe: () => ({
+    asset: "native",
+    amount: 0n,
+  }),
+  set_basename_text_records: () => ({
+    asset: "native",
+    amount: 0n,
+  }),
+  // The value moves out of the safe, the agent only pays gas
+  sign_safe_transaction: () => ({
+    asset: "native",
+    amount: 0n,
+  }),
+  execute_safe_transaction: () => ({
+    asset: "native",
+    amount: 0n,
+  }),
+  register_basename: async (args, walletProvider) => ({
+    asset: "native",
+    amount: await basenameRegistrationValue(args, walletProvider),
+    recipient: walletProvider.getAddress(),
+  }),
+  register_and_transfer_basename: async (args, walletProvider) => ({
+    asset: "native",
+    amount: await basenameRegistrationValue(args, walletProvider),
+    recipient: String(args.destination),
+  }),
+  // Only spends gas, the basename goes to the destination recorded when the
+  // transfer was started
+  resume_basename_transfer: async (args, walletProvider) => {
+    const transfer = await databaseBasenameTransferStore.findLatest({
+      basename: parseBasename(walletProvider, String(args.basename)).basename,
+      networkId: walletProvider.getNetwork().networkId as string,
+    });
+    return {
+      asset: "native",
+      amount: 0n,
+      recipient: transfer?.destination,
+    };
+  },
+};
+
+/**
+ * Gets the spend of an action invocation
+ * @param action The action name
+ * @param args The action arguments
+ * @param walletProvider The agent wallet provider
+ * @returns The spend, or null if the action moves no value
+ */
+export async function extractSpend(
+  action: string,
+  args: Record<string, unknown>,
+  walletProvider: EvmWalletProvider
+): Promise<Spend | null> {
+  const extractor = SPEND_EXTRACTORS[action];
+  return extractor ? extractor(args, walletProvider) : null;
+}
@@ -0,0 +1,91 @@
+import { deleteAgentSpend, reserveAgentSpend } from "@/lib/db/queries";
+import type { SpendStore } from "./types";
+
+/**
+ * Stores spends in the AgentSpend table.
+ */
+export const databaseSpendStore: SpendStore = {
+  reserve: ({ userId, action, spend, since, caps, actionLimit }) =>
+    reserveAgentSpend({
+      userId,
+      action,
+      asset: spend.asset,
+      amount: spend.amount,
+      recipient: spend.recipient,
+      since,
+      caps: caps.map((cap) => ({ ...cap, scope: cap.limit.scope })),
+      actionLimit,
+    }),
+  release: async (id) => {
+    await deleteAgentSpend(id);
+  },
+};
+
+/**
+ * Stores spends in memory, for tests and local development.
+ */
+export const memorySpendStore = (): SpendStore => {
+  const entries = new Map<
+    string,
+    {
+      userId: string;
+      action: string;
+      asset: string;
+      amount: bigint;
+      createdAt: Date;
+    }
+  >();
+
+  const getSpent = (asset: string, since: Date, userId?: string) =>
+    Array.from(entries.values())
+      .filter(
+        (entry) =>
+          entry.asset === asset &&
+          entry.createdAt >= since &&
+          (!userId || entry.userId === userId)
+      )
+      .reduce((total, entry) => total + entry.amount, 0n);
+
+  return {
+    // Nothing is awaited between checking the caps and recording the spend,
+    // so concurrent reservations cannot interleave
+    reserve: async ({ userId, action, spend, since, caps, actionLimit }) => {
+      if (actionLimit) {
+        const invocations = Array.from(entries.values()).filter(
+          (entry) =>
+            entry.action === action &&
+            entry.userId === userId &&
+            entry.createdAt >= since
+        ).length;
+        if (invocations >= actionLimit.daily) {
+          return { exceededAction: actionLimit, invocations };
+        }
+      }
+
+      const asset = spend.asset.toLowerCase();
+      for (const cap of caps) {
+        const spent = getSpent(
+          asset,
+          since,
+          cap.limit.scope === "user" ? userId : undefined
+        );
+        if (spent + spend.amount > cap.amount) {
+          return { exceeded: cap, spent };
+        }
+      }
+
+      const id = crypto.randomUUID();
+      entries.set(id, {
+        userId,
+        action,
+        asset,
+        amount: spend.amount,
+        createdAt: new Date(),
+      });
+      return { id };
+    },
+    release: async (id) => {
+      entries.delete(id);
+    },
+  };
+};
@@ -0,0 +1,119 @@
+/**
+ * An asset is either the chain's native currency or an ERC20 contract address.
+ */
+export type SpendAsset = "native" | `0x${string}`;
+
+/**
+ * The value an action is about to move out of the agent wallet.
+ */
+export interface Spend {
+  asset: SpendAsset;
+  /**
+   * The amount in base units (wei for the native asset).
+   */
+  amount: bigint;
+  /**
+   * The address receiving the value, if any.
+   */
+  recipient?: string;
+}
+
+/**
+ * A cap on the value moved per UTC day.
+ */
+export interface SpendLimit {
+  asset: SpendAsset;
+  /**
+   * Whether the cap applies to each user or to all users combined.
+   */
+  scope: "user" | "global";
+  /**
+   * The cap in whole units of the asset, e.g. "0.01" ETH or "1000" tokens.
+   */
+  daily: string;
+}
+
+/**
+ * A cap on how many times each user may invoke an action per UTC day, for
+ * actions that only spend the agent's gas.
+ */
+export interface ActionLimit {
+  action: string;
+  daily: number;
+}
+
+/**
+ * Declarative rules applied to every AgentKit action before it is invoked.
+ */
+export interface SpendPolicy {
+  actions: {
+    /**
+     * Only these actions may be invoked, every other action is denied.
+     */
+    allow: Array<string>;
+    /**
+     * These actions may never be invoked, even if allowed.
+     */
+    deny?: Array<string>;
+  };
+  limits?: Array<SpendLimit>;
+  actionLimits?: Array<ActionLimit>;
+  recipients?: {
+    /**
+     * Value may only be sent to the signed in user's wallet.
+     */
+    mustBeSessionUser?: boolean;
+    /**
+     * Additional addresses that value may always be sent to.
+     */
+    allow?: Array<string>;
+  };
+}
+
+export type PolicyRule =
+  | "action_not_allowed"
+  | "unauthenticated"
+  | "recipient_not_allowed"
+  | "daily_limit";
+
+/**
+ * The tool result returned to the model when a policy refuses an action.
+ */
+export interface PolicyDenied {
+  error: "policy_denied";
+  rule: PolicyRule;
+  message: string;
+}
+
+/**
+ * A daily limit resolved to base units.
+ */
+export interface SpendCap {
+  limit: SpendLimit;
+  amount: bigint;
+}
+
+/**
+ * Persists spends so that daily limits can be enforced across requests.
+ */
+export interface SpendStore {
+  /**
+   * Records a spend unless it would take the amount spent since the given
+   * date over one of the caps, or the user's invocations of the action over
+   * its limit. Checking the caps and recording the spend is atomic, so
+   * concurrent spends cannot both fit under the same remaining amount.
+   */
+  reserve(entry: {
+    userId: string;
+    action: string;
+    spend: Spend;
+    since: Date;
+    caps: Array<SpendCap>;
+    actionLimit?: ActionLimit;
+  }): Promise<
+    | { id: string }
+    | { exceeded: SpendCap; spent: bigint }
+    | { exceededAction: ActionLimit; invocations: number }
+  >;
+  release(id: string): Promise<void>;
+}
@@ -6,34 +6,65 @@ import {
 } from "@coinbase/agentkit";
 import { erc20ActionProvider } from "./action-providers/erc20";
 import { safeActionProvider } from "./action-providers/safe";
+import { databaseSafeProposalStore } from "./action-providers/safe/proposals";
 import { alchemyActionProvider } from "./action-providers/alchemy";
+import { databaseTokenMetadataCache } from "./action-providers/alchemy/metadataCache";
 import { zoraActionProvider } from "./action-providers/zora";
+import { pinataStorage } from "./action-providers/zora/storage";
 import { basenameActionProvider } from "./action-providers/basename";
+import { onchainKitActionProvider } from "./action-providers/onchainkit";
+import { databaseBasenameTransferStore } from "./action-providers/basename/transfers";
+import {
+  DEFAULT_NETWORK_ID,
+  SUPPORTED_NETWORK_IDS,
+  getRpcUrl,
+} from "./wallet-providers/network";
 
-export const setupAgentKit = async () => {
-  const activeChain =
-    process.env.NEXT_PUBLIC_ACTIVE_CHAIN === "base"
-      ? "base-mainnet"
-      : "base-sepolia";
+/**
+ * Creates an AgentKit for a network, with the agent wallet on that chain and
+ * the action providers that support it
+ * @param networkId The Coinbase network ID, e.g. optimism-mainnet
+ * @returns The AgentKit and its wallet provider
+ */
+export const setupAgentKit = async ({
+  networkId = DEFAULT_NETWORK_ID,
+}: { networkId?: string } = {}) => {
+  if (!SUPPORTED_NETWORK_IDS.includes(networkId)) {
+    throw new Error(`Network ${networkId} is not supported`);
+  }
 
   const walletProvider = await PrivyWalletProvider.configureWithWallet({
     appId: process.env.PRIVY_APP_ID as string,
     appSecret: process.env.PRIVY_APP_SECRET as string,
-    networkId: activeChain,
+    networkId,
     walletId: process.env.PRIVY_WALLET_ID as string,
     authorizationKey: process.env.PRIVY_WALLET_AUTHORIZATION_KEY as string,
+    rpcUrl: getRpcUrl(networkId),
   });
 
-  return AgentKit.from({
+  const agentKit = await AgentKit.from({
     walletProvider,
     actionProviders: [
       pythActionProvider(),
       walletActionProvider(),
       erc20ActionProvider(),
-      safeActionProvider(),
-      basenameActionProvider(),
-      alchemyActionProvider(process.env.ALCHEMY_API_KEY as string),
-      zoraActionProvider(),
+      safeActionProvider({ proposalStore: databaseSafeProposalStore }),
+      basenameActionProvider({
+        transferStore: databaseBasenameTransferStore,
+      }),
+      alchemyActionProvider(process.env.ALCHEMY_API_KEY as string, {
+        metadataCache: databaseTokenMetadataCache,
+      }),
+      onchainKitActionProvider(
+        process.env.NEXT_PUBLIC_ONCHAINKIT_API_KEY as string
+      ),
+      zoraActionProvider({
+        storage: process.env.PINATA_JWT
+          ? pinataStorage(process.env.PINATA_JWT)
+          : undefined,
+      }),
     ],
   });
+
+  return { agentKit, walletProvider };
 };
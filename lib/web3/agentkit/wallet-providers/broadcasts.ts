@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+type BroadcastListener = (hash: `0x${string}`) => Promise<void>;
+
+const listeners = new AsyncLocalStorage<BroadcastListener>();
+
+/**
+ * Runs `fn` with a listener that the wallet provider calls with the hash of
+ * every transaction it broadcasts within the scope, before waiting for it to
+ * be mined.
+ */
+export const withBroadcastListener = <T>(
+  listener: BroadcastListener,
+  fn: () => Promise<T>
+): Promise<T> => listeners.run(listener, fn);
+
+/**
+ * Reports a broadcast transaction to the listener in scope, if any.
+ */
+export const notifyBroadcast = async (hash: `0x${string}`): Promise<void> => {
+  await listeners.getStore()?.(hash);
+};
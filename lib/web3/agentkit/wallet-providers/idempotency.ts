@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+const scopes = new AsyncLocalStorage<{ key: string; sequence: number }>();
+
+/**
+ * Runs `fn` with an idempotency key in scope. Every transaction sent by the
+ * wallet provider within the scope is keyed by the scope key and its position
+ * in the sequence, so a retried action skips the transactions it already sent.
+ */
+export const withIdempotencyKey = <T>(
+  key: string,
+  fn: () => Promise<T>
+): Promise<T> => scopes.run({ key, sequence: 0 }, fn);
+
+/**
+ * Returns the key for the next transaction in the current scope, if any.
+ */
+export const nextIdempotencyKey = (): string | undefined => {
+  const scope = scopes.getStore();
+  if (!scope) {
+    return undefined;
+  }
+  return `${scope.key}:${scope.sequence++}`;
+};
@@ -53,3 +53,45 @@ export const NETWORK_ID_TO_VIEM_CHAIN: Record<string, Chain> = {
   "optimism-mainnet": optimism,
   "optimism-sepolia": optimismSepolia,
 };
+
+/**
+ * The networks the agent can operate on, mainnets in production and their
+ * testnets otherwise
+ */
+export const SUPPORTED_NETWORK_IDS =
+  process.env.NEXT_PUBLIC_ACTIVE_CHAIN === "base"
+    ? [
+        "base-mainnet",
+        "optimism-mainnet",
+        "arbitrum-mainnet",
+        "ethereum-mainnet",
+      ]
+    : [
+        "base-sepolia",
+        "optimism-sepolia",
+        "arbitrum-sepolia",
+        "ethereum-sepolia",
+      ];
+
+/**
+ * The network chats start on
+ */
+export const DEFAULT_NETWORK_ID = SUPPORTED_NETWORK_IDS[0];
+
+/**
+ * Gets the RPC URL configured for a network, e.g. AGENT_RPC_URL_OPTIMISM_MAINNET.
+ * AGENT_RPC_URL applies to the default network. Without either, the chain's
+ * public RPC is used.
+ * @param networkId The Coinbase network ID
+ * @returns The RPC URL, if one is configured
+ */
+export function getRpcUrl(networkId: string): string | undefined {
+  const key = `AGENT_RPC_URL_${networkId.toUpperCase().replace(/-/g, "_")}`;
+  return (
+    process.env[key] ||
+    (networkId === DEFAULT_NETWORK_ID
+      ? process.env.AGENT_RPC_URL
+      : undefined) ||
+    undefined
+  );
+}
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { type LocalChain, startLocalChain } from "@/test/harness/chain";
+import { withIdempotencyKey } from "./idempotency";
+import { PrivyWalletProvider } from "./privyWalletProvider";
+import {
+  databaseTransactionStore,
+  type WalletTransactionUpdate,
+} from "./transactionStore";
+
+const RECIPIENT = "0x00000000000000000000000000000000000000a1";
+
+describe("PrivyWalletProvider", () => {
+  let chain: LocalChain;
+
+  const walletProvider = (
+    index: number,
+    config: Partial<
+      Parameters<typeof PrivyWalletProvider.configureWithAccount>[0]
+    > = {}
+  ) =>
+    PrivyWalletProvider.configureWithAccount({
+      account: chain.accounts[index],
+      rpcUrl: chain.url,
+      ...config,
+    });
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+  });
+
+  afterAll(async () => {
+    await chain?.stop();
+  });
+
+  it("gives concurrent transactions consecutive nonces", async () => {
+    const provider = walletProvider(0);
+
+    const hashes = await Promise.all(
+      [1n, 2n, 3n].map((value) =>
+        provider.sendTransaction({ to: RECIPIENT, value })
+      )
+    );
+    const receipts = await Promise.all(
+      hashes.map((hash) => provider.waitForTransactionReceipt(hash))
+    );
+
+    expect(receipts.map(({ status }) => status)).toEqual(
+      Array(3).fill("success")
+    );
+    const nonces = await Promise.all(
+      hashes.map(
+        async (hash) =>
+          (
+            await chain.publicClient.getTransaction({ hash })
+          ).nonce
+      )
+    );
+    expect(nonces.sort()).toEqual([0, 1, 2]);
+  });
+
+  it("returns the original transaction when a send is retried", async () => {
+    const provider = walletProvider(1);
+    const send = () =>
+      withIdempotencyKey("retried-action", () =>
+        provider.sendTransaction({ to: RECIPIENT, value: 1n })
+      );
+
+    const hash = await send();
+    await provider.waitForTransactionReceipt(hash);
+
+    expect(await send()).toBe(hash);
+    expect(
+      await chain.publicClient.getTransactionCount({
+        address: chain.accounts[1].address,
+      })
+    ).toBe(1);
+  });
+
+  it("replaces a stuck transaction with higher fees", async () => {
+    const updates: Array<WalletTransactionUpdate> = [];
+    const provider = walletProvider(2, {
+      stuckTransactionTimeout: 1000,
+      transactionStore: {
+        ...databaseTransactionStore,
+        update: async (update) => {
+          await databaseTransactionStore.update(update);
+          updates.push(update);
+          // Mine the replacement as soon as it is broadcast
+          if (update.hashes?.length === 2) {
+            await chain.testClient.mine({ blocks: 1 });
+          }
+        },
+      },
+    });
+
+    await chain.testClient.setAutomine(false);
+    try {
+      const hash = await provider.sendTransaction({ to: RECIPIENT, value: 1n });
+      const receipt = await provider.waitForTransactionReceipt(hash);
+
+      const [sent, replaced] = updates;
+      expect(receipt).toMatchObject({
+        status: "success",
+        transactionHash: replaced.hash,
+      });
+      expect(replaced.hashes).toEqual([hash, replaced.hash]);
+      expect(BigInt(replaced.maxPriorityFeePerGas as string)).toBe(
+        (BigInt(sent.maxPriorityFeePerGas as string) * 125n) / 100n
+      );
+      expect(
+        await databaseTransactionStore.findByHash(receipt.transactionHash)
+      ).toMatchObject({ nonce: 0, status: "CONFIRMED" });
+    } finally {
+      await chain.testClient.setAutomine(true);
+    }
+  });
+});
@@ -1,23 +1,77 @@
 import { PrivyClient } from "@privy-io/server-auth";
 import { createViemAccount } from "@privy-io/server-auth/viem";
 import { ViemWalletProvider } from "@coinbase/agentkit";
-import { createWalletClient, http, type WalletClient } from "viem";
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  WaitForTransactionReceiptTimeoutError,
+  type Account,
+  type PublicClient,
+  type ReadContractParameters,
+  type TransactionRequest,
+  type WalletClient,
+} from "viem";
 import { NETWORK_ID_TO_VIEM_CHAIN } from "./network";
+import { notifyBroadcast } from "./broadcasts";
+import { nextIdempotencyKey } from "./idempotency";
+import {
+  databaseTransactionStore,
+  type TransactionStore,
+} from "./transactionStore";
 
-interface PrivyWalletConfig {
+interface AccountWalletConfig {
+  account: Account;
+  networkId?: string;
+  rpcUrl?: string;
+  transactionStore?: TransactionStore;
+  /**
+   * How long to wait for a receipt before replacing the transaction, in
+   * milliseconds
+   */
+  stuckTransactionTimeout?: number;
+}
+
+interface PrivyWalletConfig extends Omit<AccountWalletConfig, "account"> {
   appId: string;
   appSecret: string;
   walletId: string;
-  networkId?: string;
   authorizationKey?: string;
 }
 
+// How long a retried send with the same idempotency key returns the
+// original transaction instead of sending a new one.
+const IDEMPOTENCY_WINDOW_MS = 60 * 60 * 1000;
+// How long to wait for a receipt before replacing the transaction.
+const STUCK_TRANSACTION_TIMEOUT_MS = 20_000;
+const MAX_REPLACEMENTS = 2;
+// Replacements must raise both fees by at least 10% to be accepted.
+const FEE_BUMP_PERCENT = 125n;
+
 /**
  * A wallet provider that uses Privy's server wallet API.
+ *
+ * Nonces are allocated through a transaction store rather than by the node,
+ * so concurrent requests never reuse a nonce, and transactions that are not
+ * mined in time are replaced with higher fees.
  */
 export class PrivyWalletProvider extends ViemWalletProvider {
-  private constructor(walletClient: WalletClient) {
+  #walletClient: WalletClient;
+  #publicClient: PublicClient;
+  #store: TransactionStore;
+  #stuckTransactionTimeout: number;
+
+  private constructor(
+    walletClient: WalletClient,
+    publicClient: PublicClient,
+    store: TransactionStore,
+    stuckTransactionTimeout: number
+  ) {
     super(walletClient);
+    this.#walletClient = walletClient;
+    this.#publicClient = publicClient;
+    this.#store = store;
+    this.#stuckTransactionTimeout = stuckTransactionTimeout;
   }
 
   public static async configureWithWallet(
@@ -40,22 +94,245 @@ export class PrivyWalletProvider extends ViemWalletProvider {
       privy,
     });
 
-    const network = {
-      protocolFamily: "evm" as const,
-      networkId: config.networkId || "84532",
-      chainId: "84532",
-    };
+    return PrivyWalletProvider.configureWithAccount({ ...config, account });
+  }
+
+  /**
+   * Configures the provider with a viem account rather than a Privy wallet,
+   * like a local account on a development chain.
+   */
+  public static configureWithAccount(
+    config: AccountWalletConfig
+  ): PrivyWalletProvider {
+    const { account } = config;
+
+    // The network reported to action providers is derived from the chain
+    const networkId = config.networkId || "base-sepolia";
+    const chain = NETWORK_ID_TO_VIEM_CHAIN[networkId];
+    if (!chain) {
+      throw new Error(`Network ${networkId} is not supported`);
+    }
 
-    const chain = NETWORK_ID_TO_VIEM_CHAIN[network.networkId];
+    const transport = http(config.rpcUrl);
     const walletClient = createWalletClient({
       account,
       chain,
-      transport: http(),
+      transport,
     });
-    return new PrivyWalletProvider(walletClient);
+    const publicClient = createPublicClient({
+      chain,
+      transport,
+    }) as PublicClient;
+    return new PrivyWalletProvider(
+      walletClient,
+      publicClient,
+      config.transactionStore ?? databaseTransactionStore,
+      config.stuckTransactionTimeout ?? STUCK_TRANSACTION_TIMEOUT_MS
+    );
   }
 
   getName(): string {
     return "privy_wallet_provider";
   }
+
+  async getBalance(): Promise<bigint> {
+    return this.#publicClient.getBalance({
+      address: this.getAddress() as `0x${string}`,
+    });
+  }
+
+  async readContract(params: ReadContractParameters) {
+    return this.#publicClient.readContract(params);
+  }
+
+  /**
+   * Sends a transaction with a nonce allocated by the transaction store. When
+   * an idempotency key is in scope and a transaction was already sent for it,
+   * the original hash is returned instead.
+   */
+  async sendTransaction(
+    transaction: TransactionRequest
+  ): Promise<`0x${string}`> {
+    const address = this.getAddress();
+    const chainId = this.#chainId();
+    const idempotencyKey = nextIdempotencyKey();
+
+    if (idempotencyKey) {
+      const existing = await this.#store.findByIdempotencyKey({
+        address,
+        chainId,
+        idempotencyKey,
+        since: new Date(Date.now() - IDEMPOTENCY_WINDOW_MS),
+      });
+      if (existing?.hash) {
+        await notifyBroadcast(existing.hash as `0x${string}`);
+        return existing.hash as `0x${string}`;
+      }
+    }
+
+    const pendingNonce = await this.#publicClient.getTransactionCount({
+      address: address as `0x${string}`,
+      blockTag: "pending",
+    });
+    const reserved = await this.#store.reserveNonce({
+      address,
+      chainId,
+      pendingNonce,
+      idempotencyKey,
+      to: transaction.to ?? undefined,
+      data: transaction.data,
+      value: transaction.value,
+    });
+
+    let fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+    let hash: `0x${string}`;
+    try {
+      fees = await this.#publicClient.estimateFeesPerGas();
+      hash = await this.#broadcast({
+        to: transaction.to ?? undefined,
+        data: transaction.data,
+        value: transaction.value,
+        nonce: reserved.nonce,
+        ...fees,
+      });
+    } catch (error) {
+      await this.#abandonUnusedNonce(reserved);
+      throw error;
+    }
+
+    await this.#store.update({
+      id: reserved.id,
+      status: "PENDING",
+      hash,
+      hashes: [hash],
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+    });
+    await notifyBroadcast(hash);
+    return hash;
+  }
+
+  /**
+   * Hands a nonce back after a failed broadcast, but only if the chain has
+   * not seen a transaction with it: a broadcast can fail after the node
+   * accepted the transaction, and reusing its nonce would replace it.
+   * Otherwise the reservation is left to go stale, and is only reused once
+   * the nonce is unused onchain.
+   */
+  async #abandonUnusedNonce(reserved: { id: string; nonce: number }) {
+    try {
+      const pendingNonce = await this.#publicClient.getTransactionCount({
+        address: this.getAddress() as `0x${string}`,
+        blockTag: "pending",
+      });
+      if (pendingNonce <= reserved.nonce) {
+        await this.#store.update({ id: reserved.id, status: "ABANDONED" });
+      }
+    } catch (error) {
+      console.error("Failed to check the nonce of a failed broadcast", error);
+    }
+  }
+
+  /**
+   * Waits for a receipt, replacing the transaction with higher fees when it
+   * is not mined in time.
+   */
+  async waitForTransactionReceipt(txHash: `0x${string}`) {
+    let hash = txHash;
+
+    for (let replacements = 0; ; replacements++) {
+      try {
+        const receipt = await this.#publicClient.waitForTransactionReceipt({
+          hash,
+          timeout: this.#stuckTransactionTimeout,
+        });
+
+        const transaction = await this.#store.findByHash(hash);
+        if (transaction) {
+          await this.#store.update({
+            id: transaction.id,
+            status: receipt.status === "success" ? "CONFIRMED" : "REVERTED",
+            hash: receipt.transactionHash,
+          });
+        }
+        return receipt;
+      } catch (error) {
+        if (
+          !(error instanceof WaitForTransactionReceiptTimeoutError) ||
+          replacements >= MAX_REPLACEMENTS
+        ) {
+          throw error;
+        }
+        hash = await this.#replace(hash);
+      }
+    }
+  }
+
+  /**
+   * Rebroadcasts a stuck transaction with the same nonce and bumped fees.
+   */
+  async #replace(hash: `0x${string}`): Promise<`0x${string}`> {
+    const transaction = await this.#store.findByHash(hash);
+    if (!transaction?.maxFeePerGas || !transaction.maxPriorityFeePerGas) {
+      throw new Error(`Transaction ${hash} cannot be replaced`);
+    }
+
+    const bump = (fee: string) => (BigInt(fee) * FEE_BUMP_PERCENT) / 100n;
+    const current = await this.#publicClient.estimateFeesPerGas();
+    const maxPriorityFeePerGas = [
+      bump(transaction.maxPriorityFeePerGas),
+      current.maxPriorityFeePerGas,
+    ].reduce((a, b) => (a > b ? a : b));
+    const maxFeePerGas = [
+      bump(transaction.maxFeePerGas),
+      current.maxFeePerGas,
+      maxPriorityFeePerGas,
+    ].reduce((a, b) => (a > b ? a : b));
+
+    const replacement = await this.#broadcast({
+      to: (transaction.to as `0x${string}`) ?? undefined,
+      data: (transaction.data as `0x${string}`) ?? undefined,
+      value: transaction.value ? BigInt(transaction.value) : undefined,
+      nonce: transaction.nonce,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    });
+
+    await this.#store.update({
+      id: transaction.id,
+      hash: replacement,
+      hashes: [...transaction.hashes, replacement],
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+    });
+    return replacement;
+  }
+
+  #broadcast(transaction: {
+    to?: `0x${string}`;
+    data?: `0x${string}`;
+    value?: bigint;
+    nonce: number;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+  }): Promise<`0x${string}`> {
+    const account = this.#walletClient.account;
+    if (!account) {
+      throw new Error("Account not found");
+    }
+
+    return this.#walletClient.sendTransaction({
+      account,
+      chain: this.#walletClient.chain,
+      ...transaction,
+    });
+  }
+
+  #chainId(): number {
+    const chainId = this.#walletClient.chain?.id;
+    if (!chainId) {
+      throw new Error("Chain not found");
+    }
+    return chainId;
+  }
 }
@@ -0,0 +1,51 @@
+import {
+  getWalletTransactionByHash,
+  getWalletTransactionByIdempotencyKey,
+  reserveWalletNonce,
+  updateWalletTransaction,
+} from "@/lib/db/queries";
+import type { WalletTransaction } from "@/lib/db/schema";
+
+export type WalletTransactionUpdate = Pick<WalletTransaction, "id"> &
+  Partial<
+    Pick<
+      WalletTransaction,
+      "status" | "hash" | "hashes" | "maxFeePerGas" | "maxPriorityFeePerGas"
+    >
+  >;
+
+/**
+ * Persists the transactions sent by a wallet so that nonces survive
+ * concurrent requests and restarts, and retried sends can be deduplicated.
+ */
+export interface TransactionStore {
+  reserveNonce(request: {
+    address: string;
+    chainId: number;
+    pendingNonce: number;
+    idempotencyKey?: string;
+    to?: string;
+    data?: string;
+    value?: bigint;
+  }): Promise<WalletTransaction>;
+  findByIdempotencyKey(query: {
+    address: string;
+    chainId: number;
+    idempotencyKey: string;
+    since: Date;
+  }): Promise<WalletTransaction | undefined>;
+  findByHash(hash: string): Promise<WalletTransaction | undefined>;
+  update(update: WalletTransactionUpdate): Promise<void>;
+}
+
+/**
+ * Stores transactions in the WalletTransaction table.
+ */
+export const databaseTransactionStore: TransactionStore = {
+  reserveNonce: (request) => reserveWalletNonce(request),
+  findByIdempotencyKey: (query) => getWalletTransactionByIdempotencyKey(query),
+  findByHash: (hash) => getWalletTransactionByHash(hash),
+  update: async (update) => {
+    await updateWalletTransaction(update);
+  },
+};
@@ -0,0 +1,75 @@
+import {
+  decodeFunctionData,
+  erc20Abi,
+  erc721Abi,
+  getAbiItem,
+  type Abi,
+  type AbiFunction,
+  type Hex,
+} from "viem";
+import {
+  L2_RESOLVER_ABI,
+  REGISTRAR_ABI,
+} from "./agentkit/action-providers/basename/constants";
+
+/**
+ * Calldata decoded for review before the user signs a transaction
+ */
+export interface DecodedCalldata {
+  functionName: string;
+  args: Array<{ name: string; value: string }>;
+}
+
+// The contracts the agent asks users to call
+const KNOWN_ABIS: Array<Abi> = [
+  erc20Abi,
+  erc721Abi,
+  L2_RESOLVER_ABI,
+  REGISTRAR_ABI as Abi,
+];
+
+const formatArg = (value: unknown): string => {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatArg).join(", ")}]`;
+  }
+  if (value && typeof value === "object") {
+    return JSON.stringify(value, (_, inner) =>
+      typeof inner === "bigint" ? inner.toString() : inner
+    );
+  }
+  return String(value);
+};
+
+/**
+ * Decodes calldata against the ABIs of the contracts the agent works with
+ * @param data The transaction calldata
+ * @returns The function and arguments, or null when the function is unknown
+ */
+export function decodeCalldata(data?: string): DecodedCalldata | null {
+  if (!data || data === "0x") {
+    return null;
+  }
+
+  for (const abi of KNOWN_ABIS) {
+    try {
+      const { functionName, args } = decodeFunctionData({
+        abi,
+        data: data as Hex,
+      });
+      const item = getAbiItem({ abi, name: functionName }) as AbiFunction;
+      return {
+        functionName,
+        args: (args ?? []).map((value, index) => ({
+          name: item?.inputs[index]?.name || `arg${index}`,
+          value: formatArg(value),
+        })),
+      };
+    } catch {
+      // Not a function of this ABI
+    }
+  }
+  return null;
+}
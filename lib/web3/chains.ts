@@ -0,0 +1,28 @@
+import { base, baseSepolia } from "viem/chains";
+
+/**
+ * The chain the app and the user's wallet operate on
+ */
+export const activeChain =
+  process.env.NEXT_PUBLIC_ACTIVE_CHAIN === "base" ? base : baseSepolia;
+
+/**
+ * The chains the user's wallet can send transactions on. The agent's wallet
+ * may run on the other Base network than the active chain, so transactions
+ * it prepares can target either.
+ */
+export const supportedChains = [
+  activeChain,
+  activeChain.id === base.id ? baseSepolia : base,
+] as const;
+
+export type SupportedChain = (typeof supportedChains)[number];
+
+/**
+ * Finds a supported chain by id
+ * @param chainId The chain id
+ * @returns The chain, or undefined if the wallet cannot send on it
+ */
+export function getSupportedChain(chainId: number) {
+  return supportedChains.find((chain) => chain.id === chainId);
+}
@@ -0,0 +1,25 @@
+import { activeChain, type SupportedChain } from "./chains";
+
+/**
+ * Links to a transaction, address or token on a chain's explorer
+ * @param type The kind of page to link to
+ * @param value The transaction hash or address
+ * @param chain The chain, the active chain by default
+ * @returns The explorer URL
+ */
+export function explorerUrl(
+  type: "tx" | "address" | "token",
+  value: string,
+  chain: SupportedChain = activeChain
+): string {
+  return `${chain.blockExplorers.default.url}/${type}/${value}`;
+}
+
+/**
+ * Shortens an address or hash for display
+ * @param value The address or hash
+ * @returns The first and last characters of the value
+ */
+export function shortenHex(value: string): string {
+  return value.length > 12 ? `${value.slice(0, 6)}…${value.slice(-4)}` : value;
+}
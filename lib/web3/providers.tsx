@@ -7,12 +7,10 @@ import { WagmiProvider, createConfig, http } from "wagmi";
 import { coinbaseWallet, metaMask } from "wagmi/connectors";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { SWRConfig } from "swr";
-
-const activeChain =
-  process.env.NEXT_PUBLIC_ACTIVE_CHAIN === "base" ? base : baseSepolia;
+import { activeChain, supportedChains } from "./chains";
 
 const wagmiConfig = createConfig({
-  chains: [activeChain],
+  chains: supportedChains,
   connectors: [
     coinbaseWallet({
       appName: "onchainkit",
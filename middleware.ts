@@ -20,6 +20,7 @@ export const config = {
     "/api/files/upload",
     "/api/document",
     "/api/suggestions",
+    "/api/agent-actions",
     // Excluding /api/chat to allow unauthenticated access
   ],
 };
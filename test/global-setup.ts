@@ -0,0 +1,19 @@
+import type { TestProject } from "vitest/node";
+import { startTestDatabase } from "./harness/database";
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    postgresUrl: string;
+  }
+}
+
+/**
+ * Starts one Postgres cluster for the whole run, each test file gets its own
+ * database on it.
+ */
+export default async function setup(project: TestProject) {
+  const database = await startTestDatabase();
+  project.provide("postgresUrl", database.url);
+
+  return () => database.stop();
+}
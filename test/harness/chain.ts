@@ -0,0 +1,82 @@
+import { ViemWalletProvider } from "@coinbase/agentkit";
+import ganache from "ganache";
+import {
+  type Chain,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  http,
+  parseEther,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+
+/**
+ * An in-process EVM with funded accounts, and clients to drive it.
+ */
+export type LocalChain = Awaited<ReturnType<typeof startLocalChain>>;
+
+/**
+ * Starts an in-process EVM. It keeps the id of the given chain, so action
+ * providers pick the same contracts and network ids as on that chain, but
+ * starts empty: contracts the code under test calls must be deployed or
+ * placed with setContractCode.
+ *
+ * @param options - The chain to mimic and the number of funded accounts
+ * @returns The chain, stopped with stop()
+ */
+export const startLocalChain = async ({
+  chain: baseChain = baseSepolia,
+  accounts: accountCount = 3,
+}: { chain?: Chain; accounts?: number } = {}) => {
+  const keys = Array.from({ length: accountCount }, () => generatePrivateKey());
+  const server = ganache.server({
+    logging: { quiet: true },
+    chain: { chainId: baseChain.id, hardfork: "shanghai" },
+    wallet: {
+      accounts: keys.map((secretKey) => ({
+        secretKey,
+        balance: `0x${parseEther("100").toString(16)}`,
+      })),
+    },
+  });
+  await server.listen(0, "127.0.0.1");
+  const { port } = server.address() as { port: number };
+  const url = `http://127.0.0.1:${port}`;
+
+  // AgentKit's ViemWalletProvider reads through the chain's default RPC
+  const chain: Chain = {
+    ...baseChain,
+    rpcUrls: { default: { http: [url] } },
+  };
+  const accounts = keys.map((key) => privateKeyToAccount(key));
+
+  const publicClient = createPublicClient({ chain, transport: http(url) });
+  const walletClient = createWalletClient({ chain, transport: http(url) });
+  const testClient = createTestClient({
+    chain,
+    mode: "ganache",
+    transport: http(url),
+  });
+
+  return {
+    chain,
+    url,
+    accounts,
+    publicClient,
+    walletClient,
+    testClient,
+    /**
+     * An AgentKit wallet provider for one of the funded accounts.
+     */
+    walletProvider: (index = 0) =>
+      new ViemWalletProvider(
+        createWalletClient({
+          account: accounts[index],
+          chain,
+          transport: http(url),
+        })
+      ),
+    stop: () => server.close(),
+  };
+};
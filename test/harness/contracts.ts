@@ -0,0 +1,138 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import solc from "solc";
+import type { Abi, Address, Hex } from "viem";
+import type { LocalChain } from "./chain";
+
+export type MockContractName =
+  | "MockERC20"
+  | "MockERC1155"
+  | "MockRegistrarController";
+
+interface CompiledContract {
+  abi: Abi;
+  bytecode: Hex;
+  deployedBytecode: Hex;
+}
+
+const CONTRACTS_DIR = path.join(__dirname, "contracts");
+const CONTRACT_NAMES: Array<MockContractName> = [
+  "MockERC20",
+  "MockERC1155",
+  "MockRegistrarController",
+];
+
+let compiled: Record<MockContractName, CompiledContract> | undefined;
+
+/**
+ * Compiles the mock contracts with solc-js, once per test file.
+ *
+ * @returns The ABI and bytecode of each mock contract
+ */
+export const compileContracts = () => {
+  if (compiled) {
+    return compiled;
+  }
+
+  const input = {
+    language: "Solidity",
+    sources: Object.fromEntries(
+      CONTRACT_NAMES.map((name) => [
+        `${name}.sol`,
+        {
+          content: readFileSync(
+            path.join(CONTRACTS_DIR, `${name}.sol`),
+            "utf8"
+          ),
+        },
+      ])
+    ),
+    settings: {
+      // Paris avoids PUSH0, which older EVMs reject
+      evmVersion: "paris",
+      outputSelection: {
+        "*": {
+          "*": ["abi", "evm.bytecode.object", "evm.deployedBytecode.object"],
+        },
+      },
+    },
+  };
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+
+  const errors = (output.errors ?? []).filter(
+    (error: { severity: string }) => error.severity === "error"
+  );
+  if (errors.length > 0) {
+    throw new Error(
+      errors
+        .map((error: { formattedMessage: string }) => error.formattedMessage)
+        .join("\n")
+    );
+  }
+
+  compiled = Object.fromEntries(
+    CONTRACT_NAMES.map((name) => {
+      const contract = output.contracts[`${name}.sol`][name];
+      return [
+        name,
+        {
+          abi: contract.abi,
+          bytecode: `0x${contract.evm.bytecode.object}`,
+          deployedBytecode: `0x${contract.evm.deployedBytecode.object}`,
+        },
+      ];
+    })
+  ) as Record<MockContractName, CompiledContract>;
+  return compiled;
+};
+
+/**
+ * Deploys a mock contract from the chain's first account.
+ *
+ * @param chain - The local chain
+ * @param name - The mock contract
+ * @param args - The constructor arguments
+ * @returns The contract address and ABI
+ */
+export const deployContract = async (
+  chain: LocalChain,
+  name: MockContractName,
+  args: Array<unknown> = []
+) => {
+  const { abi, bytecode } = compileContracts()[name];
+  const hash = await chain.walletClient.deployContract({
+    abi,
+    bytecode,
+    args,
+    account: chain.accounts[0],
+    chain: chain.chain,
+  });
+  const { contractAddress } =
+    await chain.publicClient.waitForTransactionReceipt({
+      hash,
+    });
+  if (!contractAddress) {
+    throw new Error(`Failed to deploy ${name}`);
+  }
+
+  return { address: contractAddress, abi };
+};
+
+/**
+ * Places a mock contract's code at a fixed address, for code that calls
+ * contracts at hard-coded addresses. The constructor does not run.
+ *
+ * @param chain - The local chain
+ * @param name - The mock contract
+ * @param address - Where to place the code
+ * @returns The contract address and ABI
+ */
+export const setContractCode = async (
+  chain: LocalChain,
+  name: MockContractName,
+  address: Address
+) => {
+  const { abi, deployedBytecode } = compileContracts()[name];
+  await chain.testClient.setCode({ address, bytecode: deployedBytecode });
+  return { address, abi };
+};
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// Minimal ERC1155 with open minting and no receiver checks, for tests. It
+/// also takes the Zora 1155 calls the Zora provider sends: paid mints through
+/// a minter, and token creation by its owner.
+contract MockERC1155 {
+    mapping(uint256 => mapping(address => uint256)) public balanceOf;
+    mapping(uint256 => uint256) public mintPrice;
+    address public owner = msg.sender;
+    uint256 public nextTokenId = 1;
+
+    event TransferSingle(
+        address indexed operator,
+        address indexed from,
+        address indexed to,
+        uint256 id,
+        uint256 value
+    );
+
+    event TokenCreated(uint256 indexed id);
+
+    function mint(address to, uint256 id, uint256 value) public {
+        balanceOf[id][to] += value;
+        emit TransferSingle(msg.sender, address(0), to, id, value);
+    }
+
+    /// Sets the price of a token, mint fee included
+    function setMintPrice(uint256 id, uint256 price) external {
+        mintPrice[id] = price;
+    }
+
+    /// Zora's mint, with the recipient in the fixed price minter's arguments
+    function mint(
+        address,
+        uint256 id,
+        uint256 quantity,
+        address[] calldata,
+        bytes calldata minterArguments
+    ) external payable {
+        require(msg.value == mintPrice[id] * quantity, "wrong value");
+        (address to, ) = abi.decode(minterArguments, (address, string));
+        mint(to, id, quantity);
+    }
+
+    function isAdminOrRole(address user, uint256, uint256) external view returns (bool) {
+        return user == owner;
+    }
+
+    /// Creates the next token without running the setup calls
+    function multicall(bytes[] calldata) external returns (bytes[] memory) {
+        require(msg.sender == owner, "not admin");
+        emit TokenCreated(nextTokenId);
+        nextTokenId += 1;
+        return new bytes[](0);
+    }
+
+    function safeTransferFrom(
+        address from,
+        address to,
+        uint256 id,
+        uint256 value,
+        bytes calldata
+    ) external {
+        require(from == msg.sender, "not owner");
+        require(balanceOf[id][from] >= value, "insufficient balance");
+        balanceOf[id][from] -= value;
+        balanceOf[id][to] += value;
+        emit TransferSingle(msg.sender, from, to, id, value);
+    }
+
+    function uri(uint256) external pure returns (string memory) {
+        return "ipfs://mock/{id}.json";
+    }
+}
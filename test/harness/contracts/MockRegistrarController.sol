@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// The Basenames registrar controller, for tests. Registering only marks the
+/// name taken. It has no constructor so its code can be placed at the real
+/// controller address.
+contract MockRegistrarController {
+    struct RegisterRequest {
+        string name;
+        address owner;
+        uint256 duration;
+        address resolver;
+        bytes[] data;
+        bool reverseRecord;
+    }
+
+    mapping(bytes32 => bool) private taken;
+
+    function setTaken(string calldata name) external {
+        taken[keccak256(bytes(name))] = true;
+    }
+
+    function available(string calldata name) external view returns (bool) {
+        return bytes(name).length >= 3 && !taken[keccak256(bytes(name))];
+    }
+
+    /// Shorter names cost more, like the real price oracle
+    function registerPrice(string calldata name, uint256) public pure returns (uint256) {
+        uint256 length = bytes(name).length;
+        if (length <= 3) return 0.1 ether;
+        if (length == 4) return 0.01 ether;
+        return 0.001 ether;
+    }
+
+    function register(RegisterRequest calldata request) external payable {
+        require(this.available(request.name), "Name unavailable");
+        require(msg.value >= registerPrice(request.name, request.duration), "Insufficient payment");
+        taken[keccak256(bytes(request.name))] = true;
+    }
+}
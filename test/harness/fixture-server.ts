@@ -0,0 +1,157 @@
+import { createServer, type IncomingMessage } from "node:http";
+
+type FixtureHandler = (body: unknown, request: FixtureRequest) => unknown;
+
+interface RpcRequest {
+  id?: unknown;
+  method?: string;
+  params?: unknown;
+}
+
+export interface FixtureRequest {
+  method: string;
+  host: string;
+  path: string;
+  body: unknown;
+}
+
+export interface FixtureServer {
+  url: string;
+  /**
+   * Sends requests for any https host to the fixture server instead, to be
+   * passed as the fetch of the code under test or stubbed as the global one.
+   */
+  fetch: typeof fetch;
+  /**
+   * Every request the server received, in order.
+   */
+  requests: Array<FixtureRequest>;
+  stop(): Promise<void>;
+}
+
+const readBody = async (request: IncomingMessage) => {
+  const chunks: Array<Buffer> = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Serves canned responses for the HTTP APIs the action providers call, like
+ * Alchemy and OnchainKit. JSON-RPC requests, batched or not, are answered by
+ * the handler for their method with its params, other requests by the handler
+ * for "<METHOD> <host><path>" with the body. A handler that throws answers
+ * with an error, and unknown requests with a 404.
+ *
+ * @param handlers - The responses by JSON-RPC method or route
+ * @returns The server, stopped with stop()
+ */
+export const startFixtureServer = async ({
+  rpc = {},
+  routes = {},
+}: {
+  rpc?: Record<string, FixtureHandler>;
+  routes?: Record<string, FixtureHandler>;
+}): Promise<FixtureServer> => {
+  const requests: Array<FixtureRequest> = [];
+
+  const answerRpc = async (
+    { id, method, params }: RpcRequest,
+    request: FixtureRequest
+  ) => {
+    const handler = method ? rpc[method] : undefined;
+    if (!handler) {
+      return {
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32601, message: `No fixture for ${method}` },
+      };
+    }
+    try {
+      return { jsonrpc: "2.0", id, result: await handler(params, request) };
+    } catch (error) {
+      return {
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32000, message: String(error) },
+      };
+    }
+  };
+
+  const server = createServer(async (request, response) => {
+    const [, host, ...rest] = (request.url ?? "/").split("/");
+    const path = `/${rest.join("/")}`;
+    const body = await readBody(request);
+    const fixtureRequest = {
+      method: request.method ?? "GET",
+      host,
+      path,
+      body,
+    };
+    requests.push(fixtureRequest);
+
+    const send = (status: number, payload: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(payload));
+    };
+
+    // JSON-RPC batches are answered item by item
+    if (Array.isArray(body)) {
+      send(
+        200,
+        await Promise.all(body.map((item) => answerRpc(item, fixtureRequest)))
+      );
+      return;
+    }
+
+    const rpcRequest = body as RpcRequest | undefined;
+    if (rpcRequest?.method) {
+      send(200, await answerRpc(rpcRequest, fixtureRequest));
+      return;
+    }
+
+    const handler =
+      routes[`${fixtureRequest.method} ${host}${path.split("?")[0]}`];
+    if (!handler) {
+      send(404, {
+        error: `No fixture for ${fixtureRequest.method} ${host}${path}`,
+      });
+      return;
+    }
+    try {
+      send(200, await handler(body, fixtureRequest));
+    } catch (error) {
+      send(500, { error: String(error) });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+  const url = `http://127.0.0.1:${port}`;
+
+  return {
+    url,
+    requests,
+    fetch: (input, init) => {
+      const target = new URL(
+        input instanceof Request ? input.url : String(input)
+      );
+      return fetch(`${url}/${target.host}${target.pathname}${target.search}`, {
+        method:
+          init?.method ?? (input instanceof Request ? input.method : "GET"),
+        headers: init?.headers,
+        body: init?.body,
+      });
+    },
+    stop: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+};
@@ -0,0 +1,133 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import {
+  getCompatibilityFallbackHandlerDeployment,
+  getCreateCallDeployment,
+  getMultiSendCallOnlyDeployment,
+  getMultiSendDeployment,
+  getProxyFactoryDeployment,
+  getSafeL2SingletonDeployment,
+  getSignMessageLibDeployment,
+  getSimulateTxAccessorDeployment,
+} from "@safe-global/safe-deployments";
+import {
+  type Abi,
+  type Address,
+  encodeFunctionData,
+  type Hex,
+  zeroAddress,
+} from "viem";
+import type { LocalChain } from "./chain";
+
+type SafeDeploymentGetter = typeof getMultiSendDeployment;
+
+const SAFE_VERSION = "1.4.1";
+
+// The contracts protocol-kit looks up for a 1.4.1 safe, by their artifact in
+// @safe-global/safe-contracts
+const SAFE_CONTRACTS: Array<[string, SafeDeploymentGetter]> = [
+  ["SafeL2.sol/SafeL2", getSafeL2SingletonDeployment],
+  ["proxies/SafeProxyFactory.sol/SafeProxyFactory", getProxyFactoryDeployment],
+  ["libraries/MultiSend.sol/MultiSend", getMultiSendDeployment],
+  [
+    "libraries/MultiSendCallOnly.sol/MultiSendCallOnly",
+    getMultiSendCallOnlyDeployment,
+  ],
+  [
+    "handler/CompatibilityFallbackHandler.sol/CompatibilityFallbackHandler",
+    getCompatibilityFallbackHandlerDeployment,
+  ],
+  ["libraries/SignMessageLib.sol/SignMessageLib", getSignMessageLibDeployment],
+  ["libraries/CreateCall.sol/CreateCall", getCreateCallDeployment],
+  [
+    "accessors/SimulateTxAccessor.sol/SimulateTxAccessor",
+    getSimulateTxAccessorDeployment,
+  ],
+];
+
+const require = createRequire(import.meta.url);
+
+interface SafeArtifact {
+  abi: Abi;
+  deployedBytecode: Hex;
+}
+
+const readArtifact = (name: string): SafeArtifact =>
+  JSON.parse(
+    readFileSync(
+      require.resolve(
+        `@safe-global/safe-contracts/build/artifacts/contracts/${name}.json`
+      ),
+      "utf8"
+    )
+  );
+
+/**
+ * Places the released 1.4.1 Safe contracts at their canonical addresses, like
+ * on the chain the local chain mimics. The constructors do not run.
+ *
+ * @param chain - The local chain
+ * @returns The singleton and proxy factory
+ */
+export const placeSafeContracts = async (chain: LocalChain) => {
+  const placed = await Promise.all(
+    SAFE_CONTRACTS.map(async ([name, getDeployment]) => {
+      const { abi, deployedBytecode } = readArtifact(name);
+      const address = getDeployment({
+        version: SAFE_VERSION,
+        network: String(chain.chain.id),
+      })?.defaultAddress as Address;
+      await chain.testClient.setCode({ address, bytecode: deployedBytecode });
+      return { address, abi };
+    })
+  );
+  const [singleton, factory] = placed;
+  return { singleton, factory };
+};
+
+let saltNonce = 0n;
+
+/**
+ * Creates a 1.4.1 safe through the canonical proxy factory, as the Safe apps
+ * do.
+ *
+ * @param chain - The local chain
+ * @param options - The owners of the safe and its signature threshold
+ * @returns The safe address
+ */
+export const deploySafe = async (
+  chain: LocalChain,
+  { owners, threshold }: { owners: Array<Address>; threshold: number }
+) => {
+  const { singleton, factory } = await placeSafeContracts(chain);
+
+  saltNonce += 1n;
+  const { request, result } = await chain.publicClient.simulateContract({
+    ...factory,
+    functionName: "createProxyWithNonce",
+    args: [
+      singleton.address,
+      encodeFunctionData({
+        abi: singleton.abi,
+        functionName: "setup",
+        args: [
+          owners,
+          BigInt(threshold),
+          zeroAddress,
+          "0x",
+          zeroAddress,
+          zeroAddress,
+          0n,
+          zeroAddress,
+        ],
+      }),
+      saltNonce,
+    ],
+    account: chain.accounts[0],
+  });
+  await chain.publicClient.waitForTransactionReceipt({
+    hash: await chain.walletClient.writeContract(request),
+  });
+
+  return result as Address;
+};
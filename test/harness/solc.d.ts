@@ -0,0 +1,7 @@
+// solc-js ships without types, only the compiler entry point is used
+declare module "solc" {
+  const solc: {
+    compile(input: string): string;
+  };
+  export default solc;
+}
@@ -0,0 +1,62 @@
+import { randomUUID } from "node:crypto";
+import type { Session } from "next-auth";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import {
+  claimStarterKit,
+  createStarterKit,
+  createUserIfNotExists,
+} from "@/lib/db/queries";
+
+/**
+ * Creates a user with a fresh wallet address.
+ *
+ * @returns The user's address, which is also its id
+ */
+export const createTestUser = async () => {
+  const { address } = privateKeyToAccount(generatePrivateKey());
+  await createUserIfNotExists(address);
+  return address;
+};
+
+/**
+ * Creates a session for a user, as next-auth returns it to routes and tools.
+ *
+ * @param userId - The user's address
+ */
+export const createTestSession = (userId: string): Session => ({
+  user: { id: userId },
+  expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+});
+
+/**
+ * Creates what auth() returns to routes for a user, or for a visitor who is
+ * not signed in.
+ *
+ * @param userId - The user's address, if signed in
+ */
+export const createTestAuth = (userId?: string) =>
+  userId
+    ? {
+        user: { id: userId },
+        expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      }
+    : { user: undefined, expires: "" };
+
+/**
+ * Creates an active starter kit bought by a user.
+ *
+ * @param creatorId - The buyer
+ * @param claimerId - The user to give the kit to, if any
+ * @returns The kit id
+ */
+export const createTestStarterKit = async (
+  creatorId: string,
+  claimerId?: string
+) => {
+  const id = randomUUID();
+  await createStarterKit({ id, value: 1000, userId: creatorId });
+  if (claimerId) {
+    await claimStarterKit({ kitId: id, userId: claimerId });
+  }
+  return id;
+};
@@ -0,0 +1,24 @@
+import { inject, vi } from "vitest";
+import { createTestDatabase } from "./harness/database";
+
+// Guards modules against client bundles, the tests only run them on the server
+vi.mock("server-only", () => ({}));
+
+// Tests run offline: only the local chain, fixture servers and database can be
+// reached
+const localFetch = globalThis.fetch;
+vi.stubGlobal("fetch", async (input: RequestInfo | URL, init?: RequestInit) => {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  if (url.hostname === "127.0.0.1" || url.hostname === "localhost") {
+    return localFetch(input, init);
+  }
+  // AgentKit reports every action invocation to Coinbase analytics
+  if (url.hostname === "cca-lite.coinbase.com") {
+    return new Response(null, { status: 204 });
+  }
+  throw new Error(`Tests cannot reach ${url.origin}`);
+});
+
+// Each test file gets its own migrated database, lib/db/queries connects to it
+// when first imported
+process.env.POSTGRES_URL = await createTestDatabase(inject("postgresUrl"));